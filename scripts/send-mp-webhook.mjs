@@ -0,0 +1,35 @@
+// Envia uma notificação assinada do Mercado Pago para o webhook local.
+//
+// Uso:
+//   MP_WEBHOOK_SECRET=... node scripts/send-mp-webhook.mjs <paymentId> [type] [url]
+//
+// A assinatura segue o mesmo formato de src/lib/webhook-signature.ts.
+import { createHmac, randomUUID } from "node:crypto";
+
+const [dataId, type = "payment", baseUrl = "http://localhost:3000/api/mercado-pago/webhook"] =
+  process.argv.slice(2);
+const secret = process.env.MP_WEBHOOK_SECRET;
+
+if (!dataId || !secret) {
+  console.error("Uso: MP_WEBHOOK_SECRET=... node scripts/send-mp-webhook.mjs <paymentId> [type] [url]");
+  process.exit(1);
+}
+
+const requestId = randomUUID();
+const ts = Date.now();
+const id = /^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId;
+const manifest = `id:${id};request-id:${requestId};ts:${ts};`;
+const v1 = createHmac("sha256", secret).update(manifest).digest("hex");
+
+const url = `${baseUrl}?data.id=${encodeURIComponent(dataId)}&type=${encodeURIComponent(type)}`;
+const response = await fetch(url, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "x-signature": `ts=${ts},v1=${v1}`,
+    "x-request-id": requestId,
+  },
+  body: JSON.stringify({ action: `${type}.updated`, type, data: { id: dataId } }),
+});
+
+console.log(response.status, await response.text());
@@ -0,0 +1,167 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { signOut, useSession } from "next-auth/react";
+import {
+  RecoveryCodesList,
+  TwoFactorSetupData,
+  TwoFactorSetupInstructions,
+} from "@/components/TwoFactor";
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900";
+
+export default function TwoFactor() {
+  return (
+    <Suspense fallback={<div>Carregando...</div>}>
+      <TwoFactorStep />
+    </Suspense>
+  );
+}
+
+function TwoFactorStep() {
+  const searchParams = useSearchParams();
+  const requestedUrl = searchParams.get("callbackUrl") ?? "";
+  // Só caminhos internos, para não redirecionar para outro site
+  const callbackUrl = requestedUrl.startsWith("/") && !requestedUrl.startsWith("//") ? requestedUrl : "/dashboard";
+
+  const { data: session, status } = useSession();
+  const step = session?.user?.twoFactorPending;
+
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (step !== "setup" || setup) return;
+
+    const startSetup = async () => {
+      try {
+        const response = await fetch("/api/auth/two-factor", { method: "POST" });
+        const result = await response.json();
+        if (!response.ok) {
+          setFormError(result.error ?? "Não foi possível iniciar a configuração.");
+          return;
+        }
+        setSetup(result);
+      } catch (error) {
+        setFormError("Erro inesperado ao iniciar a configuração.");
+      }
+    };
+
+    startSetup();
+  }, [step, setup]);
+
+  // Recarrega a página inteira para que a nova sessão (com role) seja lida
+  function continueToApp() {
+    window.location.assign(callbackUrl);
+  }
+
+  async function onSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setFormError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/two-factor/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setFormError(result.error ?? "Código inválido.");
+        return;
+      }
+
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+        return;
+      }
+
+      continueToApp();
+    } catch (error) {
+      setFormError("Erro inesperado ao verificar o código. Tente novamente.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="text-sm text-gray-500">Carregando...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <section className="w-full max-w-md space-y-6 rounded-lg bg-white p-8 shadow">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-black">Verificação em duas etapas</h1>
+          <p className="text-sm text-gray-500">
+            {step === "setup"
+              ? "Sua conta exige verificação em duas etapas. Configure-a para continuar."
+              : "Informe o código do seu app autenticador ou um código de recuperação."}
+          </p>
+        </div>
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <button
+              type="button"
+              onClick={continueToApp}
+              className="flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800"
+            >
+              Já guardei os códigos, continuar
+            </button>
+          </div>
+        ) : (
+          <>
+            {step === "setup" && setup && <TwoFactorSetupInstructions setup={setup} />}
+
+            {(step === "verify" || setup) && (
+              <form onSubmit={onSubmit} className="space-y-4">
+                <div className="space-y-1">
+                  <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                    Código
+                  </label>
+                  <input
+                    id="code"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={code}
+                    onChange={(event) => setCode(event.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !code.trim()}
+                  className="flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+                >
+                  {isSubmitting ? "Verificando..." : step === "setup" ? "Ativar e entrar" : "Verificar"}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <p className="text-center text-sm text-gray-500">
+          <button type="button" onClick={() => signOut({ callbackUrl: "/signin" })} className="underline">
+            Entrar com outra conta
+          </button>
+        </p>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { emailSchema } from "@/lib/credentials";
+
+type ForgotPasswordFormData = z.infer<typeof emailSchema>;
+
+export default function ForgotPassword() {
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(emailSchema),
+  });
+
+  async function onSubmit(data: ForgotPasswordFormData) {
+    setFormError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        setFormError(result.error ?? "Erro ao enviar o link. Tente novamente.");
+        return;
+      }
+
+      setSent(true);
+    } catch (error) {
+      setFormError("Erro inesperado. Tente novamente.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <section className="w-full max-w-md space-y-6 rounded-lg bg-white p-8 shadow">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-black">Esqueci minha senha</h1>
+          <p className="text-sm text-gray-500">
+            Informe seu e-mail e enviaremos um link para criar uma nova senha.
+          </p>
+        </div>
+
+        {sent ? (
+          <p className="text-sm text-gray-700 text-center">
+            Se houver uma conta com este e-mail, você receberá o link em instantes. O link vale por 1 hora.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-1">
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                E-mail
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+                {...register("email")}
+              />
+              {errors.email && <p className="text-xs text-red-500">{errors.email.message}</p>}
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+            >
+              {isSubmitting ? "Enviando..." : "Enviar link"}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-500">
+          <Link href="/signin" className="font-medium text-gray-900 underline">
+            Voltar para o login
+          </Link>
+        </p>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { signIn } from "next-auth/react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { registerSchema } from "@/lib/credentials";
+
+type RegisterFormData = z.infer<typeof registerSchema>;
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900";
+
+export default function Register() {
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RegisterFormData>({
+    resolver: zodResolver(registerSchema),
+  });
+
+  async function onSubmit(data: RegisterFormData) {
+    setFormError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setFormError(result.error ?? "Erro ao criar conta. Tente novamente.");
+        return;
+      }
+
+      setRegisteredEmail(data.email);
+    } catch (error) {
+      setFormError("Erro inesperado ao criar conta. Tente novamente.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (registeredEmail) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <section className="w-full max-w-md space-y-4 rounded-lg bg-white p-8 shadow text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-black">Confirme seu e-mail</h1>
+          <p className="text-sm text-gray-600">
+            Enviamos um link de confirmação para <strong>{registeredEmail}</strong>. Abra o link para
+            ativar sua conta e depois faça login.
+          </p>
+          <Link href="/signin" className="inline-block text-sm font-medium text-gray-900 underline">
+            Ir para o login
+          </Link>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <section className="w-full max-w-md space-y-6 rounded-lg bg-white p-8 shadow">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-black">Criar conta</h1>
+          <p className="text-sm text-gray-500">
+            Cadastre-se com e-mail e senha ou use uma conta social.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-1">
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+              Nome
+            </label>
+            <input id="name" type="text" autoComplete="name" className={inputClass} {...register("name")} />
+            {errors.name && <p className="text-xs text-red-500">{errors.name.message}</p>}
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+              E-mail
+            </label>
+            <input id="email" type="email" autoComplete="email" className={inputClass} {...register("email")} />
+            {errors.email && <p className="text-xs text-red-500">{errors.email.message}</p>}
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+              Senha
+            </label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              className={inputClass}
+              {...register("password")}
+            />
+            {errors.password && <p className="text-xs text-red-500">{errors.password.message}</p>}
+          </div>
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+          >
+            {isSubmitting ? "Criando conta..." : "Criar conta"}
+          </button>
+        </form>
+
+        <div className="flex items-center gap-2">
+          <div className="h-px flex-1 bg-gray-200" />
+          <span className="text-xs uppercase text-gray-400">ou</span>
+          <div className="h-px flex-1 bg-gray-200" />
+        </div>
+
+        <div className="space-y-3">
+          <button
+            type="button"
+            onClick={() => void signIn("google", { callbackUrl: "/dashboard" })}
+            className="flex w-full items-center justify-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            <span>Continuar com Google</span>
+          </button>
+
+          <button
+            type="button"
+            onClick={() => void signIn("github", { callbackUrl: "/dashboard" })}
+            className="flex w-full items-center justify-center gap-2 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            <span>Continuar com GitHub</span>
+          </button>
+        </div>
+
+        <p className="text-center text-sm text-gray-500">
+          Já tem conta?{" "}
+          <Link href="/signin" className="font-medium text-gray-900 underline">
+            Entrar
+          </Link>
+        </p>
+      </section>
+    </main>
+  );
+}
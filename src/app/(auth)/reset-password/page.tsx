@@ -0,0 +1,141 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { passwordSchema } from "@/lib/credentials";
+
+const resetFormSchema = z
+  .object({
+    password: passwordSchema,
+    confirmation: z.string(),
+  })
+  .refine((data) => data.password === data.confirmation, {
+    message: "As senhas não conferem",
+    path: ["confirmation"],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetFormSchema>;
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900";
+
+export default function ResetPassword() {
+  return (
+    <Suspense fallback={<div>Carregando...</div>}>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetFormSchema),
+  });
+
+  async function onSubmit(data: ResetPasswordFormData) {
+    setFormError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password: data.password }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setFormError(result.error ?? "Erro ao redefinir a senha. Tente novamente.");
+        return;
+      }
+
+      setDone(true);
+    } catch (error) {
+      setFormError("Erro inesperado. Tente novamente.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <section className="w-full max-w-md space-y-6 rounded-lg bg-white p-8 shadow">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-black">Nova senha</h1>
+        </div>
+
+        {!token ? (
+          <p className="text-sm text-red-600 text-center">
+            Link inválido.{" "}
+            <Link href="/forgot-password" className="underline">
+              Peça uma nova redefinição
+            </Link>
+            .
+          </p>
+        ) : done ? (
+          <p className="text-sm text-gray-700 text-center">
+            Senha redefinida com sucesso.{" "}
+            <Link href="/signin" className="font-medium text-gray-900 underline">
+              Entrar
+            </Link>
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-1">
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Nova senha
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                className={inputClass}
+                {...register("password")}
+              />
+              {errors.password && <p className="text-xs text-red-500">{errors.password.message}</p>}
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">
+                Confirme a nova senha
+              </label>
+              <input
+                id="confirmation"
+                type="password"
+                autoComplete="new-password"
+                className={inputClass}
+                {...register("confirmation")}
+              />
+              {errors.confirmation && <p className="text-xs text-red-500">{errors.confirmation.message}</p>}
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+            >
+              {isSubmitting ? "Salvando..." : "Salvar nova senha"}
+            </button>
+          </form>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
 import { Suspense, useState, useEffect } from "react";
+import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { signIn, useSession } from "next-auth/react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { EMAIL_NOT_VERIFIED } from "@/lib/credentials";
 
 const signInSchema = z.object({
   email: z.string().email("Informe um e-mail válido"),
@@ -14,6 +16,13 @@ const signInSchema = z.object({
 
 type SignInFormData = z.infer<typeof signInSchema>;
 
+// Erros devolvidos pelo NextAuth em ?error=
+const SIGN_IN_ERRORS: Record<string, string> = {
+  OAuthAccountNotLinked:
+    "Já existe uma conta com este e-mail. Entre com a forma de login que você já usa e vincule este provedor em Minha conta.",
+  AccessDenied: "Não foi possível entrar com esta conta. Se ela foi desativada, fale com o suporte.",
+};
+
 export default function SignIn() {
   return (
     <Suspense fallback={<div>Carregando...</div>}>
@@ -29,8 +38,13 @@ function SignInForm() {
 
   const { status } = useSession();
 
-  const [formError, setFormError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(
+    SIGN_IN_ERRORS[searchParams.get("error") ?? ""] ?? null
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // E-mail da tentativa de login bloqueada por falta de confirmação
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [verificationSent, setVerificationSent] = useState(false);
 
   useEffect(() => {
     if (status === "authenticated") {
@@ -48,6 +62,8 @@ function SignInForm() {
 
   async function onSubmit(data: SignInFormData) {
     setFormError(null);
+    setUnverifiedEmail(null);
+    setVerificationSent(false);
     setIsSubmitting(true);
 
     try {
@@ -58,6 +74,11 @@ function SignInForm() {
         callbackUrl,
       });
 
+      if (result?.error === EMAIL_NOT_VERIFIED) {
+        setUnverifiedEmail(data.email);
+        return;
+      }
+
       if (!result || result.error) {
         setFormError(result?.error ?? "Erro ao fazer login. Tente novamente.");
         return;
@@ -72,6 +93,22 @@ function SignInForm() {
     }
   }
 
+  async function resendVerification() {
+    if (!unverifiedEmail) return;
+
+    try {
+      const response = await fetch("/api/auth/resend-verification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: unverifiedEmail }),
+      });
+      if (!response.ok) throw new Error();
+      setVerificationSent(true);
+    } catch (error) {
+      setFormError("Não foi possível reenviar o e-mail. Tente novamente.");
+    }
+  }
+
   function handleSocialLogin(provider: "google" | "github") {
     void signIn(provider, { callbackUrl });
   }
@@ -123,6 +160,25 @@ function SignInForm() {
             <p className="text-sm text-red-600">{formError}</p>
           )}
 
+          {unverifiedEmail && (
+            <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+              Confirme seu e-mail antes de entrar.{" "}
+              {verificationSent ? (
+                <span>Enviamos um novo link para {unverifiedEmail}.</span>
+              ) : (
+                <button type="button" onClick={resendVerification} className="font-medium underline">
+                  Reenviar e-mail de confirmação
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="text-right">
+            <Link href="/forgot-password" className="text-sm text-gray-500 hover:text-gray-900">
+              Esqueci minha senha
+            </Link>
+          </div>
+
           <button
             type="submit"
             disabled={isSubmitting}
@@ -155,6 +211,13 @@ function SignInForm() {
             <span>Continuar com GitHub</span>
           </button>
         </div>
+
+        <p className="text-center text-sm text-gray-500">
+          Não tem conta?{" "}
+          <Link href="/register" className="font-medium text-gray-900 underline">
+            Criar conta
+          </Link>
+        </p>
       </section>
     </main>
   );
@@ -0,0 +1,80 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+
+export default function VerifyEmail() {
+  return (
+    <Suspense fallback={<div>Carregando...</div>}>
+      <VerifyEmailStatus />
+    </Suspense>
+  );
+}
+
+function VerifyEmailStatus() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<"loading" | "success" | "error">(token ? "loading" : "error");
+  const [message, setMessage] = useState(token ? "" : "Link inválido.");
+  // Evita consumir o token duas vezes (Strict Mode executa o efeito em dobro)
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          setStatus("error");
+          setMessage(result.error ?? "Não foi possível confirmar o e-mail.");
+          return;
+        }
+
+        setStatus("success");
+      } catch (error) {
+        setStatus("error");
+        setMessage("Erro inesperado ao confirmar o e-mail.");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <section className="w-full max-w-md space-y-4 rounded-lg bg-white p-8 shadow text-center">
+        <h1 className="text-2xl font-semibold tracking-tight text-black">Confirmação de e-mail</h1>
+
+        {status === "loading" && <p className="text-sm text-gray-500">Confirmando seu e-mail...</p>}
+
+        {status === "success" && (
+          <p className="text-sm text-gray-700">
+            E-mail confirmado!{" "}
+            <Link href="/signin" className="font-medium text-gray-900 underline">
+              Entrar
+            </Link>
+          </p>
+        )}
+
+        {status === "error" && (
+          <p className="text-sm text-red-600">
+            {message} Você pode pedir um novo link na{" "}
+            <Link href="/signin" className="underline">
+              tela de login
+            </Link>
+            .
+          </p>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FaCheckCircle, FaTimesCircle, FaDownload } from 'react-icons/fa';
+
+interface VerifiedCertificate {
+  code: string;
+  studentName: string;
+  courseTitle: string;
+  workload: string;
+  issuedAt: string;
+  revokedAt: string | null;
+  valid: boolean;
+}
+
+export default function CertificateVerificationPage({ params }: { params: Promise<{ code: string }> }) {
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCertificate = async () => {
+      try {
+        const { code } = await params;
+        const response = await fetch(`/api/certificates/${encodeURIComponent(code)}`);
+
+        if (response.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        if (!response.ok) throw new Error('Failed to verify certificate');
+
+        setCertificate(await response.json());
+      } catch (error) {
+        console.error('Error verifying certificate:', error);
+        setNotFound(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCertificate();
+  }, [params]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (notFound || !certificate) {
+    return (
+      <div className="container mx-auto p-4 max-w-2xl">
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <FaTimesCircle className="mx-auto h-12 w-12 text-red-500" />
+          <h1 className="mt-4 text-2xl font-bold text-gray-900">Certificado não encontrado</h1>
+          <p className="mt-2 text-gray-600">
+            Confira se o código de verificação foi digitado corretamente.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-3xl space-y-6">
+      <div className="bg-white rounded-lg shadow p-8">
+        <div className="flex items-center gap-3">
+          {certificate.valid ? (
+            <FaCheckCircle className="h-8 w-8 text-green-600 shrink-0" />
+          ) : (
+            <FaTimesCircle className="h-8 w-8 text-red-600 shrink-0" />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {certificate.valid ? 'Certificado válido' : 'Certificado revogado'}
+            </h1>
+            <p className="text-sm text-gray-500">Código {certificate.code}</p>
+          </div>
+        </div>
+
+        <dl className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <dt className="text-sm text-gray-500">Aluno</dt>
+            <dd className="font-medium text-gray-900">{certificate.studentName}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">Curso</dt>
+            <dd className="font-medium text-gray-900">{certificate.courseTitle}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">Carga horária</dt>
+            <dd className="font-medium text-gray-900">{certificate.workload}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">Emitido em</dt>
+            <dd className="font-medium text-gray-900">
+              {format(new Date(certificate.issuedAt), "d 'de' MMMM 'de' yyyy", { locale: ptBR })}
+            </dd>
+          </div>
+          {certificate.revokedAt && (
+            <div>
+              <dt className="text-sm text-gray-500">Revogado em</dt>
+              <dd className="font-medium text-red-700">
+                {format(new Date(certificate.revokedAt), "d 'de' MMMM 'de' yyyy", { locale: ptBR })}
+              </dd>
+            </div>
+          )}
+        </dl>
+
+        {certificate.valid && (
+          <a
+            href={`/api/certificates/${certificate.code}/svg?download=1`}
+            className="mt-6 inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700"
+          >
+            <FaDownload /> Baixar certificado
+          </a>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <img
+          src={`/api/certificates/${certificate.code}/svg`}
+          alt={`Certificado de ${certificate.studentName}`}
+          className="w-full h-auto"
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,53 @@
-export default function Temp() {
-    return <h1>temp</h1>
-}
\ No newline at end of file
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { FaArrowLeft } from 'react-icons/fa';
+import { getPageParam } from '@/lib/forum';
+import { CommentThread } from '../../_components/comment-thread';
+import { PostLoading, PostUnavailable } from '../../_components/post-state';
+import { useForumPost } from '../../_components/use-forum-post';
+
+/**
+ * Somente as respostas do post, com a página na URL (?page=) para links diretos.
+ */
+export default function ForumCommentsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ context_type: string; context_id: string; post_id: string }>;
+  searchParams: Promise<{ page?: string }>;
+}) {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const { post, basePath, error, isLoading } = useForumPost(params);
+  const page = getPageParam(use(searchParams).page ?? null);
+
+  if (isLoading) return <PostLoading />;
+  if (!post || !basePath) return <PostUnavailable error={error} basePath={basePath} />;
+
+  const postPath = `${basePath}/${post.id}`;
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl space-y-6">
+      <div>
+        <Link href={postPath} className="inline-flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700">
+          <FaArrowLeft /> Voltar para o post
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">Respostas: {post.title}</h1>
+      </div>
+
+      <CommentThread
+        postId={post.id}
+        currentUserId={session?.user?.id ?? null}
+        canReply={post.permissions.canReply}
+        canModerate={post.permissions.canModerate}
+        canAccept={post.permissions.canAccept}
+        page={page}
+        onPageChange={(next) => router.push(`${postPath}/comentarios?page=${next}`)}
+      />
+    </div>
+  );
+}
@@ -1,3 +1,54 @@
-export default function Temp() {
-    return <h1>temp</h1>
-}
\ No newline at end of file
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { getForumText } from '@/lib/forum';
+import { PostForm } from '../../_components/post-form';
+import { PostLoading, PostUnavailable } from '../../_components/post-state';
+import { useForumPost } from '../../_components/use-forum-post';
+
+export default function EditForumPostPage({ params }: { params: Promise<{ context_type: string; context_id: string; post_id: string }> }) {
+  const router = useRouter();
+  const { post, basePath, error, isLoading } = useForumPost(params);
+
+  if (isLoading) return <PostLoading />;
+  if (!post || !basePath) return <PostUnavailable error={error} basePath={basePath} />;
+  if (!post.permissions.canEdit) {
+    return <PostUnavailable error="Você não pode editar este post" basePath={basePath} />;
+  }
+
+  const postPath = `${basePath}/${post.id}`;
+
+  const handleSubmit = async ({ title, text }: { title: string; text: string }) => {
+    try {
+      const response = await fetch(`/api/forum/posts/${post.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, text }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao salvar post');
+
+      toast.success('Post atualizado');
+      router.push(postPath);
+    } catch (error) {
+      console.error('Error updating post:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao salvar post');
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-3xl">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Editar post</h1>
+        <PostForm
+          initialTitle={post.title}
+          initialText={getForumText(post.content)}
+          submitLabel="Salvar"
+          onSubmit={handleSubmit}
+          onCancel={() => router.push(postPath)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,174 @@
-export default function Temp() {
-    return <h1>temp</h1>
-}
\ No newline at end of file
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { FaArrowLeft, FaCheckCircle, FaEdit, FaFlag, FaLock, FaTrash } from 'react-icons/fa';
+import { Button } from '@/components/ui/button';
+import { getForumText } from '@/lib/forum';
+import { AuthorLine } from '../_components/author-line';
+import { CommentThread } from '../_components/comment-thread';
+import { ModerationBar } from '../_components/moderation-bar';
+import { PostBadges } from '../_components/post-badges';
+import { PostLoading, PostUnavailable } from '../_components/post-state';
+import { ReasonDialog } from '../_components/reason-dialog';
+import { submitReport } from '../_components/report';
+import { useForumPost } from '../_components/use-forum-post';
+import { VoteButton } from '../_components/vote-button';
+
+export default function ForumPostPage({ params }: { params: Promise<{ context_type: string; context_id: string; post_id: string }> }) {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const { post, basePath, error, isLoading, refresh } = useForumPost(params);
+  const [commentsPage, setCommentsPage] = useState(1);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  if (isLoading) return <PostLoading />;
+  if (!post || !basePath) return <PostUnavailable error={error} basePath={basePath} />;
+
+  const removePost = async (reason?: string) => {
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/forum/posts/${post.id}`, {
+        method: 'DELETE',
+        ...(reason ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ reason }) } : {}),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao excluir post');
+
+      toast.success('Post excluído');
+      router.push(basePath);
+    } catch (error) {
+      console.error('Error deleting post:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao excluir post');
+      setIsDeleting(false);
+    }
+  };
+
+  // O autor só confirma; a moderação precisa informar o motivo
+  const handleDelete = () => {
+    if (post.author.id === session?.user?.id) {
+      if (confirm('Excluir este post e todas as respostas?')) removePost();
+    } else {
+      setIsRemoving(true);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl space-y-6">
+      <Link href={basePath} className="inline-flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700">
+        <FaArrowLeft /> {post.curso ? `Fórum de ${post.curso.title}` : 'Fórum geral'}
+      </Link>
+
+      {post.permissions.canModerate && <ModerationBar post={post} onChange={refresh} />}
+
+      <article className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap gap-2 mb-2">
+          <PostBadges post={post} />
+        </div>
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-2xl font-bold text-gray-900">{post.title}</h1>
+          {post.permissions.canEdit && (
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" size="sm" onClick={() => router.push(`${basePath}/${post.id}/editar`)}>
+                <FaEdit className="mr-1" /> Editar
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handleDelete} disabled={isDeleting}>
+                <FaTrash className="mr-1" /> Excluir
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="mt-2">
+          <AuthorLine author={post.author} date={post.createdAt} />
+        </div>
+        <p className="mt-6 whitespace-pre-wrap text-gray-800">{getForumText(post.content)}</p>
+        <div className="mt-6 flex items-center gap-4">
+          <VoteButton
+            url={`/api/forum/posts/${post.id}/vote`}
+            votes={post._count.votes}
+            voted={post.viewerHasVoted}
+            disabled={!post.permissions.canReply || post.author.id === session?.user?.id}
+          />
+          {session?.user && post.author.id !== session.user.id && (
+            <button
+              onClick={() => setIsReporting(true)}
+              className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-orange-600"
+            >
+              <FaFlag className="h-3 w-3" /> Denunciar
+            </button>
+          )}
+        </div>
+        {post._count.comments > 0 && (
+          <Link
+            href={`${basePath}/${post.id}/comentarios`}
+            className="mt-6 inline-block text-sm text-blue-600 hover:underline"
+          >
+            Abrir as respostas em página própria
+          </Link>
+        )}
+      </article>
+
+      {post.isLocked && (
+        <p className="flex items-center gap-2 rounded-lg bg-yellow-50 p-3 text-sm text-yellow-800">
+          <FaLock /> Este post foi trancado pela moderação e não aceita novas respostas.
+        </p>
+      )}
+
+      {post.viewerBan && (
+        <p className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          Você está suspenso do fórum até {format(new Date(post.viewerBan.expiresAt), 'dd/MM/yyyy HH:mm')}: {post.viewerBan.reason}
+        </p>
+      )}
+
+      {post.acceptedComment && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="flex items-center gap-2 text-sm font-semibold text-green-800">
+            <FaCheckCircle /> Solução
+          </p>
+          <div className="mt-2">
+            <AuthorLine author={post.acceptedComment.author} date={post.acceptedComment.createdAt} />
+          </div>
+          <p className="mt-2 whitespace-pre-wrap text-gray-800">{getForumText(post.acceptedComment.content)}</p>
+        </div>
+      )}
+
+      <CommentThread
+        postId={post.id}
+        currentUserId={session?.user?.id ?? null}
+        canReply={post.permissions.canReply}
+        canModerate={post.permissions.canModerate}
+        canAccept={post.permissions.canAccept}
+        page={commentsPage}
+        onPageChange={setCommentsPage}
+        onAcceptedChange={refresh}
+      />
+
+      <ReasonDialog
+        open={isReporting}
+        title="Denunciar post"
+        description="Conte à moderação o que há de errado com este post."
+        confirmLabel="Denunciar"
+        onConfirm={async (reason) => {
+          if (await submitReport({ postId: post.id }, reason)) setIsReporting(false);
+        }}
+        onClose={() => setIsReporting(false)}
+      />
+
+      <ReasonDialog
+        open={isRemoving}
+        title="Excluir post"
+        description="O post e todas as respostas serão apagados. O motivo fica no log de moderação."
+        confirmLabel="Excluir"
+        destructive
+        onConfirm={removePost}
+        onClose={() => setIsRemoving(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FaUserCircle } from 'react-icons/fa';
+import type { ForumAuthor } from './types';
+
+export function AuthorLine({ author, date }: { author: ForumAuthor; date: string }) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-500">
+      {author.image ? (
+        <img src={author.image} alt={author.name ?? ''} className="h-6 w-6 rounded-full" />
+      ) : (
+        <FaUserCircle className="h-6 w-6 text-gray-300" />
+      )}
+      <span className="font-medium text-gray-700">{author.name ?? 'Usuário'}</span>
+      <span>·</span>
+      <span>{formatDistanceToNow(new Date(date), { addSuffix: true, locale: ptBR })}</span>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { FaCheckCircle, FaFlag, FaReply, FaTrash } from 'react-icons/fa';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { getForumText } from '@/lib/forum';
+import { AuthorLine } from './author-line';
+import { Pagination } from './pagination';
+import { ReasonDialog } from './reason-dialog';
+import { submitReport } from './report';
+import { VoteButton } from './vote-button';
+import type { ForumComment, Paginated } from './types';
+
+interface CommentThreadProps {
+  postId: string;
+  currentUserId: string | null;
+  canReply: boolean;
+  canModerate: boolean;
+  canAccept: boolean;
+  page: number;
+  onPageChange: (page: number) => void;
+  onAcceptedChange?: () => void;
+}
+
+interface ThreadActions {
+  postId: string;
+  currentUserId: string | null;
+  canReply: boolean;
+  canModerate: boolean;
+  canAccept: boolean;
+  acceptedCommentId: string | null;
+  replyingTo: string | null;
+  setReplyingTo: (commentId: string | null) => void;
+  sendReply: (text: string, parentId: string | null) => Promise<boolean>;
+  toggleAccepted: (commentId: string) => void;
+  deleteComment: (comment: ForumComment) => void;
+  reportComment: (commentId: string) => void;
+}
+
+function ReplyForm({ onSubmit, onCancel, autoFocus }: {
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}) {
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    if (await onSubmit(text)) setText('');
+    setIsSending(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Textarea
+        rows={onCancel ? 3 : 4}
+        value={text}
+        autoFocus={autoFocus}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Escreva sua resposta"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSending}>
+            Cancelar
+          </Button>
+        )}
+        <Button type="submit" size={onCancel ? 'sm' : 'default'} disabled={isSending || !text.trim()}>
+          {isSending ? 'Enviando...' : 'Responder'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function CommentItem({ comment, actions }: { comment: ForumComment; actions: ThreadActions }) {
+  const isAccepted = actions.acceptedCommentId === comment.id;
+  const isAuthor = comment.author.id === actions.currentUserId;
+
+  const replies = comment.replies.length > 0 && (
+    <ul className="mt-3 ml-4 pl-4 border-l-2 border-gray-100 space-y-3">
+      {comment.replies.map((reply) => (
+        <CommentItem key={reply.id} comment={reply} actions={actions} />
+      ))}
+    </ul>
+  );
+
+  if (comment.deletedAt) {
+    return (
+      <li>
+        <div className="rounded-lg border border-dashed border-gray-200 p-4 text-sm italic text-gray-500">
+          {comment.deletedReason
+            ? `Resposta removida pela moderação: ${comment.deletedReason}`
+            : 'Resposta removida pelo autor.'}
+        </div>
+        {replies}
+      </li>
+    );
+  }
+
+  return (
+    <li>
+      <div className={`bg-white rounded-lg shadow p-4 ${isAccepted ? 'ring-2 ring-green-500' : ''}`}>
+        <div className="flex items-start justify-between gap-4">
+          <AuthorLine author={comment.author} date={comment.createdAt} />
+          {isAccepted && (
+            <span className="inline-flex items-center gap-1 text-xs font-semibold text-green-700">
+              <FaCheckCircle /> Resposta aceita
+            </span>
+          )}
+        </div>
+        <p className="mt-3 whitespace-pre-wrap text-gray-800">{getForumText(comment.content)}</p>
+
+        <div className="mt-3 flex items-center gap-3 text-sm">
+          <VoteButton
+            url={`/api/forum/posts/${actions.postId}/comments/${comment.id}/vote`}
+            votes={comment._count.votes}
+            voted={comment.viewerHasVoted}
+            disabled={!actions.canReply || isAuthor}
+          />
+          {actions.canReply && (
+            <button
+              onClick={() => actions.setReplyingTo(actions.replyingTo === comment.id ? null : comment.id)}
+              className="inline-flex items-center gap-1 text-gray-500 hover:text-gray-700"
+            >
+              <FaReply className="h-3 w-3" /> Responder
+            </button>
+          )}
+          {actions.canAccept && (
+            <button
+              onClick={() => actions.toggleAccepted(comment.id)}
+              className="inline-flex items-center gap-1 text-gray-500 hover:text-green-700"
+            >
+              <FaCheckCircle className="h-3 w-3" /> {isAccepted ? 'Desmarcar solução' : 'Marcar como solução'}
+            </button>
+          )}
+          <div className="ml-auto flex items-center gap-3">
+            {actions.currentUserId && !isAuthor && (
+              <button
+                onClick={() => actions.reportComment(comment.id)}
+                className="text-gray-400 hover:text-orange-600"
+                title="Denunciar resposta"
+              >
+                <FaFlag className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {(actions.canModerate || isAuthor) && (
+              <button
+                onClick={() => actions.deleteComment(comment)}
+                className="text-gray-400 hover:text-red-600"
+                title="Excluir resposta"
+              >
+                <FaTrash className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {actions.replyingTo === comment.id && (
+          <div className="mt-4">
+            <ReplyForm
+              autoFocus
+              onSubmit={(text) => actions.sendReply(text, comment.id)}
+              onCancel={() => actions.setReplyingTo(null)}
+            />
+          </div>
+        )}
+      </div>
+
+      {replies}
+    </li>
+  );
+}
+
+/**
+ * Respostas de um post em árvore, paginadas pelas respostas diretas, com
+ * votos, resposta aceita e o formulário de resposta ao post no fim.
+ */
+export function CommentThread({
+  postId,
+  currentUserId,
+  canReply,
+  canModerate,
+  canAccept,
+  page,
+  onPageChange,
+  onAcceptedChange,
+}: CommentThreadProps) {
+  const [comments, setComments] = useState<ForumComment[]>([]);
+  const [pagination, setPagination] = useState<Paginated | null>(null);
+  const [acceptedCommentId, setAcceptedCommentId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<{ kind: 'report' | 'remove'; commentId: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/forum/posts/${postId}/comments?page=${page}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar respostas');
+
+      const { comments, acceptedCommentId, ...rest } = data;
+      setComments(comments);
+      setAcceptedCommentId(acceptedCommentId);
+      setPagination(rest);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao carregar respostas');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId, page]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const sendReply = async (text: string, parentId: string | null) => {
+    try {
+      const response = await fetch(`/api/forum/posts/${postId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, parentId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao enviar resposta');
+
+      toast.success('Resposta enviada');
+      setReplyingTo(null);
+
+      // Uma resposta direta ao post entra na última página
+      if (!parentId && pagination && pagination.totalPages !== page) {
+        onPageChange(pagination.totalPages);
+      } else {
+        fetchComments();
+      }
+      return true;
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao enviar resposta');
+      return false;
+    }
+  };
+
+  const toggleAccepted = async (commentId: string) => {
+    const unmark = acceptedCommentId === commentId;
+    try {
+      const response = await fetch(`/api/forum/posts/${postId}/accepted-answer`, {
+        method: unmark ? 'DELETE' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: unmark ? undefined : JSON.stringify({ commentId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao marcar resposta aceita');
+
+      setAcceptedCommentId(data.acceptedCommentId);
+      toast.success(unmark ? 'Solução desmarcada' : 'Resposta marcada como solução');
+      onAcceptedChange?.();
+    } catch (error) {
+      console.error('Error accepting answer:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao marcar resposta aceita');
+    }
+  };
+
+  const removeComment = async (commentId: string, reason?: string) => {
+    try {
+      const response = await fetch(`/api/forum/posts/${postId}/comments/${commentId}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao excluir resposta');
+
+      toast.success('Resposta removida');
+      fetchComments();
+      if (commentId === acceptedCommentId) onAcceptedChange?.();
+      return true;
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao excluir resposta');
+      return false;
+    }
+  };
+
+  // O autor só confirma; a moderação precisa informar o motivo
+  const deleteComment = (comment: ForumComment) => {
+    if (comment.author.id === currentUserId) {
+      if (confirm('Excluir esta resposta?')) removeComment(comment.id);
+    } else {
+      setDialog({ kind: 'remove', commentId: comment.id });
+    }
+  };
+
+  const handleDialogConfirm = async (reason: string) => {
+    if (!dialog) return;
+    const done = dialog.kind === 'report'
+      ? await submitReport({ commentId: dialog.commentId }, reason)
+      : await removeComment(dialog.commentId, reason);
+    if (done) setDialog(null);
+  };
+
+  const actions: ThreadActions = {
+    postId,
+    currentUserId,
+    canReply,
+    canModerate,
+    canAccept,
+    acceptedCommentId,
+    replyingTo,
+    setReplyingTo,
+    sendReply,
+    toggleAccepted,
+    deleteComment,
+    reportComment: (commentId) => setDialog({ kind: 'report', commentId }),
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">
+        {pagination?.total ?? 0} resposta{pagination?.total !== 1 ? 's' : ''}
+      </h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-gray-500 text-sm">Ainda não há respostas.</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} actions={actions} />
+          ))}
+        </ul>
+      )}
+
+      {pagination && <Pagination page={page} totalPages={pagination.totalPages} onChange={onPageChange} />}
+
+      {canReply ? (
+        <div className="bg-white rounded-lg shadow p-4">
+          <ReplyForm onSubmit={(text) => sendReply(text, null)} />
+        </div>
+      ) : !currentUserId ? (
+        <p className="text-sm text-gray-500">
+          <Link href="/signin" className="text-blue-600 hover:underline">Entre</Link> para responder.
+        </p>
+      ) : null}
+
+      <ReasonDialog
+        open={!!dialog}
+        title={dialog?.kind === 'report' ? 'Denunciar resposta' : 'Remover resposta'}
+        description={
+          dialog?.kind === 'report'
+            ? 'Conte à moderação o que há de errado com esta resposta.'
+            : 'O motivo fica visível no lugar da resposta e no log de moderação.'
+        }
+        confirmLabel={dialog?.kind === 'report' ? 'Denunciar' : 'Remover'}
+        destructive={dialog?.kind === 'remove'}
+        onConfirm={handleDialogConfirm}
+        onClose={() => setDialog(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FaEye, FaEyeSlash, FaLock, FaLockOpen, FaThumbtack } from 'react-icons/fa';
+import { Button } from '@/components/ui/button';
+import type { ForumPostDetail } from './types';
+
+/**
+ * Ações da moderação sobre o post: ocultar, trancar e fixar.
+ */
+export function ModerationBar({ post, onChange }: { post: ForumPostDetail; onChange: () => void }) {
+  const [pending, setPending] = useState<string | null>(null);
+
+  const moderate = async (action: string, success: string) => {
+    setPending(action);
+    try {
+      const response = await fetch(`/api/forum/posts/${post.id}/moderation`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao moderar post');
+
+      toast.success(success);
+      onChange();
+    } catch (error) {
+      console.error('Error moderating post:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao moderar post');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 p-3">
+      <span className="text-sm font-medium text-gray-700 mr-2">Moderação</span>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!!pending}
+        onClick={() => post.isHidden ? moderate('unhide', 'Post visível novamente') : moderate('hide', 'Post ocultado')}
+      >
+        {post.isHidden ? <FaEye className="mr-1" /> : <FaEyeSlash className="mr-1" />}
+        {post.isHidden ? 'Reexibir' : 'Ocultar'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!!pending}
+        onClick={() => post.isLocked ? moderate('unlock', 'Post destrancado') : moderate('lock', 'Post trancado')}
+      >
+        {post.isLocked ? <FaLockOpen className="mr-1" /> : <FaLock className="mr-1" />}
+        {post.isLocked ? 'Destrancar' : 'Trancar'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!!pending}
+        onClick={() => post.isPinned ? moderate('unpin', 'Post desafixado') : moderate('pin', 'Post fixado')}
+      >
+        <FaThumbtack className="mr-1" />
+        {post.isPinned ? 'Desafixar' : 'Fixar'}
+      </Button>
+    </div>
+  );
+}
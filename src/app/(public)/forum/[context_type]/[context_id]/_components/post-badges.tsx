@@ -0,0 +1,23 @@
+import { FaEyeSlash, FaLock, FaThumbtack } from 'react-icons/fa';
+
+export function PostBadges({ post }: { post: { isPinned: boolean; isLocked: boolean; isHidden: boolean } }) {
+  return (
+    <>
+      {post.isPinned && (
+        <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800">
+          <FaThumbtack className="h-3 w-3" /> Fixado
+        </span>
+      )}
+      {post.isLocked && (
+        <span className="inline-flex items-center gap-1 rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+          <FaLock className="h-3 w-3" /> Trancado
+        </span>
+      )}
+      {post.isHidden && (
+        <span className="inline-flex items-center gap-1 rounded-full bg-gray-200 px-2 py-0.5 text-xs font-medium text-gray-700">
+          <FaEyeSlash className="h-3 w-3" /> Oculto
+        </span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface PostFormProps {
+  initialTitle?: string;
+  initialText?: string;
+  submitLabel: string;
+  onSubmit: (values: { title: string; text: string }) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Formulário de título e texto, usado na criação e na edição de posts.
+ */
+export function PostForm({ initialTitle = '', initialText = '', submitLabel, onSubmit, onCancel }: PostFormProps) {
+  const [title, setTitle] = useState(initialTitle);
+  const [text, setText] = useState(initialText);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit({ title, text });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="post-title">Título</Label>
+        <Input
+          id="post-title"
+          value={title}
+          maxLength={200}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Resuma sua dúvida ou assunto"
+        />
+      </div>
+      <div>
+        <Label htmlFor="post-text">Conteúdo</Label>
+        <Textarea
+          id="post-text"
+          rows={10}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Descreva com detalhes. Se for código, cole o trecho e a mensagem de erro."
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={isSaving || title.trim().length < 3 || !text.trim()}>
+          {isSaving ? 'Salvando...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
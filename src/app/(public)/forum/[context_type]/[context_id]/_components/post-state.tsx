@@ -0,0 +1,24 @@
+import Link from 'next/link';
+
+export function PostLoading() {
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+    </div>
+  );
+}
+
+export function PostUnavailable({ error, basePath }: { error: string | null; basePath: string | null }) {
+  return (
+    <div className="container mx-auto p-4 max-w-3xl">
+      <div className="bg-white rounded-lg shadow p-8 text-center">
+        <h1 className="text-xl font-semibold text-gray-900">{error ?? 'Post indisponível'}</h1>
+        {basePath && (
+          <Link href={basePath} className="mt-4 inline-block text-blue-600 hover:underline">
+            Voltar para o fórum
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
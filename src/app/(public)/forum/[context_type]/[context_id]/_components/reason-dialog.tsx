@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { FaTimes } from 'react-icons/fa';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ReasonDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: (reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Pede um motivo antes de confirmar a ação (denúncia ou remoção pela moderação).
+ */
+export function ReasonDialog({ open, title, description, confirmLabel, destructive, onConfirm, onClose }: ReasonDialogProps) {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      await onConfirm(reason.trim());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={(isOpen) => !isOpen && !submitting && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg p-6 w-full max-w-md z-50 shadow-xl">
+          <div className="flex justify-between items-center mb-2">
+            <Dialog.Title className="text-lg font-medium text-gray-900">{title}</Dialog.Title>
+            <Dialog.Close asChild>
+              <button type="button" className="text-gray-400 hover:text-gray-500" disabled={submitting}>
+                <FaTimes className="h-5 w-5" />
+              </button>
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="text-sm text-gray-500 mb-4">{description}</Dialog.Description>
+
+          <Label htmlFor="reason">Motivo</Label>
+          <Textarea id="reason" rows={3} value={reason} onChange={(e) => setReason(e.target.value)} />
+
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={onClose} disabled={submitting}>
+              Cancelar
+            </Button>
+            <Button
+              variant={destructive ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={submitting || !reason.trim()}
+            >
+              {submitting ? 'Enviando...' : confirmLabel}
+            </Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,21 @@
+import { toast } from 'react-hot-toast';
+
+/**
+ * Envia a denúncia de um post ou de uma resposta para a fila de moderação.
+ */
+export async function submitReport(target: { postId: string } | { commentId: string }, reason: string) {
+  const response = await fetch('/api/forum/reports', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...target, reason }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    toast.error(data.error || 'Erro ao enviar denúncia');
+    return false;
+  }
+
+  toast.success('Denúncia enviada. Obrigado por avisar a moderação.');
+  return true;
+}
@@ -0,0 +1,55 @@
+export type ForumAuthor = {
+  id: string;
+  name: string | null;
+  image: string | null;
+};
+
+export type ForumPostSummary = {
+  id: string;
+  title: string;
+  content: unknown;
+  cursoId: string | null;
+  acceptedCommentId: string | null;
+  isHidden: boolean;
+  isLocked: boolean;
+  isPinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  author: ForumAuthor;
+  _count: { comments: number; votes: number };
+};
+
+export type ForumPostDetail = ForumPostSummary & {
+  curso: { id: string; title: string } | null;
+  acceptedComment: { id: string; content: unknown; createdAt: string; author: ForumAuthor } | null;
+  viewerHasVoted: boolean;
+  viewerBan: { reason: string; expiresAt: string } | null;
+  permissions: {
+    canReply: boolean;
+    canEdit: boolean;
+    canModerate: boolean;
+    canAccept: boolean;
+  };
+};
+
+export type ForumComment = {
+  id: string;
+  postId: string;
+  parentId: string | null;
+  // null quando a resposta foi removida
+  content: unknown;
+  deletedAt: string | null;
+  deletedReason: string | null;
+  createdAt: string;
+  author: ForumAuthor;
+  _count: { votes: number };
+  viewerHasVoted: boolean;
+  replies: ForumComment[];
+};
+
+export type Paginated = {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+};
@@ -0,0 +1,44 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ForumPostDetail } from './types';
+
+type PostParams = Promise<{ context_type: string; context_id: string; post_id: string }>;
+
+/**
+ * Carrega o post da rota e o caminho base do fórum a que ele pertence.
+ */
+export function useForumPost(params: PostParams) {
+  const [post, setPost] = useState<ForumPostDetail | null>(null);
+  const [basePath, setBasePath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchPost = useCallback(async () => {
+    try {
+      const { context_type, context_id, post_id } = await params;
+      setBasePath(`/forum/${context_type}/${context_id}`);
+
+      const response = await fetch(`/api/forum/posts/${post_id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Erro ao carregar post');
+        return;
+      }
+
+      setPost(data);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching post:', error);
+      setError('Erro ao carregar post');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    fetchPost();
+  }, [fetchPost]);
+
+  return { post, basePath, error, isLoading, refresh: fetchPost };
+}
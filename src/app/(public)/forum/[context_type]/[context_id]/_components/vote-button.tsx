@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FaArrowUp } from 'react-icons/fa';
+
+interface VoteButtonProps {
+  url: string;
+  votes: number;
+  voted: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Voto positivo (alterna a cada clique) em um post ou resposta.
+ */
+export function VoteButton({ url, votes: initialVotes, voted: initialVoted, disabled }: VoteButtonProps) {
+  const [votes, setVotes] = useState(initialVotes);
+  const [voted, setVoted] = useState(initialVoted);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    setVotes(initialVotes);
+    setVoted(initialVoted);
+  }, [initialVotes, initialVoted]);
+
+  const handleVote = async () => {
+    setIsSending(true);
+    try {
+      const response = await fetch(url, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao registrar voto');
+
+      setVotes(data.votes);
+      setVoted(data.voted);
+    } catch (error) {
+      console.error('Error voting:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao registrar voto');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleVote}
+      disabled={disabled || isSending}
+      title={voted ? 'Remover voto' : 'Votar'}
+      className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium disabled:opacity-60 ${
+        voted ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+      }`}
+    >
+      <FaArrowUp className="h-3 w-3" /> {votes}
+    </button>
+  );
+}
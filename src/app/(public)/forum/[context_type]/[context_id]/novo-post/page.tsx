@@ -1,3 +1,54 @@
-export default function Temp() {
-    return <h1>temp</h1>
-}
\ No newline at end of file
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { PostForm } from '../_components/post-form';
+
+export default function NewForumPostPage({ params }: { params: Promise<{ context_type: string; context_id: string }> }) {
+  const { status } = useSession();
+  const router = useRouter();
+  const [context, setContext] = useState<{ context_type: string; context_id: string } | null>(null);
+
+  useEffect(() => {
+    params.then(setContext);
+  }, [params]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/signin');
+    }
+  }, [status, router]);
+
+  if (!context || status !== 'authenticated') return null;
+
+  const basePath = `/forum/${context.context_type}/${context.context_id}`;
+
+  const handleSubmit = async ({ title, text }: { title: string; text: string }) => {
+    try {
+      const response = await fetch('/api/forum/posts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ context: context.context_type, contextId: context.context_id, title, text }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Erro ao criar post');
+
+      toast.success('Post publicado');
+      router.push(`${basePath}/${data.id}`);
+    } catch (error) {
+      console.error('Error creating post:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao criar post');
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-3xl">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Novo post</h1>
+        <PostForm submitLabel="Publicar" onSubmit={handleSubmit} onCancel={() => router.push(basePath)} />
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,163 @@
-export default function Temp() {
-    return <h1>temp</h1>
-}
\ No newline at end of file
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { FaArrowUp, FaCheckCircle, FaComments, FaPlus } from 'react-icons/fa';
+import { Button } from '@/components/ui/button';
+import { getForumText } from '@/lib/forum';
+import { AuthorLine } from './_components/author-line';
+import { Pagination } from './_components/pagination';
+import { PostBadges } from './_components/post-badges';
+import type { ForumPostSummary, Paginated } from './_components/types';
+
+const SORT_OPTIONS = [
+  { value: 'newest', label: 'Mais recentes' },
+  { value: 'unanswered', label: 'Sem resposta' },
+  { value: 'votes', label: 'Mais votados' },
+] as const;
+
+type SortOption = (typeof SORT_OPTIONS)[number]['value'];
+
+type ForumListResponse = Paginated & {
+  context: { type: string; id: string; cursoId: string | null; title: string };
+  posts: ForumPostSummary[];
+  canCreate: boolean;
+};
+
+export default function ForumPage({ params }: { params: Promise<{ context_type: string; context_id: string }> }) {
+  const router = useRouter();
+  const [basePath, setBasePath] = useState<string | null>(null);
+  const [data, setData] = useState<ForumListResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<SortOption>('newest');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchPosts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { context_type, context_id } = await params;
+      setBasePath(`/forum/${context_type}/${context_id}`);
+
+      const query = new URLSearchParams({ context: context_type, contextId: context_id, sort, page: String(page) });
+      const response = await fetch(`/api/forum/posts?${query}`);
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error || 'Erro ao carregar o fórum');
+        return;
+      }
+
+      setData(body);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching forum:', error);
+      toast.error('Erro ao carregar o fórum');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params, page, sort]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="container mx-auto p-4 max-w-3xl">
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <h1 className="text-xl font-semibold text-gray-900">{error ?? 'Fórum indisponível'}</h1>
+          <Button variant="link" onClick={() => router.push('/')}>Voltar para o início</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <p className="text-sm text-gray-500">Fórum</p>
+          <h1 className="text-2xl font-bold text-gray-900">{data.context.title}</h1>
+        </div>
+        {data.canCreate && (
+          <Button onClick={() => router.push(`${basePath}/novo-post`)}>
+            <FaPlus className="mr-2 h-3.5 w-3.5" /> Novo post
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {SORT_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={sort === option.value ? 'default' : 'outline'}
+            onClick={() => {
+              setSort(option.value);
+              setPage(1);
+            }}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {data.posts.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <FaComments className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">Nenhum post ainda</h3>
+          <p className="mt-1 text-gray-500">Seja o primeiro a iniciar uma conversa.</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {data.posts.map((post) => (
+            <li key={post.id}>
+              <Link
+                href={`${basePath}/${post.id}`}
+                className="block bg-white rounded-lg shadow p-4 hover:shadow-md transition-shadow"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    {(post.isPinned || post.isLocked || post.isHidden) && (
+                      <div className="flex flex-wrap gap-2 mb-1">
+                        <PostBadges post={post} />
+                      </div>
+                    )}
+                    <h2 className="text-lg font-semibold text-gray-900 truncate">{post.title}</h2>
+                    <p className="text-sm text-gray-600 line-clamp-2 mt-1">{getForumText(post.content)}</p>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm text-gray-500 shrink-0">
+                    {post.acceptedCommentId && (
+                      <FaCheckCircle className="text-green-600" title="Resolvido" />
+                    )}
+                    <span className="flex items-center gap-1">
+                      <FaArrowUp /> {post._count.votes}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <FaComments /> {post._count.comments}
+                    </span>
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <AuthorLine author={post.author} date={post.createdAt} />
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Pagination page={data.page} totalPages={data.totalPages} onChange={setPage} />
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useCart } from "@/context/CartContext";
 import { signOut, useSession } from "next-auth/react";
 import { useEffect, useState } from "react";
 import { toast } from "react-hot-toast";
-import { formatPrice } from "@/lib/price";
+import { formatPrice, getEffectiveCoursePrice } from "@/lib/price";
 import { useRouter } from "next/navigation";
 
 type Course = {
@@ -147,7 +147,7 @@ export default function Home() {
               id: item.id,
               title: item.title,
               price: type === 'curso'
-                ? (item as Course).discountPrice || (item as Course).price || 0
+                ? getEffectiveCoursePrice(item as Course) || 0
                 : (item as Journey).price || 0,
               type: type
             }
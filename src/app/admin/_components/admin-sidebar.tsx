@@ -8,20 +8,29 @@ import {
   FaCompass as Compass,
   FaCog as Settings,
   FaUsers as Users,
-  FaChartBar as BarChart2
+  FaChartBar as BarChart2,
+  FaExchangeAlt as Webhook,
+  FaMoneyBillWave as Payments,
+  FaGavel as Moderation
 } from 'react-icons/fa';
+import type { UserRole } from '@/generated/prisma/enums';
+import { getAdminRoutePermission, hasPermission } from '@/lib/roles';
 
 const navigation = [
   { name: 'Visão Geral', href: '/admin', icon: Home },
   { name: 'Cursos', href: '/admin/courses', icon: BookOpen },
   { name: 'Jornadas', href: '/admin/journeys', icon: Compass },
+  { name: 'Pagamentos', href: '/admin/payments', icon: Payments },
   { name: 'Usuários', href: '/admin/users', icon: Users },
+  { name: 'Webhooks', href: '/admin/webhooks', icon: Webhook },
+  { name: 'Moderação', href: '/admin/moderation', icon: Moderation },
   { name: 'Relatórios', href: '/admin/analytics', icon: BarChart2 },
   { name: 'Configurações', href: '/admin/settings', icon: Settings },
 ];
 
-export function AdminSidebar() {
+export function AdminSidebar({ role }: { role: UserRole }) {
   const pathname = usePathname();
+  const items = navigation.filter((item) => hasPermission(role, getAdminRoutePermission(item.href)));
 
   return (
     <div className="hidden md:flex md:w-64 md:flex-col">
@@ -31,7 +40,7 @@ export function AdminSidebar() {
         </div>
         <div className="flex flex-col grow mt-5">
           <nav className="flex-1 px-2 space-y-1">
-            {navigation.map((item) => {
+            {items.map((item) => {
               const isActive = pathname === item.href;
               return (
                 <Link
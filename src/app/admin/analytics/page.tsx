@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "react-hot-toast";
+import { formatPrice } from "@/lib/price";
+
+type ColumnFormat = "text" | "date" | "number" | "money" | "percent";
+
+type ReportTable = {
+  name: string;
+  title: string;
+  description?: string;
+  columns: { key: string; label: string; format: ColumnFormat }[];
+  rows: Record<string, string | number>[];
+};
+
+type CourseOption = {
+  id: string;
+  title: string;
+};
+
+type Filters = {
+  from: string;
+  to: string;
+  courseId: string;
+};
+
+const defaultFilters = (): Filters => ({
+  from: format(subDays(new Date(), 29), "yyyy-MM-dd"),
+  to: format(new Date(), "yyyy-MM-dd"),
+  courseId: "",
+});
+
+function formatCell(value: string | number, columnFormat: ColumnFormat) {
+  switch (columnFormat) {
+    case "money":
+      return formatPrice(Number(value));
+    case "percent":
+      return `${Number(value).toLocaleString("pt-BR")}%`;
+    case "number":
+      return Number(value).toLocaleString("pt-BR");
+    case "date":
+      return new Date(`${value}T00:00:00`).toLocaleDateString("pt-BR");
+    default:
+      return value;
+  }
+}
+
+function toQuery(filters: Filters) {
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  return query;
+}
+
+/**
+ * Receita líquida por dia em barras, acima da tabela de receita diária.
+ */
+function RevenueChart({ table }: { table: ReportTable }) {
+  const max = Math.max(...table.rows.map((row) => Number(row.net)), 0);
+  if (max <= 0) return null;
+
+  return (
+    <div className="flex items-end gap-px h-32 mb-4" aria-hidden>
+      {table.rows.map((row) => (
+        <div
+          key={row.date}
+          title={`${formatCell(row.date, "date")}: ${formatPrice(Number(row.net))}`}
+          className="flex-1 bg-indigo-500 rounded-t-sm min-h-[1px]"
+          style={{ height: `${(Math.max(Number(row.net), 0) / max) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const [tables, setTables] = useState<ReportTable[]>([]);
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [filters, setFilters] = useState<Filters>(defaultFilters);
+  const [applied, setApplied] = useState<Filters>(filters);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch("/api/courses?managed=true")
+      .then((response) => response.json())
+      .then((data) => setCourses(Array.isArray(data) ? data : []))
+      .catch((error) => console.error("Error fetching courses:", error));
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [applied]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/analytics?${toQuery(applied)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar relatórios");
+      }
+      setTables(data.tables);
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar relatórios");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied({ ...filters });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold">Relatórios</h1>
+      </div>
+
+      <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <Input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          required
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          required
+        />
+        <select
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          value={filters.courseId}
+          onChange={(e) => setFilters({ ...filters, courseId: e.target.value })}
+        >
+          <option value="">Todos os cursos</option>
+          {courses.map((course) => (
+            <option key={course.id} value={course.id}>
+              {course.title}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <Button type="submit">Aplicar</Button>
+          <Button type="button" variant="outline" onClick={() => setFilters(defaultFilters())}>
+            Limpar filtros
+          </Button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {tables.map((table) => (
+            <section key={table.name} className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">{table.title}</h2>
+                  {table.description && <p className="text-sm text-gray-500">{table.description}</p>}
+                </div>
+                {table.rows.length > 0 && (
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/admin/analytics/export?${toQuery(applied)}&table=${table.name}`}>
+                      Exportar CSV
+                    </a>
+                  </Button>
+                )}
+              </div>
+
+              {table.name === "revenue-by-day" && <RevenueChart table={table} />}
+
+              {table.rows.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum dado no período.</p>
+              ) : (
+                <div className="overflow-x-auto max-h-96">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        {table.columns.map((column) => (
+                          <th
+                            key={column.key}
+                            className={`px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider ${
+                              column.format === "text" || column.format === "date" ? "text-left" : "text-right"
+                            }`}
+                          >
+                            {column.label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {table.rows.map((row, index) => (
+                        <tr key={index} className="hover:bg-gray-50">
+                          {table.columns.map((column) => (
+                            <td
+                              key={column.key}
+                              className={`px-6 py-3 whitespace-nowrap text-sm text-gray-700 ${
+                                column.format === "text" || column.format === "date" ? "text-left" : "text-right"
+                              }`}
+                            >
+                              {formatCell(row[column.key], column.format)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
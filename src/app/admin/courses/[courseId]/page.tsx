@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -9,6 +10,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "react-hot-toast";
 import { parsePriceToCents } from "@/lib/price";
+import { hasPermission } from "@/lib/roles";
+import { CurriculumEditor } from "../_components/curriculum-editor";
+import { AnnouncementsEditor } from "../_components/announcements-editor";
+import { InstructorsEditor } from "../_components/instructors-editor";
 
 type Course = {
   id: string;
@@ -25,6 +30,7 @@ type Course = {
 export default function EditCoursePage() {
   const params = useParams();
   const router = useRouter();
+  const { data: session } = useSession();
   const [course, setCourse] = useState<Course | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -248,6 +254,23 @@ export default function EditCoursePage() {
           </Button>
         </div>
       </form>
+
+      <div className="mt-12 max-w-2xl">
+        <h2 className="text-xl font-bold mb-4">Currículo</h2>
+        <CurriculumEditor courseId={course.id} />
+      </div>
+
+      <div className="mt-12 max-w-2xl">
+        <h2 className="text-xl font-bold mb-4">Avisos</h2>
+        <AnnouncementsEditor courseId={course.id} />
+      </div>
+
+      {hasPermission(session?.user?.role, "course:assign") && (
+        <div className="mt-12 max-w-2xl">
+          <h2 className="text-xl font-bold mb-4">Instrutores</h2>
+          <InstructorsEditor courseId={course.id} />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaThumbtack, FaTrash } from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { getForumText } from "@/lib/forum";
+
+type Announcement = {
+  id: string;
+  title: string;
+  content: unknown;
+  isPinned: boolean;
+  createdAt: string;
+  author: { id: string; name: string | null };
+};
+
+interface AnnouncementsEditorProps {
+  courseId: string;
+}
+
+/**
+ * Publicação de avisos para os alunos matriculados no curso.
+ */
+export function AnnouncementsEditor({ courseId }: AnnouncementsEditorProps) {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState({ title: "", text: "", isPinned: false });
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  useEffect(() => {
+    fetchAnnouncements();
+  }, [courseId]);
+
+  const fetchAnnouncements = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/courses/${courseId}/announcements`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar avisos");
+      }
+      setAnnouncements(data.announcements);
+    } catch (error) {
+      console.error("Error fetching announcements:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar avisos");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsPublishing(true);
+      const response = await fetch(`/api/courses/${courseId}/announcements`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao publicar aviso");
+      }
+
+      toast.success("Aviso publicado");
+      setForm({ title: "", text: "", isPinned: false });
+      await fetchAnnouncements();
+    } catch (error) {
+      console.error("Error publishing announcement:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao publicar aviso");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const togglePinned = async (announcement: Announcement) => {
+    try {
+      const response = await fetch(`/api/courses/${courseId}/announcements/${announcement.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isPinned: !announcement.isPinned }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao atualizar aviso");
+      }
+      await fetchAnnouncements();
+    } catch (error) {
+      console.error("Error updating announcement:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar aviso");
+    }
+  };
+
+  const handleDelete = async (announcement: Announcement) => {
+    if (!confirm(`Excluir o aviso "${announcement.title}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/announcements/${announcement.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao excluir aviso");
+      }
+
+      toast.success("Aviso excluído");
+      setAnnouncements(announcements.filter((item) => item.id !== announcement.id));
+    } catch (error) {
+      console.error("Error deleting announcement:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir aviso");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handlePublish} className="space-y-4 border rounded-lg p-4">
+        <div>
+          <Label htmlFor="announcement-title">Título</Label>
+          <Input
+            id="announcement-title"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="announcement-text">Mensagem</Label>
+          <Textarea
+            id="announcement-text"
+            rows={4}
+            value={form.text}
+            onChange={(e) => setForm({ ...form, text: e.target.value })}
+            required
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="announcement-pinned"
+              checked={form.isPinned}
+              onCheckedChange={(checked) => setForm({ ...form, isPinned: checked })}
+            />
+            <Label htmlFor="announcement-pinned">Fixar no topo</Label>
+          </div>
+          <Button type="submit" disabled={isPublishing}>
+            {isPublishing ? "Publicando..." : "Publicar aviso"}
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : announcements.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum aviso publicado.</p>
+      ) : (
+        <ul className="space-y-3">
+          {announcements.map((announcement) => (
+            <li key={announcement.id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="font-medium text-gray-900 flex items-center gap-2">
+                    {announcement.isPinned && <FaThumbtack className="h-3 w-3 text-blue-600" />}
+                    {announcement.title}
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    {announcement.author.name ?? "-"} · {new Date(announcement.createdAt).toLocaleString("pt-BR")}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => togglePinned(announcement)}>
+                    {announcement.isPinned ? "Desafixar" : "Fixar"}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(announcement)} aria-label="Excluir aviso">
+                    <FaTrash className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+              <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap line-clamp-4">
+                {getForumText(announcement.content)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaGripVertical, FaPen, FaPlus, FaTrash } from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LessonEditorDialog, type EditableLesson } from "./lesson-editor-dialog";
+
+type CurriculumModule = {
+  id: string;
+  title: string;
+  order: number;
+  lessons: EditableLesson[];
+};
+
+type DragItem =
+  | { kind: "module"; id: string }
+  | { kind: "lesson"; id: string; moduleId: string };
+
+interface CurriculumEditorProps {
+  courseId: string;
+}
+
+/**
+ * Editor de módulos e aulas do curso. Módulos e aulas são reordenados
+ * arrastando; aulas também podem ser arrastadas para outro módulo.
+ */
+export function CurriculumEditor({ courseId }: CurriculumEditorProps) {
+  const [modules, setModules] = useState<CurriculumModule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newModuleTitle, setNewModuleTitle] = useState("");
+  const [newLessonTitles, setNewLessonTitles] = useState<Record<string, string>>({});
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [editing, setEditing] = useState<{ moduleId: string; lesson: EditableLesson } | null>(null);
+
+  useEffect(() => {
+    fetchCurriculum();
+  }, [courseId]);
+
+  const fetchCurriculum = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/courses/${courseId}/modules`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar currículo");
+      }
+      setModules(data);
+    } catch (error) {
+      console.error("Error fetching curriculum:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar currículo");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveOrder = async (next: CurriculumModule[]) => {
+    const previous = modules;
+    setModules(next);
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/modules`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          modules: next.map((module) => ({
+            id: module.id,
+            lessonIds: module.lessons.map((lesson) => lesson.id),
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao salvar ordem");
+      }
+      setModules(data);
+    } catch (error) {
+      console.error("Error saving curriculum order:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar ordem");
+      setModules(previous);
+    }
+  };
+
+  const dropOnModule = (targetModuleId: string) => {
+    if (!dragItem) return;
+
+    if (dragItem.kind === "module") {
+      if (dragItem.id === targetModuleId) return;
+      const dragged = modules.find((module) => module.id === dragItem.id)!;
+      const rest = modules.filter((module) => module.id !== dragItem.id);
+      const targetIndex = rest.findIndex((module) => module.id === targetModuleId);
+      // Arrastar para baixo coloca depois do alvo; para cima, antes
+      const fromIndex = modules.findIndex((module) => module.id === dragItem.id);
+      const insertAt = fromIndex <= targetIndex ? targetIndex + 1 : targetIndex;
+      saveOrder([...rest.slice(0, insertAt), dragged, ...rest.slice(insertAt)]);
+    } else {
+      // Aula solta na área do módulo vai para o fim dele
+      moveLesson(dragItem.id, dragItem.moduleId, targetModuleId, null);
+    }
+
+    setDragItem(null);
+  };
+
+  const dropOnLesson = (targetModuleId: string, targetLessonId: string) => {
+    if (dragItem?.kind !== "lesson" || dragItem.id === targetLessonId) return;
+    moveLesson(dragItem.id, dragItem.moduleId, targetModuleId, targetLessonId);
+    setDragItem(null);
+  };
+
+  const moveLesson = (lessonId: string, fromModuleId: string, toModuleId: string, beforeLessonId: string | null) => {
+    const lesson = modules
+      .find((module) => module.id === fromModuleId)
+      ?.lessons.find((item) => item.id === lessonId);
+    if (!lesson) return;
+
+    const next = modules.map((module) => ({
+      ...module,
+      lessons: module.lessons.filter((item) => item.id !== lessonId),
+    }));
+
+    const target = next.find((module) => module.id === toModuleId)!;
+    const index = beforeLessonId
+      ? target.lessons.findIndex((item) => item.id === beforeLessonId)
+      : target.lessons.length;
+    target.lessons.splice(index < 0 ? target.lessons.length : index, 0, lesson);
+
+    saveOrder(next);
+  };
+
+  const handleAddModule = async () => {
+    try {
+      const response = await fetch(`/api/courses/${courseId}/modules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: newModuleTitle }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao criar módulo");
+      }
+      setModules([...modules, data]);
+      setNewModuleTitle("");
+    } catch (error) {
+      console.error("Error creating module:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao criar módulo");
+    }
+  };
+
+  const handleRenameModule = async (moduleId: string, title: string) => {
+    const current = modules.find((module) => module.id === moduleId);
+    if (!title.trim() || current?.title === title) return;
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/modules/${moduleId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Falha ao renomear módulo");
+      }
+      setModules(modules.map((module) => (module.id === moduleId ? { ...module, title } : module)));
+    } catch (error) {
+      console.error("Error renaming module:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao renomear módulo");
+    }
+  };
+
+  const handleDeleteModule = async (moduleId: string) => {
+    if (!confirm("Excluir este módulo e todas as suas aulas?")) return;
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/modules/${moduleId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Falha ao excluir módulo");
+      }
+      setModules(modules.filter((module) => module.id !== moduleId));
+      toast.success("Módulo excluído");
+    } catch (error) {
+      console.error("Error deleting module:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir módulo");
+    }
+  };
+
+  const handleAddLesson = async (moduleId: string) => {
+    try {
+      const response = await fetch(`/api/courses/${courseId}/modules/${moduleId}/lessons`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: newLessonTitles[moduleId] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao criar aula");
+      }
+      setModules(modules.map((module) =>
+        module.id === moduleId ? { ...module, lessons: [...module.lessons, data] } : module
+      ));
+      setNewLessonTitles({ ...newLessonTitles, [moduleId]: "" });
+    } catch (error) {
+      console.error("Error creating lesson:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao criar aula");
+    }
+  };
+
+  const handleDeleteLesson = async (moduleId: string, lessonId: string) => {
+    if (!confirm("Excluir esta aula?")) return;
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/modules/${moduleId}/lessons/${lessonId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Falha ao excluir aula");
+      }
+      setModules(modules.map((module) =>
+        module.id === moduleId
+          ? { ...module, lessons: module.lessons.filter((lesson) => lesson.id !== lessonId) }
+          : module
+      ));
+      toast.success("Aula excluída");
+    } catch (error) {
+      console.error("Error deleting lesson:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir aula");
+    }
+  };
+
+  const handleLessonSaved = (saved: EditableLesson) => {
+    setModules(modules.map((module) => ({
+      ...module,
+      lessons: module.lessons.map((lesson) => (lesson.id === saved.id ? { ...lesson, ...saved } : lesson)),
+    })));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {modules.length === 0 && (
+        <p className="text-sm text-gray-500">Nenhum módulo cadastrado.</p>
+      )}
+
+      {modules.map((module, moduleIndex) => (
+        <div
+          key={module.id}
+          className={`border rounded-lg bg-white ${dragItem?.kind === "module" && dragItem.id === module.id ? "opacity-50" : ""}`}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            dropOnModule(module.id);
+          }}
+        >
+          <div
+            className="flex items-center gap-2 bg-gray-50 px-4 py-3 rounded-t-lg"
+            draggable
+            onDragStart={() => setDragItem({ kind: "module", id: module.id })}
+            onDragEnd={() => setDragItem(null)}
+          >
+            <FaGripVertical className="h-4 w-4 text-gray-400 cursor-grab" />
+            <span className="text-sm text-gray-500 shrink-0">Módulo {moduleIndex + 1}</span>
+            <Input
+              defaultValue={module.title}
+              className="h-8"
+              onBlur={(e) => handleRenameModule(module.id, e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={() => handleDeleteModule(module.id)}
+              className="text-red-600 hover:text-red-900"
+              title="Excluir módulo"
+            >
+              <FaTrash className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="divide-y">
+            {module.lessons.map((lesson) => (
+              <div
+                key={lesson.id}
+                draggable
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  setDragItem({ kind: "lesson", id: lesson.id, moduleId: module.id });
+                }}
+                onDragEnd={() => setDragItem(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  dropOnLesson(module.id, lesson.id);
+                }}
+                className={`flex items-center gap-2 px-4 py-2 ${dragItem?.kind === "lesson" && dragItem.id === lesson.id ? "opacity-50" : ""}`}
+              >
+                <FaGripVertical className="h-3 w-3 text-gray-400 cursor-grab" />
+                <span className="flex-1 text-sm">{lesson.title}</span>
+                <button
+                  type="button"
+                  onClick={() => setEditing({ moduleId: module.id, lesson })}
+                  className="text-indigo-600 hover:text-indigo-900"
+                  title="Editar aula"
+                >
+                  <FaPen className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteLesson(module.id, lesson.id)}
+                  className="text-red-600 hover:text-red-900"
+                  title="Excluir aula"
+                >
+                  <FaTrash className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2 px-4 py-2">
+              <Input
+                placeholder="Nova aula"
+                className="h-8"
+                value={newLessonTitles[module.id] ?? ""}
+                onChange={(e) => setNewLessonTitles({ ...newLessonTitles, [module.id]: e.target.value })}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={!newLessonTitles[module.id]?.trim()}
+                onClick={() => handleAddLesson(module.id)}
+              >
+                <FaPlus className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Novo módulo"
+          value={newModuleTitle}
+          onChange={(e) => setNewModuleTitle(e.target.value)}
+        />
+        <Button type="button" onClick={handleAddModule} disabled={!newModuleTitle.trim()}>
+          Adicionar módulo
+        </Button>
+      </div>
+
+      <LessonEditorDialog
+        courseId={courseId}
+        moduleId={editing?.moduleId ?? null}
+        lesson={editing?.lesson ?? null}
+        onClose={() => setEditing(null)}
+        onSaved={handleLessonSaved}
+      />
+    </div>
+  );
+}
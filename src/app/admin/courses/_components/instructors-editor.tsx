@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaTrash } from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type Instructor = {
+  id: string;
+  name: string | null;
+  email: string | null;
+  role: string;
+};
+
+interface InstructorsEditorProps {
+  courseId: string;
+}
+
+/**
+ * Instrutores atribuídos ao curso. Eles editam o currículo e publicam avisos
+ * só nos cursos em que foram atribuídos.
+ */
+export function InstructorsEditor({ courseId }: InstructorsEditorProps) {
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  useEffect(() => {
+    fetchInstructors();
+  }, [courseId]);
+
+  const fetchInstructors = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/courses/${courseId}/instructors`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar instrutores");
+      }
+      setInstructors(data);
+    } catch (error) {
+      console.error("Error fetching instructors:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar instrutores");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsAssigning(true);
+      const response = await fetch(`/api/courses/${courseId}/instructors`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao atribuir instrutor");
+      }
+
+      toast.success("Instrutor atribuído");
+      setEmail("");
+      await fetchInstructors();
+    } catch (error) {
+      console.error("Error assigning instructor:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao atribuir instrutor");
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleRemove = async (instructor: Instructor) => {
+    if (!confirm(`Remover ${instructor.name ?? instructor.email} dos instrutores do curso?`)) return;
+
+    try {
+      const response = await fetch(`/api/courses/${courseId}/instructors/${instructor.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Falha ao remover instrutor");
+      }
+
+      toast.success("Instrutor removido");
+      setInstructors(instructors.filter((item) => item.id !== instructor.id));
+    } catch (error) {
+      console.error("Error removing instructor:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao remover instrutor");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAssign} className="flex gap-2">
+        <Input
+          type="email"
+          placeholder="E-mail do instrutor"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <Button type="submit" disabled={isAssigning}>
+          {isAssigning ? "Atribuindo..." : "Atribuir"}
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : instructors.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum instrutor atribuído.</p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {instructors.map((instructor) => (
+            <li key={instructor.id} className="flex items-center justify-between p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{instructor.name ?? "-"}</p>
+                <p className="text-xs text-gray-500">
+                  {instructor.email} · {instructor.role}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleRemove(instructor)} aria-label="Remover instrutor">
+                <FaTrash className="h-4 w-4 text-red-600" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { FaTimes } from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export type EditableLesson = {
+  id: string;
+  title: string;
+  order: number;
+  duration: number;
+  content: unknown;
+};
+
+interface LessonEditorDialogProps {
+  courseId: string;
+  moduleId: string | null;
+  lesson: EditableLesson | null;
+  onClose: () => void;
+  onSaved: (lesson: EditableLesson) => void;
+}
+
+type ContentIssue = { path: string; message: string };
+
+/**
+ * Edição do título, da duração e do conteúdo (JSON no formato de blocos) de uma aula.
+ */
+export function LessonEditorDialog({ courseId, moduleId, lesson, onClose, onSaved }: LessonEditorDialogProps) {
+  const [title, setTitle] = useState("");
+  const [duration, setDuration] = useState("0");
+  const [content, setContent] = useState("");
+  const [issues, setIssues] = useState<ContentIssue[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setTitle(lesson?.title ?? "");
+    setDuration(String(lesson?.duration ?? 0));
+    setContent(lesson ? JSON.stringify(lesson.content, null, 2) : "");
+    setIssues([]);
+  }, [lesson]);
+
+  const handleSave = async () => {
+    if (!lesson || !moduleId) return;
+
+    let parsedContent: unknown;
+    try {
+      parsedContent = JSON.parse(content);
+    } catch {
+      setIssues([{ path: "", message: "JSON inválido" }]);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/courses/${courseId}/modules/${moduleId}/lessons/${lesson.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, duration: Number(duration), content: parsedContent }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setIssues(data.issues ?? []);
+        throw new Error(data.error || "Falha ao salvar aula");
+      }
+
+      toast.success("Aula salva");
+      onSaved(data);
+      onClose();
+    } catch (error) {
+      console.error("Error saving lesson:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar aula");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={!!lesson} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg p-6 w-full max-w-2xl z-50 shadow-xl">
+          <div className="flex justify-between items-center mb-4">
+            <Dialog.Title className="text-lg font-medium text-gray-900">Editar aula</Dialog.Title>
+            <Dialog.Close asChild>
+              <button type="button" className="text-gray-400 hover:text-gray-500" disabled={isSaving}>
+                <FaTimes className="h-5 w-5" />
+              </button>
+            </Dialog.Close>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="lesson-title">Título</Label>
+              <Input id="lesson-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+
+            <div>
+              <Label htmlFor="lesson-duration">Duração (segundos)</Label>
+              <Input
+                id="lesson-duration"
+                type="number"
+                min={0}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Usada no progresso: a aula é concluída quando o aluno assiste 90% do vídeo.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="lesson-content">Conteúdo</Label>
+              <Textarea
+                id="lesson-content"
+                rows={16}
+                className="font-mono text-xs"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Blocos: rich_text, video, code, callout, attachment e quiz.
+              </p>
+            </div>
+
+            {issues.length > 0 && (
+              <ul className="rounded-md bg-red-50 p-3 text-sm text-red-700 space-y-1">
+                {issues.map((issue, index) => (
+                  <li key={index}>
+                    {issue.path && <span className="font-mono">{issue.path}: </span>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancelar
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !title.trim()}>
+                {isSaving ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
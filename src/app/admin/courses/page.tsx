@@ -2,10 +2,12 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { useSession } from "next-auth/react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "react-hot-toast";
 import { formatPrice } from "@/lib/price";
+import { hasPermission } from "@/lib/roles";
 
 type Course = {
   id: string;
@@ -19,6 +21,8 @@ type Course = {
 };
 
 export default function CoursesPage() {
+  const { data: session } = useSession();
+  const role = session?.user?.role;
   const [courses, setCourses] = useState<Course[]>([]);
   const [filteredCourses, setFilteredCourses] = useState<Course[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -42,7 +46,7 @@ export default function CoursesPage() {
   const fetchCourses = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/courses");
+      const response = await fetch("/api/courses?managed=true");
       const data = await response.json();
       if (response.ok) {
         setCourses(data);
@@ -121,9 +125,11 @@ export default function CoursesPage() {
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-2xl font-bold">Cursos</h1>
-        <Link href="/admin/courses/new">
-          <Button>Novo Curso</Button>
-        </Link>
+        {hasPermission(role, "course:create") && (
+          <Link href="/admin/courses/new">
+            <Button>Novo Curso</Button>
+          </Link>
+        )}
       </div>
 
       <div className="mb-6">
@@ -202,15 +208,17 @@ export default function CoursesPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                     </svg>
                   </Link>
-                  <button
-                    onClick={() => handleDelete(course.id)}
-                    className="text-red-600 hover:text-red-900 ml-2"
-                    title="Excluir"
-                  >
-                    <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                  </button>
+                  {hasPermission(role, "course:delete") && (
+                    <button
+                      onClick={() => handleDelete(course.id)}
+                      className="text-red-600 hover:text-red-900 ml-2"
+                      title="Excluir"
+                    >
+                      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'react-hot-toast';
+import { JourneyCoursesPicker } from '../_components/journey-courses-picker';
 
 interface Journey {
   id: string;
@@ -15,7 +16,9 @@ interface Journey {
   description: string;
   imageUrl: string | null;
   price: number | null;
+  durationMonths: number | null;
   public: boolean;
+  courseIds: string[];
 }
 
 export default function EditJourneyPage() {
@@ -30,7 +33,9 @@ export default function EditJourneyPage() {
     description: '',
     imageUrl: null,
     price: null,
+    durationMonths: null,
     public: false,
+    courseIds: [],
   });
 
   useEffect(() => {
@@ -41,7 +46,10 @@ export default function EditJourneyPage() {
           throw new Error('Falha ao carregar jornada');
         }
         const data = await response.json();
-        setFormData(data);
+        setFormData({
+          ...data,
+          courseIds: data.courses.map((course: { id: string }) => course.id),
+        });
       } catch (error) {
         console.error('Error fetching journey:', error);
         toast.error('Erro ao carregar jornada');
@@ -204,6 +212,30 @@ export default function EditJourneyPage() {
             </div>
           </div>
 
+          <div>
+            <Label htmlFor="durationMonths">Duração do acesso (em meses)</Label>
+            <Input
+              id="durationMonths"
+              name="durationMonths"
+              type="number"
+              min={1}
+              value={formData.durationMonths ?? ''}
+              onChange={(e) => {
+                const value = e.target.value;
+                setFormData(prev => ({ ...prev, durationMonths: value ? Number(value) : null }));
+              }}
+              placeholder="12"
+            />
+            <p className="text-sm text-gray-500 mt-1">
+              Deixe em branco para usar a duração padrão
+            </p>
+          </div>
+
+          <JourneyCoursesPicker
+            value={formData.courseIds}
+            onChange={(courseIds) => setFormData(prev => ({ ...prev, courseIds }))}
+          />
+
           <div className="flex items-center space-x-2">
             <Switch
               id="public"
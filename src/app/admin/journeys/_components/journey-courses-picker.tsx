@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { FaArrowDown, FaArrowUp, FaTrash } from 'react-icons/fa';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { toast } from 'react-hot-toast';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+interface JourneyCoursesPickerProps {
+  value: string[];
+  onChange: (courseIds: string[]) => void;
+}
+
+/**
+ * Seleciona e ordena os cursos que compõem uma jornada.
+ * A ordem do array é a ordem em que os cursos aparecem para o aluno.
+ */
+export function JourneyCoursesPicker({ value, onChange }: JourneyCoursesPickerProps) {
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const response = await fetch('/api/courses');
+        if (!response.ok) {
+          throw new Error('Falha ao carregar cursos');
+        }
+        setCourses(await response.json());
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+        toast.error('Erro ao carregar cursos');
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  const courseTitle = (id: string) =>
+    courses.find((course) => course.id === id)?.title ?? id;
+
+  const availableCourses = courses.filter((course) => !value.includes(course.id));
+
+  const handleAdd = () => {
+    if (!selectedCourseId) return;
+    onChange([...value, selectedCourseId]);
+    setSelectedCourseId('');
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter((courseId) => courseId !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Cursos da Jornada</Label>
+
+      {value.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum curso adicionado.</p>
+      ) : (
+        <ol className="space-y-2">
+          {value.map((courseId, index) => (
+            <li
+              key={courseId}
+              className="flex items-center justify-between rounded-md border px-3 py-2"
+            >
+              <span className="text-sm">
+                {index + 1}. {courseTitle(courseId)}
+              </span>
+              <div className="flex items-center space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                >
+                  <FaArrowUp className="h-3 w-3" />
+                  <span className="sr-only">Subir</span>
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === value.length - 1}
+                >
+                  <FaArrowDown className="h-3 w-3" />
+                  <span className="sr-only">Descer</span>
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(courseId)}
+                >
+                  <FaTrash className="h-3 w-3 text-destructive" />
+                  <span className="sr-only">Remover</span>
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={selectedCourseId}
+          onChange={(e) => setSelectedCourseId(e.target.value)}
+          className="block w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          <option value="">Selecione um curso...</option>
+          {availableCourses.map((course) => (
+            <option key={course.id} value={course.id}>
+              {course.title}
+            </option>
+          ))}
+        </select>
+        <Button type="button" variant="outline" onClick={handleAdd} disabled={!selectedCourseId}>
+          Adicionar
+        </Button>
+      </div>
+    </div>
+  );
+}
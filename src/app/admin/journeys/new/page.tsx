@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'react-hot-toast';
 import { parsePriceToCents } from '@/lib/price';
+import { JourneyCoursesPicker } from '../_components/journey-courses-picker';
 
 export default function NewJourneyPage() {
   const router = useRouter();
@@ -19,7 +20,9 @@ export default function NewJourneyPage() {
     description: '',
     imageUrl: '',
     price: '',
+    durationMonths: '',
     public: false,
+    courseIds: [] as string[],
   });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -44,6 +47,7 @@ export default function NewJourneyPage() {
         body: JSON.stringify({
           ...formData,
           price: formData.price ? parsePriceToCents(formData.price) : null,
+          durationMonths: formData.durationMonths ? Number(formData.durationMonths) : null,
         }),
       });
 
@@ -132,6 +136,27 @@ export default function NewJourneyPage() {
             </div>
           </div>
 
+          <div>
+            <Label htmlFor="durationMonths">Duração do acesso (em meses)</Label>
+            <Input
+              id="durationMonths"
+              name="durationMonths"
+              type="number"
+              min={1}
+              value={formData.durationMonths}
+              onChange={handleChange}
+              placeholder="12"
+            />
+            <p className="text-sm text-gray-500 mt-1">
+              Deixe em branco para usar a duração padrão
+            </p>
+          </div>
+
+          <JourneyCoursesPicker
+            value={formData.courseIds}
+            onChange={(courseIds) => setFormData(prev => ({ ...prev, courseIds }))}
+          />
+
           <div className="flex items-center space-x-2">
             <Switch
               id="public"
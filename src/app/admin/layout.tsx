@@ -3,6 +3,7 @@ import { redirect } from 'next/navigation';
 import { AdminSidebar } from './_components/admin-sidebar';
 import { authOptions } from '@/lib/auth';
 import { Toaster } from '@/components/ui/toaster';
+import { can } from '@/lib/permissions';
 
 export default async function AdminLayout({
   children,
@@ -11,13 +12,14 @@ export default async function AdminLayout({
 }) {
   const session = await getServerSession(authOptions);
   
-  if (!session?.user || session.user.role !== 'ADMIN') {
+  // Cada seção exige a própria permissão; o proxy barra as demais páginas
+  if (!session?.user || !(await can(session.user, 'admin:access'))) {
     redirect('/signin');
   }
 
   return (
     <div className="flex h-screen bg-gray-50">
-      <AdminSidebar />
+      <AdminSidebar role={session.user.role} />
       <div className="flex-1 overflow-auto">
         <main className="p-8">
           {children}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatDate, userLabel, type ForumBan } from "./types";
+
+const headerClass = "px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider";
+
+export function BansPanel() {
+  const [bans, setBans] = useState<ForumBan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState({ email: "", days: "7", reason: "" });
+  const [submitting, setSubmitting] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBans();
+  }, []);
+
+  const fetchBans = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin/forum/bans");
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Falha ao carregar suspensões");
+
+      setBans(data);
+    } catch (error) {
+      console.error("Error fetching forum bans:", error);
+      toast.error("Erro ao carregar suspensões");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/admin/forum/bans", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: form.email, days: Number(form.days), reason: form.reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Falha ao suspender usuário");
+
+      toast.success("Usuário suspenso do fórum");
+      setForm({ email: "", days: "7", reason: "" });
+      await fetchBans();
+    } catch (error) {
+      console.error("Error creating forum ban:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao suspender usuário");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      setRevoking(id);
+      const response = await fetch(`/api/admin/forum/bans/${id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Falha ao encerrar suspensão");
+
+      toast.success("Suspensão encerrada");
+      await fetchBans();
+    } catch (error) {
+      console.error("Error revoking forum ban:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao encerrar suspensão");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 grid gap-4 md:grid-cols-[2fr_1fr_3fr_auto] items-end">
+        <div className="space-y-1">
+          <Label htmlFor="ban-email">E-mail do usuário</Label>
+          <Input
+            id="ban-email"
+            type="email"
+            required
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ban-days">Dias</Label>
+          <Input
+            id="ban-days"
+            type="number"
+            min={1}
+            max={365}
+            required
+            value={form.days}
+            onChange={(e) => setForm({ ...form, days: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ban-reason">Motivo</Label>
+          <Input
+            id="ban-reason"
+            required
+            value={form.reason}
+            onChange={(e) => setForm({ ...form, reason: e.target.value })}
+          />
+        </div>
+        <Button type="submit" variant="destructive" disabled={submitting}>
+          {submitting ? "Suspendendo..." : "Suspender"}
+        </Button>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : bans.length === 0 ? (
+        <p className="text-gray-500">Nenhuma suspensão em vigor.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerClass}>Usuário</th>
+                <th className={headerClass}>Motivo</th>
+                <th className={headerClass}>Suspenso por</th>
+                <th className={headerClass}>Até</th>
+                <th className={headerClass}>Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {bans.map((ban) => (
+                <tr key={ban.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{ban.user.name ?? "-"}</div>
+                    <div className="text-xs text-gray-500">{ban.user.email}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">{ban.reason}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{userLabel(ban.createdBy)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(ban.expiresAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={revoking === ban.id}
+                      onClick={() => handleRevoke(ban.id)}
+                    >
+                      {revoking === ban.id ? "Encerrando..." : "Encerrar"}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { formatDate, userLabel, type ModerationLogEntry } from "./types";
+
+const actionLabels: Record<string, string> = {
+  HIDE_POST: "Ocultou post",
+  UNHIDE_POST: "Reexibiu post",
+  LOCK_POST: "Trancou post",
+  UNLOCK_POST: "Destrancou post",
+  PIN_POST: "Fixou post",
+  UNPIN_POST: "Desafixou post",
+  DELETE_POST: "Excluiu post",
+  DELETE_COMMENT: "Removeu resposta",
+  RESOLVE_REPORT: "Resolveu denúncia",
+  DISMISS_REPORT: "Descartou denúncia",
+  BAN_USER: "Suspendeu usuário",
+  REVOKE_BAN: "Encerrou suspensão",
+};
+
+const headerClass = "px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider";
+
+export function ModerationLog() {
+  const [logs, setLogs] = useState<ModerationLogEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [page]);
+
+  const fetchLogs = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/forum/logs?page=${page}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Falha ao carregar o log");
+
+      setLogs(data.logs);
+      setTotalPages(data.totalPages);
+    } catch (error) {
+      console.error("Error fetching moderation log:", error);
+      toast.error("Erro ao carregar o log de moderação");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (logs.length === 0) {
+    return <p className="text-gray-500">Nenhuma ação de moderação registrada.</p>;
+  }
+
+  return (
+    <div>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClass}>Data</th>
+              <th className={headerClass}>Moderador</th>
+              <th className={headerClass}>Ação</th>
+              <th className={headerClass}>Alvo</th>
+              <th className={headerClass}>Motivo</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {logs.map((log) => (
+              <tr key={log.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(log.createdAt)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{userLabel(log.moderator)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {actionLabels[log.action] ?? log.action}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
+                  {log.targetType}: {log.targetId}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">{log.reason ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Anterior
+          </Button>
+          <span className="text-sm text-gray-500">
+            Página {page} de {totalPages}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Próxima
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { getForumContextPath, getForumText } from "@/lib/forum";
+import { formatDate, userLabel, type ForumReport } from "./types";
+
+type ReportStatus = ForumReport["status"];
+
+const statusFilters: { value: ReportStatus; label: string }[] = [
+  { value: "OPEN", label: "Abertas" },
+  { value: "RESOLVED", label: "Resolvidas" },
+  { value: "DISMISSED", label: "Descartadas" },
+];
+
+function ReportCard({ report, onClosed }: { report: ForumReport; onClosed: () => void }) {
+  const [resolution, setResolution] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const post = report.post ?? report.comment?.post;
+  const postLink = post ? `${getForumContextPath(post.cursoId)}/${post.id}` : null;
+  const content = report.comment ? report.comment.content : report.post?.content;
+  const author = report.comment?.author ?? report.post?.author ?? null;
+
+  const close = async (status: "RESOLVED" | "DISMISSED", removeContent = false) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/admin/forum/reports/${report.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, resolution, removeContent }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Falha ao fechar denúncia");
+
+      toast.success(status === "DISMISSED" ? "Denúncia descartada" : "Denúncia resolvida");
+      onClosed();
+    } catch (error) {
+      console.error("Error closing report:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao fechar denúncia");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div className="flex justify-between gap-4 text-sm">
+        <div>
+          <span className="font-medium text-gray-900">{report.comment ? "Resposta" : "Post"}</span>
+          {post && postLink && (
+            <>
+              {" em "}
+              <Link href={postLink} target="_blank" className="text-indigo-600 hover:underline">
+                {post.title}
+              </Link>
+            </>
+          )}
+          <div className="text-gray-500">Autor: {userLabel(author)}</div>
+        </div>
+        <div className="text-right text-gray-500">
+          <div>Denunciado por {userLabel(report.reporter)}</div>
+          <div>{formatDate(report.createdAt)}</div>
+        </div>
+      </div>
+
+      <blockquote className="border-l-4 border-gray-200 pl-3 text-sm text-gray-700 whitespace-pre-wrap line-clamp-6">
+        {report.comment?.deletedAt ? <em>Resposta já removida</em> : getForumText(content)}
+      </blockquote>
+
+      <p className="text-sm">
+        <span className="font-medium text-gray-900">Motivo: </span>
+        <span className="text-gray-700">{report.reason}</span>
+      </p>
+
+      {report.status === "OPEN" ? (
+        <div className="space-y-2">
+          <Textarea
+            rows={2}
+            placeholder="Resolução (obrigatória para remover o conteúdo)"
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" size="sm" disabled={submitting} onClick={() => close("DISMISSED")}>
+              Descartar
+            </Button>
+            <Button variant="secondary" size="sm" disabled={submitting} onClick={() => close("RESOLVED")}>
+              Resolver sem remover
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={submitting || !resolution.trim()}
+              onClick={() => close("RESOLVED", true)}
+            >
+              {report.comment ? "Remover resposta" : "Ocultar post"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {report.status === "RESOLVED" ? "Resolvida" : "Descartada"} por {userLabel(report.resolvedBy)} em{" "}
+          {formatDate(report.resolvedAt)}
+          {report.resolution && `: ${report.resolution}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ReportsQueue() {
+  const [status, setStatus] = useState<ReportStatus>("OPEN");
+  const [reports, setReports] = useState<ForumReport[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReports();
+  }, [status, page]);
+
+  const fetchReports = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/forum/reports?status=${status}&page=${page}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Falha ao carregar denúncias");
+
+      setReports(data.reports);
+      setTotalPages(data.totalPages);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      toast.error("Erro ao carregar denúncias");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-6">
+        {statusFilters.map((filter) => (
+          <Button
+            key={filter.value}
+            variant={status === filter.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => {
+              setStatus(filter.value);
+              setPage(1);
+            }}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-gray-500">Nenhuma denúncia encontrada.</p>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <ReportCard key={report.id} report={report} onClosed={fetchReports} />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Anterior
+          </Button>
+          <span className="text-sm text-gray-500">
+            Página {page} de {totalPages}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Próxima
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
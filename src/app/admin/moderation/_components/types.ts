@@ -0,0 +1,54 @@
+export type ModerationUser = { id: string; name: string | null; email: string | null };
+
+export type ForumReport = {
+  id: string;
+  reason: string;
+  status: "OPEN" | "RESOLVED" | "DISMISSED";
+  resolution: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+  reporter: ModerationUser;
+  resolvedBy: ModerationUser | null;
+  post: {
+    id: string;
+    title: string;
+    content: unknown;
+    cursoId: string | null;
+    isHidden: boolean;
+    author: ModerationUser;
+  } | null;
+  comment: {
+    id: string;
+    content: unknown;
+    deletedAt: string | null;
+    author: ModerationUser;
+    post: { id: string; title: string; cursoId: string | null };
+  } | null;
+};
+
+export type ForumBan = {
+  id: string;
+  reason: string;
+  expiresAt: string;
+  createdAt: string;
+  user: ModerationUser;
+  createdBy: ModerationUser;
+};
+
+export type ModerationLogEntry = {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  reason: string | null;
+  createdAt: string;
+  moderator: ModerationUser;
+};
+
+export function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString("pt-BR") : "-";
+}
+
+export function userLabel(user: ModerationUser | null) {
+  return user ? user.name || user.email || user.id : "-";
+}
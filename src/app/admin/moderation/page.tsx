@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { ReportsQueue } from "./_components/reports-queue";
+import { BansPanel } from "./_components/bans-panel";
+import { ModerationLog } from "./_components/moderation-log";
+
+const tabs = [
+  { value: "reports", label: "Denúncias" },
+  { value: "bans", label: "Suspensões" },
+  { value: "log", label: "Log" },
+] as const;
+
+type Tab = (typeof tabs)[number]["value"];
+
+export default function ModerationPage() {
+  const [tab, setTab] = useState<Tab>("reports");
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-8">Moderação do fórum</h1>
+
+      <div className="flex border-b mb-6">
+        {tabs.map((item) => (
+          <button
+            key={item.value}
+            type="button"
+            onClick={() => setTab(item.value)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              tab === item.value
+                ? "border-indigo-500 text-indigo-700"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "reports" && <ReportsQueue />}
+      {tab === "bans" && <BansPanel />}
+      {tab === "log" && <ModerationLog />}
+    </div>
+  );
+}
@@ -1,96 +1,250 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { FaBookOpen as BookOpen, FaCompass as Compass, FaUsers as Users, FaDollarSign as DollarSign } from 'react-icons/fa';
+import { toast } from 'react-hot-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import Link from 'next/link';
+import { formatPrice } from '@/lib/price';
+import { hasPermission } from '@/lib/roles';
+
+type Metric = {
+  value: number;
+  previous: number;
+  change: number | null;
+};
+
+type AdminStats = {
+  courses: Metric;
+  journeys: Metric;
+  students: Metric & { studying: number };
+  revenue: Metric & { total: number };
+  latestCourses: {
+    id: string;
+    title: string;
+    public: boolean;
+    createdAt: string;
+    _count: { enrollments: number };
+  }[];
+  latestSales: {
+    id: string;
+    amount: number;
+    status: string;
+    createdAt: string;
+    user: { id: string; name: string | null; email: string | null };
+    items: { id: string; title: string }[];
+  }[];
+};
+
+const saleStatusLabels: Record<string, string> = {
+  APPROVED: 'Aprovado',
+  PARTIALLY_REFUNDED: 'Reembolso parcial',
+  REFUNDED: 'Reembolsado',
+  CHARGED_BACK: 'Chargeback',
+};
+
+function ChangeLabel({ metric, suffix = 'em relação ao mês passado' }: { metric: Metric; suffix?: string }) {
+  if (metric.change === null) {
+    return <p className="text-xs text-muted-foreground">Sem base de comparação no mês passado</p>;
+  }
+
+  const sign = metric.change > 0 ? '+' : '';
+  const color = metric.change > 0 ? 'text-green-600' : metric.change < 0 ? 'text-red-600' : 'text-muted-foreground';
+  return (
+    <p className="text-xs text-muted-foreground">
+      <span className={color}>{sign}{metric.change.toLocaleString('pt-BR')}%</span> {suffix}
+    </p>
+  );
+}
 
 export default function AdminDashboard() {
+  const { data: session, status } = useSession();
+  const [stats, setStats] = useState<AdminStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Instrutores e moderadores entram no painel, mas só vê as métricas quem tem report:view
+  const canViewReports = hasPermission(session?.user?.role, 'report:view');
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!canViewReports) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchStats = async () => {
+      try {
+        const response = await fetch('/api/admin/stats');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Falha ao carregar o painel');
+        }
+        setStats(data);
+      } catch (error) {
+        console.error('Error fetching admin stats:', error);
+        toast.error(error instanceof Error ? error.message : 'Erro ao carregar o painel');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStats();
+  }, [status, canViewReports]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Painel de Controle</h1>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total de Cursos</CardTitle>
-            <BookOpen className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">+0% em relação ao mês passado</p>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Jornadas Ativas</CardTitle>
-            <Compass className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">+0% em relação ao mês passado</p>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Estudantes Ativos</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">+0% em relação ao mês passado</p>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Receita Total</CardTitle>
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">R$ 0,00</div>
-            <p className="text-xs text-muted-foreground">+0% em relação ao mês passado</p>
-          </CardContent>
-        </Card>
-      </div>
+      {!canViewReports && (
+        <p className="text-sm text-muted-foreground">
+          Use o menu ao lado para acessar as seções liberadas para o seu perfil.
+        </p>
+      )}
 
-      <div className="grid gap-4 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle>Últimos Cursos</CardTitle>
-              <Button variant="ghost" size="sm" asChild>
-                <Link href="/admin/courses">Ver todos</Link>
-              </Button>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">Nenhum curso encontrado.</p>
-            </div>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle>Atividades Recentes</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">Nenhuma atividade recente.</p>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+      {stats && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total de Cursos</CardTitle>
+                <BookOpen className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.courses.value}</div>
+                <ChangeLabel metric={stats.courses} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Jornadas Ativas</CardTitle>
+                <Compass className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.journeys.value}</div>
+                <ChangeLabel metric={stats.journeys} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Estudantes Ativos</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.students.value}</div>
+                <ChangeLabel metric={stats.students} />
+                <p className="text-xs text-muted-foreground">
+                  {stats.students.studying} estudaram nos últimos 30 dias
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Receita Total</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPrice(stats.revenue.total)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {formatPrice(stats.revenue.value)} este mês, descontados os reembolsos
+                </p>
+                <ChangeLabel metric={stats.revenue} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Últimos Cursos</CardTitle>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/admin/courses">Ver todos</Link>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {stats.latestCourses.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nenhum curso encontrado.</p>
+                  ) : (
+                    stats.latestCourses.map((course) => (
+                      <div key={course.id} className="flex items-center justify-between">
+                        <div>
+                          <Link href={`/admin/courses/${course.id}`} className="text-sm font-medium hover:underline">
+                            {course.title}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(course.createdAt).toLocaleDateString('pt-BR')} · {course._count.enrollments}{' '}
+                            matrícula(s)
+                          </p>
+                        </div>
+                        <span
+                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            course.public ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {course.public ? 'Público' : 'Rascunho'}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Últimas Vendas</CardTitle>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/admin/payments">Ver todas</Link>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {stats.latestSales.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nenhuma venda registrada.</p>
+                  ) : (
+                    stats.latestSales.map((sale) => (
+                      <div key={sale.id} className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium">{sale.user.name ?? sale.user.email}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {sale.items.map((item) => item.title).join(', ')}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(sale.createdAt).toLocaleString('pt-BR')}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-medium">{formatPrice(sale.amount)}</p>
+                          <p className="text-xs text-muted-foreground">{saleStatusLabels[sale.status] ?? sale.status}</p>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
     </div>
   );
 }
-
-// These are just for TypeScript, they're used in the JSX
-function BookOpen(props: any) { return <span {...props} />; }
-function Compass(props: any) { return <span {...props} />; }
-function Users(props: any) { return <span {...props} />; }
-function DollarSign(props: any) { return <span {...props} />; }
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { FaTimes } from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatPrice } from "@/lib/price";
+import type { AdminPayment } from "./types";
+
+interface RefundDialogProps {
+  payment: AdminPayment | null;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+export function RefundDialog({ payment, onClose, onRefunded }: RefundDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const refundable = payment?.items.filter((item) => !item.refundItem) ?? [];
+
+  useEffect(() => {
+    setSelected(refundable.map((item) => item.id));
+    setReason("");
+  }, [payment?.id]);
+
+  const toggleItem = (id: string) => {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((itemId) => itemId !== id) : [...current, id]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!payment) return;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/admin/payments/${payment.id}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemIds: selected, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao emitir reembolso");
+      }
+
+      toast.success(`Reembolso de ${formatPrice(data.amount)} emitido`);
+      onRefunded();
+      onClose();
+    } catch (error) {
+      console.error("Error issuing refund:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao emitir reembolso");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={!!payment} onOpenChange={(open) => !open && !submitting && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg p-6 w-full max-w-lg z-50 shadow-xl">
+          <div className="flex justify-between items-center mb-4">
+            <Dialog.Title className="text-lg font-medium text-gray-900">
+              Emitir reembolso
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <button type="button" className="text-gray-400 hover:text-gray-500" disabled={submitting}>
+                <FaTimes className="h-5 w-5" />
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {payment && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {payment.user.name ?? payment.user.email} — pago {formatPrice(payment.amount)} em{" "}
+                {new Date(payment.createdAt).toLocaleDateString("pt-BR")}. O prazo do comprador não se aplica a reembolsos emitidos pela equipe.
+              </p>
+
+              <div className="space-y-2">
+                <Label>Itens</Label>
+                {payment.items.map((item) => (
+                  <label key={item.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        disabled={!!item.refundItem}
+                        checked={selected.includes(item.id)}
+                        onChange={() => toggleItem(item.id)}
+                      />
+                      {item.title}
+                      {item.refundItem && (
+                        <span className="text-xs text-gray-400">(já reembolsado)</span>
+                      )}
+                    </span>
+                    <span className="text-gray-500">{formatPrice(item.price * item.quantity)}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="refund-reason">Motivo</Label>
+                <Textarea
+                  id="refund-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Ex.: aluno relatou problema técnico após o prazo"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={onClose} disabled={submitting}>
+                  Cancelar
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={handleSubmit}
+                  disabled={submitting || selected.length === 0 || !reason.trim()}
+                >
+                  {submitting ? "Processando..." : "Confirmar reembolso"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
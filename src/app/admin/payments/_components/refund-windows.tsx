@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type CourseWindow = {
+  id: string;
+  title: string;
+  refundWindowDays: number | null;
+};
+
+export function RefundWindows() {
+  const [courses, setCourses] = useState<CourseWindow[]>([]);
+  const [defaultDays, setDefaultDays] = useState(7);
+  const [bounds, setBounds] = useState({ min: 7, max: 365 });
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchWindows();
+  }, []);
+
+  const fetchWindows = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin/refund-windows");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar prazos");
+      }
+      setCourses(data.courses);
+      setDefaultDays(data.defaultDays);
+      setBounds({ min: data.minDays, max: data.maxDays });
+      setDrafts(
+        Object.fromEntries(
+          data.courses.map((course: CourseWindow) => [course.id, course.refundWindowDays?.toString() ?? ""])
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching refund windows:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar prazos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (courseId: string) => {
+    const value = drafts[courseId]?.trim();
+
+    try {
+      const response = await fetch("/api/admin/refund-windows", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          courseId,
+          refundWindowDays: value ? Number(value) : null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao salvar prazo");
+      }
+
+      setCourses((current) => current.map((course) => (course.id === courseId ? data : course)));
+      toast.success("Prazo atualizado");
+    } catch (error) {
+      console.error("Error saving refund window:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar prazo");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <p className="px-6 py-4 text-sm text-gray-500">
+        Deixe em branco para usar o prazo padrão de {defaultDays} dias.
+      </p>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Curso
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Prazo (dias)
+            </th>
+            <th className="px-6 py-3" />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {courses.map((course) => {
+            const draft = drafts[course.id] ?? "";
+            const changed = draft !== (course.refundWindowDays?.toString() ?? "");
+
+            return (
+              <tr key={course.id}>
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">{course.title}</td>
+                <td className="px-6 py-4">
+                  <Input
+                    type="number"
+                    min={bounds.min}
+                    max={bounds.max}
+                    className="w-32"
+                    placeholder={defaultDays.toString()}
+                    value={draft}
+                    onChange={(e) => setDrafts({ ...drafts, [course.id]: e.target.value })}
+                  />
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <Button size="sm" disabled={!changed} onClick={() => handleSave(course.id)}>
+                    Salvar
+                  </Button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+export type AdminPaymentItem = {
+  id: string;
+  itemType: "COURSE" | "JOURNEY";
+  courseId: string | null;
+  journeyId: string | null;
+  title: string;
+  price: number;
+  quantity: number;
+  refundItem: { amount: number; refundId: string } | null;
+};
+
+export type AdminRefund = {
+  id: string;
+  status: string;
+  amount: number;
+  reason: string | null;
+  createdAt: string;
+  issuedBy: { name: string | null; email: string | null } | null;
+};
+
+export type AdminPayment = {
+  id: string;
+  mpPaymentId: string;
+  status: string;
+  amount: number;
+  createdAt: string;
+  user: { id: string; name: string | null; email: string | null };
+  order: { id: string; status: string; method: string; installments: number } | null;
+  items: AdminPaymentItem[];
+  refunds: AdminRefund[];
+};
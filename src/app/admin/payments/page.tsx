@@ -0,0 +1,330 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "react-hot-toast";
+import { formatPrice } from "@/lib/price";
+import { RefundDialog } from "./_components/refund-dialog";
+import { RefundWindows } from "./_components/refund-windows";
+import type { AdminPayment } from "./_components/types";
+
+type Tab = "pagamentos" | "chargebacks" | "prazos";
+
+type CourseOption = {
+  id: string;
+  title: string;
+};
+
+type Filters = {
+  q: string;
+  courseId: string;
+  status: string;
+  from: string;
+  to: string;
+};
+
+const emptyFilters: Filters = { q: "", courseId: "", status: "", from: "", to: "" };
+
+const statusOptions = [
+  { value: "", label: "Todos os status" },
+  { value: "PENDING", label: "Pendente" },
+  { value: "APPROVED", label: "Aprovado" },
+  { value: "PARTIALLY_REFUNDED", label: "Reembolso parcial" },
+  { value: "REFUNDED", label: "Reembolsado" },
+  { value: "CHARGED_BACK", label: "Chargeback" },
+  { value: "CANCELLED", label: "Cancelado" },
+  { value: "FAILED", label: "Falhou" },
+];
+
+const statusStyles: Record<string, string> = {
+  APPROVED: "bg-green-100 text-green-800",
+  PENDING: "bg-gray-100 text-gray-800",
+  PARTIALLY_REFUNDED: "bg-yellow-100 text-yellow-800",
+  REFUNDED: "bg-blue-100 text-blue-800",
+  CHARGED_BACK: "bg-red-100 text-red-800",
+};
+
+const REFUNDABLE_STATUSES = ["APPROVED", "PARTIALLY_REFUNDED"];
+
+export default function PaymentsPage() {
+  const [tab, setTab] = useState<Tab>("pagamentos");
+  const [payments, setPayments] = useState<AdminPayment[]>([]);
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [refunding, setRefunding] = useState<AdminPayment | null>(null);
+
+  useEffect(() => {
+    fetch("/api/courses")
+      .then((response) => response.json())
+      .then((data) => setCourses(Array.isArray(data) ? data : []))
+      .catch((error) => console.error("Error fetching courses:", error));
+  }, []);
+
+  useEffect(() => {
+    if (tab !== "prazos") fetchPayments();
+  }, [tab, page]);
+
+  const fetchPayments = async () => {
+    try {
+      setLoading(true);
+      const query = new URLSearchParams({ page: page.toString() });
+      const activeFilters = tab === "chargebacks" ? { ...filters, status: "CHARGED_BACK" } : filters;
+      Object.entries(activeFilters).forEach(([key, value]) => {
+        if (value) query.set(key, value);
+      });
+
+      const response = await fetch(`/api/admin/payments?${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar pagamentos");
+      }
+
+      setPayments(data.payments);
+      setTotal(data.total);
+      setTotalPages(data.totalPages);
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar pagamentos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      fetchPayments();
+    } else {
+      setPage(1);
+    }
+  };
+
+  const changeTab = (next: Tab) => {
+    setTab(next);
+    setPage(1);
+  };
+
+  const tabs: { value: Tab; label: string }[] = [
+    { value: "pagamentos", label: "Pagamentos" },
+    { value: "chargebacks", label: "Chargebacks" },
+    { value: "prazos", label: "Prazos de reembolso" },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold">Pagamentos</h1>
+      </div>
+
+      <div className="flex gap-2 mb-6 border-b border-gray-200">
+        {tabs.map((item) => (
+          <button
+            key={item.value}
+            onClick={() => changeTab(item.value)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              tab === item.value
+                ? "border-indigo-500 text-indigo-700"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "prazos" ? (
+        <RefundWindows />
+      ) : (
+        <>
+          <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-6">
+            <Input
+              className="md:col-span-2"
+              placeholder="Nome, email ou ID do Mercado Pago"
+              value={filters.q}
+              onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+            />
+            <select
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              value={filters.courseId}
+              onChange={(e) => setFilters({ ...filters, courseId: e.target.value })}
+            >
+              <option value="">Todos os cursos</option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id}>
+                  {course.title}
+                </option>
+              ))}
+            </select>
+            {tab === "pagamentos" && (
+              <select
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                value={filters.status}
+                onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+              >
+                {statusOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            />
+            <div className="md:col-span-6 flex gap-2">
+              <Button type="submit">Buscar</Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setFilters(emptyFilters)}
+              >
+                Limpar filtros
+              </Button>
+            </div>
+          </form>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : payments.length === 0 ? (
+            <p className="text-gray-500">
+              {tab === "chargebacks" ? "Nenhum chargeback registrado." : "Nenhum pagamento encontrado."}
+            </p>
+          ) : (
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Comprador
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Itens
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Valor
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Data
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Ações
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {payments.map((payment) => {
+                    const refunded = payment.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+
+                    return (
+                      <tr key={payment.id} className="hover:bg-gray-50 align-top">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">
+                            {payment.user.name ?? "-"}
+                          </div>
+                          <div className="text-xs text-gray-500">{payment.user.email}</div>
+                          <div className="text-xs text-gray-400">MP {payment.mpPaymentId}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500">
+                          {payment.items.map((item) => (
+                            <div key={item.id} className={item.refundItem ? "line-through" : ""}>
+                              {item.title}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatPrice(payment.amount)}
+                          {refunded > 0 && (
+                            <div className="text-xs text-red-600">
+                              -{formatPrice(refunded)} reembolsado
+                            </div>
+                          )}
+                          {payment.order && payment.order.installments > 1 && (
+                            <div className="text-xs text-gray-400">{payment.order.installments}x</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              statusStyles[payment.status] ?? "bg-gray-100 text-gray-800"
+                            }`}
+                          >
+                            {statusOptions.find((option) => option.value === payment.status)?.label ?? payment.status}
+                          </span>
+                          {payment.refunds
+                            .filter((refund) => refund.reason)
+                            .map((refund) => (
+                              <div key={refund.id} className="text-xs text-gray-500 mt-1 max-w-xs whitespace-normal">
+                                {refund.reason} — {refund.issuedBy?.name ?? refund.issuedBy?.email}
+                              </div>
+                            ))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(payment.createdAt).toLocaleString("pt-BR")}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          {REFUNDABLE_STATUSES.includes(payment.status) && (
+                            <Button size="sm" variant="outline" onClick={() => setRefunding(payment)}>
+                              Reembolsar
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-500">
+            <span>{total} pagamento(s)</span>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                Anterior
+              </Button>
+              <span>
+                Página {page} de {totalPages}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={page >= totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                Próxima
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <RefundDialog
+        payment={refunding}
+        onClose={() => setRefunding(null)}
+        onRefunded={fetchPayments}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "react-hot-toast";
+
+type SettingValue = number | string | string[];
+
+type Setting = {
+  key: string;
+  label: string;
+  description: string;
+  input: "integer" | "decimal" | "text" | "emails";
+  unit?: string;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  defaultValue: SettingValue;
+  value: SettingValue;
+};
+
+type SettingChange = {
+  id: string;
+  key: string;
+  previousValue: SettingValue | null;
+  value: SettingValue;
+  createdAt: string;
+  changedBy: { id: string; name: string | null; email: string | null };
+};
+
+function toDraft(setting: Setting, value: SettingValue) {
+  return setting.input === "emails" && Array.isArray(value) ? value.join("\n") : String(value);
+}
+
+function formatValue(value: SettingValue | null) {
+  if (value === null) return "padrão";
+  return Array.isArray(value) ? value.join(", ") || "(nenhum)" : String(value);
+}
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<Setting[]>([]);
+  const [changes, setChanges] = useState<SettingChange[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const applyResponse = (data: { settings: Setting[]; changes: SettingChange[] }) => {
+    setSettings(data.settings);
+    setChanges(data.changes);
+    setDrafts(Object.fromEntries(data.settings.map((setting) => [setting.key, toDraft(setting, setting.value)])));
+  };
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin/settings");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar configurações");
+      }
+      applyResponse(data);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar configurações");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changedKeys = settings
+    .filter((setting) => drafts[setting.key] !== toDraft(setting, setting.value))
+    .map((setting) => setting.key);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (changedKeys.length === 0) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch("/api/admin/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(Object.fromEntries(changedKeys.map((key) => [key, drafts[key]]))),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao salvar configurações");
+      }
+
+      applyResponse(data);
+      toast.success("Configurações salvas");
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar configurações");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelFor = (key: string) => settings.find((setting) => setting.key === key)?.label ?? key;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Configurações</h1>
+        <p className="text-sm text-gray-500">
+          As alterações valem para toda a plataforma em até um minuto.
+        </p>
+      </div>
+
+      <form onSubmit={handleSave} className="bg-white rounded-lg shadow p-6 space-y-6">
+        {settings.map((setting) => (
+          <div key={setting.key} className="space-y-1">
+            <Label htmlFor={setting.key}>{setting.label}</Label>
+            <p className="text-xs text-gray-500">{setting.description}</p>
+            {setting.input === "emails" ? (
+              <Textarea
+                id={setting.key}
+                rows={3}
+                placeholder="Um e-mail por linha"
+                value={drafts[setting.key] ?? ""}
+                onChange={(e) => setDrafts({ ...drafts, [setting.key]: e.target.value })}
+              />
+            ) : (
+              <div className="flex items-center gap-2">
+                <Input
+                  id={setting.key}
+                  className="max-w-xs"
+                  type={setting.input === "text" ? "text" : "number"}
+                  step={setting.input === "decimal" ? "0.1" : "1"}
+                  min={setting.min}
+                  max={setting.max}
+                  maxLength={setting.maxLength}
+                  value={drafts[setting.key] ?? ""}
+                  onChange={(e) => setDrafts({ ...drafts, [setting.key]: e.target.value })}
+                />
+                {setting.unit && <span className="text-sm text-gray-500">{setting.unit}</span>}
+              </div>
+            )}
+            <p className="text-xs text-gray-400">Padrão: {formatValue(setting.defaultValue)}</p>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={saving || changedKeys.length === 0}>
+            {saving ? "Salvando..." : "Salvar alterações"}
+          </Button>
+          <Button type="button" variant="outline" disabled={saving || changedKeys.length === 0} onClick={fetchSettings}>
+            Descartar
+          </Button>
+        </div>
+      </form>
+
+      <section className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Histórico de alterações</h2>
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma alteração registrada.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {changes.map((change) => (
+              <li key={change.id} className="p-3">
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{labelFor(change.key)}</span>: {formatValue(change.previousValue)} →{" "}
+                  {formatValue(change.value)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {change.changedBy.name ?? change.changedBy.email} ·{" "}
+                  {new Date(change.createdAt).toLocaleString("pt-BR")}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
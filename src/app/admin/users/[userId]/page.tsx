@@ -0,0 +1,417 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "react-hot-toast";
+import { formatPrice } from "@/lib/price";
+import { hasPermission, ROLE_LABELS } from "@/lib/roles";
+
+type Role = keyof typeof ROLE_LABELS;
+
+type UserEnrollment = {
+  id: string;
+  startDate: string;
+  endDate: string | null;
+  course: { id: string; title: string } | null;
+  journey: { id: string; title: string } | null;
+  grantedBy: { name: string | null; email: string | null } | null;
+};
+
+type UserPayment = {
+  id: string;
+  mpPaymentId: string;
+  status: string;
+  amount: number;
+  createdAt: string;
+  items: { id: string; title: string; price: number; refundItem: { amount: number } | null }[];
+  refunds: {
+    id: string;
+    amount: number;
+    reason: string | null;
+    createdAt: string;
+    issuedBy: { name: string | null; email: string | null } | null;
+  }[];
+};
+
+type UserDetails = {
+  id: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+  role: Role;
+  emailVerified: string | null;
+  disabledAt: string | null;
+  disabledReason: string | null;
+  createdAt: string;
+  twoFactorEnabled: boolean;
+  hasPassword: boolean;
+  providers: string[];
+  enrollments: UserEnrollment[];
+  payments: UserPayment[];
+};
+
+type CourseOption = {
+  id: string;
+  title: string;
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString("pt-BR");
+
+const isActive = (enrollment: UserEnrollment) =>
+  !enrollment.endDate || new Date(enrollment.endDate) > new Date();
+
+export default function UserDetailsPage() {
+  const params = useParams();
+  const userId = params.userId as string;
+  const { data: session } = useSession();
+  const [user, setUser] = useState<UserDetails | null>(null);
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [disableReason, setDisableReason] = useState("");
+  const [grantCourseId, setGrantCourseId] = useState("");
+  const [grantEndDate, setGrantEndDate] = useState("");
+  const [grantLifetime, setGrantLifetime] = useState(true);
+
+  const isSelf = session?.user?.id === userId;
+
+  useEffect(() => {
+    fetchUser();
+  }, [userId]);
+
+  useEffect(() => {
+    fetch("/api/courses?managed=true")
+      .then((response) => response.json())
+      .then((data) => setCourses(Array.isArray(data) ? data : []))
+      .catch((error) => console.error("Error fetching courses:", error));
+  }, []);
+
+  const fetchUser = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/users/${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar usuário");
+      }
+      setUser(data);
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar usuário");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUser = async (body: object, successMessage: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao atualizar usuário");
+      }
+
+      toast.success(successMessage);
+      setDisableReason("");
+      await fetchUser();
+    } catch (error) {
+      console.error("Error updating user:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar usuário");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = (role: Role) => {
+    if (!user || role === user.role) return;
+    if (!confirm(`Alterar o papel de ${user.name ?? user.email} para ${ROLE_LABELS[role]}? Ele precisará entrar novamente.`)) return;
+    updateUser({ role }, "Papel alterado");
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm("Desativar a conta? O usuário será desconectado e não poderá entrar.")) return;
+    updateUser({ disabled: true, reason: disableReason }, "Conta desativada");
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/users/${userId}/enrollments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ courseId: grantCourseId, endDate: grantLifetime ? null : grantEndDate }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao liberar acesso");
+      }
+
+      toast.success("Acesso liberado");
+      setGrantCourseId("");
+      setGrantEndDate("");
+      setGrantLifetime(true);
+      await fetchUser();
+    } catch (error) {
+      console.error("Error granting access:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao liberar acesso");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (enrollment: UserEnrollment) => {
+    const title = enrollment.course?.title ?? enrollment.journey?.title;
+    if (!confirm(`Revogar o acesso a "${title}"? Certificados sem outro acesso também serão revogados.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/enrollments/${enrollment.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao revogar acesso");
+      }
+
+      toast.success("Acesso revogado");
+      await fetchUser();
+    } catch (error) {
+      console.error("Error revoking enrollment:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao revogar acesso");
+    }
+  };
+
+  if (loading && !user) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <p className="text-gray-500">Usuário não encontrado.</p>
+        <Link href="/admin/users" className="text-sm text-indigo-600 hover:text-indigo-900">
+          Voltar para usuários
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <Link href="/admin/users" className="text-sm text-indigo-600 hover:text-indigo-900">
+          ← Usuários
+        </Link>
+        <div className="flex items-center gap-4 mt-4">
+          {user.image ? (
+            <img src={user.image} alt="" className="h-14 w-14 rounded-full" />
+          ) : (
+            <div className="h-14 w-14 rounded-full bg-gray-200" />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold">{user.name ?? user.email}</h1>
+            <p className="text-sm text-gray-500">{user.email}</p>
+          </div>
+        </div>
+      </div>
+
+      <section className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Conta</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Cadastro</dt>
+            <dd>{formatDate(user.createdAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">E-mail</dt>
+            <dd>{user.emailVerified ? `Confirmado em ${formatDate(user.emailVerified)}` : "Não confirmado"}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Login</dt>
+            <dd>
+              {[...(user.hasPassword ? ["senha"] : []), ...user.providers].join(", ") || "-"}
+              {user.twoFactorEnabled ? " · 2FA ativo" : ""}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="space-y-2">
+          <Label htmlFor="role">Papel</Label>
+          {hasPermission(session?.user?.role, "role:manage") && !isSelf ? (
+            <select
+              id="role"
+              className="h-10 w-full md:w-64 rounded-md border border-input bg-background px-3 text-sm"
+              value={user.role}
+              disabled={saving}
+              onChange={(e) => handleRoleChange(e.target.value as Role)}
+            >
+              {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p id="role" className="text-sm">
+              {ROLE_LABELS[user.role] ?? user.role}
+            </p>
+          )}
+        </div>
+
+        {!isSelf &&
+          (user.disabledAt ? (
+            <div className="rounded-md border border-red-200 bg-red-50 p-4 space-y-2">
+              <p className="text-sm text-red-800">
+                Conta desativada em {formatDate(user.disabledAt)}
+                {user.disabledReason ? `: ${user.disabledReason}` : ""}
+              </p>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saving}
+                onClick={() => updateUser({ disabled: false }, "Conta reativada")}
+              >
+                Reativar conta
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleDisable} className="flex gap-2">
+              <Input
+                placeholder="Motivo da desativação"
+                value={disableReason}
+                onChange={(e) => setDisableReason(e.target.value)}
+                required
+              />
+              <Button type="submit" variant="destructive" disabled={saving || !disableReason.trim()}>
+                Desativar conta
+              </Button>
+            </form>
+          ))}
+      </section>
+
+      <section className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Matrículas</h2>
+
+        <form onSubmit={handleGrant} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-center">
+          <select
+            className="md:col-span-2 h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={grantCourseId}
+            onChange={(e) => setGrantCourseId(e.target.value)}
+            required
+          >
+            <option value="">Selecione o curso</option>
+            {courses.map((course) => (
+              <option key={course.id} value={course.id}>
+                {course.title}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              id="lifetime"
+              type="checkbox"
+              checked={grantLifetime}
+              onChange={(e) => setGrantLifetime(e.target.checked)}
+            />
+            <label htmlFor="lifetime">Vitalício</label>
+            {!grantLifetime && (
+              <Input
+                type="date"
+                value={grantEndDate}
+                onChange={(e) => setGrantEndDate(e.target.value)}
+                required
+              />
+            )}
+          </div>
+          <Button type="submit" disabled={saving || !grantCourseId}>
+            Liberar acesso
+          </Button>
+        </form>
+
+        {user.enrollments.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma matrícula.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {user.enrollments.map((enrollment) => (
+              <li key={enrollment.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {enrollment.course?.title ?? enrollment.journey?.title}
+                    {enrollment.journey && <span className="text-xs text-gray-500"> (jornada)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Desde {formatDate(enrollment.startDate)} ·{" "}
+                    {enrollment.endDate
+                      ? `${isActive(enrollment) ? "até" : "encerrada em"} ${formatDate(enrollment.endDate)}`
+                      : "vitalício"}
+                    {enrollment.grantedBy &&
+                      ` · liberado por ${enrollment.grantedBy.name ?? enrollment.grantedBy.email}`}
+                  </p>
+                </div>
+                {isActive(enrollment) ? (
+                  <Button size="sm" variant="outline" onClick={() => handleRevoke(enrollment)}>
+                    Revogar
+                  </Button>
+                ) : (
+                  <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                    Encerrada
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold">Pagamentos</h2>
+
+        {user.payments.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum pagamento.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {user.payments.map((payment) => (
+              <li key={payment.id} className="p-3 space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatPrice(payment.amount)} · {payment.status}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(payment.createdAt).toLocaleString("pt-BR")} · MP {payment.mpPaymentId}
+                  </p>
+                </div>
+                {payment.items.map((item) => (
+                  <p key={item.id} className={`text-xs text-gray-500 ${item.refundItem ? "line-through" : ""}`}>
+                    {item.title} — {formatPrice(item.price)}
+                  </p>
+                ))}
+                {payment.refunds.map((refund) => (
+                  <p key={refund.id} className="text-xs text-red-600">
+                    -{formatPrice(refund.amount)} reembolsado em {formatDate(refund.createdAt)}
+                    {refund.reason ? ` — ${refund.reason}` : ""}
+                    {refund.issuedBy ? ` (${refund.issuedBy.name ?? refund.issuedBy.email})` : ""}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "react-hot-toast";
+import { ROLE_LABELS } from "@/lib/roles";
+
+type AdminUser = {
+  id: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+  role: keyof typeof ROLE_LABELS;
+  emailVerified: string | null;
+  disabledAt: string | null;
+  createdAt: string;
+  _count: { enrollments: number; payments: number };
+};
+
+type Filters = {
+  q: string;
+  role: string;
+  status: string;
+};
+
+const emptyFilters: Filters = { q: "", role: "", status: "" };
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [page]);
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      const query = new URLSearchParams({ page: page.toString() });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) query.set(key, value);
+      });
+
+      const response = await fetch(`/api/admin/users?${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar usuários");
+      }
+
+      setUsers(data.users);
+      setTotal(data.total);
+      setTotalPages(data.totalPages);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar usuários");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      fetchUsers();
+    } else {
+      setPage(1);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold">Usuários</h1>
+      </div>
+
+      <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <Input
+          className="md:col-span-2"
+          placeholder="Nome ou email"
+          value={filters.q}
+          onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+        />
+        <select
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          value={filters.role}
+          onChange={(e) => setFilters({ ...filters, role: e.target.value })}
+        >
+          <option value="">Todos os papéis</option>
+          {Object.entries(ROLE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          value={filters.status}
+          onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+        >
+          <option value="">Todas as contas</option>
+          <option value="active">Ativas</option>
+          <option value="disabled">Desativadas</option>
+        </select>
+        <div className="md:col-span-4 flex gap-2">
+          <Button type="submit">Buscar</Button>
+          <Button type="button" variant="outline" onClick={() => setFilters(emptyFilters)}>
+            Limpar filtros
+          </Button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-gray-500">Nenhum usuário encontrado.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Usuário
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Papel
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Matrículas
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pagamentos
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cadastro
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Link href={`/admin/users/${user.id}`} className="flex items-center gap-3">
+                      {user.image ? (
+                        <img src={user.image} alt="" className="h-8 w-8 rounded-full" />
+                      ) : (
+                        <div className="h-8 w-8 rounded-full bg-gray-200" />
+                      )}
+                      <div>
+                        <div className="text-sm font-medium text-indigo-600 hover:text-indigo-900">
+                          {user.name ?? "-"}
+                        </div>
+                        <div className="text-xs text-gray-500">{user.email}</div>
+                      </div>
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {ROLE_LABELS[user.role] ?? user.role}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user._count.enrollments}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user._count.payments}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {user.disabledAt ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        Desativada
+                      </span>
+                    ) : (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                        Ativa
+                      </span>
+                    )}
+                    {!user.emailVerified && (
+                      <div className="text-xs text-gray-400 mt-1">E-mail não confirmado</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(user.createdAt).toLocaleDateString("pt-BR")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-500">
+        <span>{total} usuário(s)</span>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Anterior
+          </Button>
+          <span>
+            Página {page} de {totalPages}
+          </span>
+          <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Próxima
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
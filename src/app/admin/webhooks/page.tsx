@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "react-hot-toast";
+
+type WebhookEvent = {
+  id: string;
+  eventId: string;
+  type: string;
+  action: string | null;
+  dataId: string;
+  status: "PENDING" | "PROCESSING" | "PROCESSED" | "FAILED" | "DEAD";
+  attempts: number;
+  lastError: string | null;
+  result: string | null;
+  nextAttemptAt: string;
+  processedAt: string | null;
+  createdAt: string;
+};
+
+const statusFilters = [
+  { value: "", label: "Com falha" },
+  { value: "PENDING", label: "Pendentes" },
+  { value: "PROCESSED", label: "Processados" },
+  { value: "DEAD", label: "Descartados" },
+];
+
+const statusStyles: Record<WebhookEvent["status"], string> = {
+  PENDING: "bg-gray-100 text-gray-800",
+  PROCESSING: "bg-blue-100 text-blue-800",
+  PROCESSED: "bg-green-100 text-green-800",
+  FAILED: "bg-yellow-100 text-yellow-800",
+  DEAD: "bg-red-100 text-red-800",
+};
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString("pt-BR") : "-";
+}
+
+export default function WebhooksPage() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [status, setStatus] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [status]);
+
+  const fetchEvents = async () => {
+    try {
+      setLoading(true);
+      const query = status ? `?status=${status}` : "";
+      const response = await fetch(`/api/admin/webhook-events${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao carregar eventos");
+      }
+      setEvents(data);
+    } catch (error) {
+      console.error("Error fetching webhook events:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao carregar eventos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async (id: string) => {
+    try {
+      setReplaying(id);
+      const response = await fetch(`/api/admin/webhook-events/${id}/replay`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Falha ao reprocessar evento");
+      }
+
+      if (data?.status === "PROCESSED") {
+        toast.success("Evento reprocessado com sucesso");
+      } else {
+        toast.error(`Evento falhou novamente: ${data?.lastError ?? "erro desconhecido"}`);
+      }
+
+      await fetchEvents();
+    } catch (error) {
+      console.error("Error replaying webhook event:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao reprocessar evento");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold">Webhooks</h1>
+        <Button variant="outline" onClick={fetchEvents}>
+          Atualizar
+        </Button>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {statusFilters.map((filter) => (
+          <Button
+            key={filter.value}
+            variant={status === filter.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatus(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-gray-500">Nenhum evento encontrado.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Evento
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pagamento
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tentativas
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Último erro
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Recebido em
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ações
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {events.map((event) => (
+                <tr key={event.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{event.type}</div>
+                    <div className="text-xs text-gray-500">{event.action ?? event.eventId}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {event.dataId || "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusStyles[event.status]}`}
+                    >
+                      {event.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {event.attempts}
+                    {event.status === "FAILED" && (
+                      <div className="text-xs text-gray-400">
+                        próxima: {formatDate(event.nextAttemptAt)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate" title={event.lastError ?? ""}>
+                    {event.lastError ?? event.result ?? "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(event.createdAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={replaying === event.id || event.status === "PROCESSING"}
+                      onClick={() => handleReplay(event.id)}
+                    >
+                      {replaying === event.id ? "Reprocessando..." : "Reprocessar"}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { isSocialProvider } from "@/lib/credentials";
+import {
+  LINK_INTENT_COOKIE,
+  REAUTH_WINDOW_MS,
+  createLinkIntent,
+  getSignInMethods,
+  isRecentlyAuthenticated,
+  reauthRequiredError,
+} from "@/lib/account-security";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Autoriza vincular um provedor: { provider }. Em seguida o cliente inicia o
+ * login social, que é vinculado à conta da sessão.
+ */
+export const POST = withAuth({}, async (request, { user }) => {
+  const { provider } = await request.json().catch(() => ({}));
+  if (!isSocialProvider(provider)) {
+    return NextResponse.json({ error: "Provedor inválido" }, { status: 400 });
+  }
+
+  if (!isRecentlyAuthenticated(user.authTime)) {
+    return NextResponse.json(reauthRequiredError, { status: 403 });
+  }
+
+  try {
+    const methods = await getSignInMethods(user.id);
+    if (methods?.providers.some((account) => account.provider === provider)) {
+      return NextResponse.json({ error: "Este provedor já está vinculado" }, { status: 409 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(LINK_INTENT_COOKIE, createLinkIntent(user.id, provider), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: REAUTH_WINDOW_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error preparing account link:", error);
+    return NextResponse.json({ error: "Erro ao vincular provedor" }, { status: 500 });
+  }
+});
@@ -0,0 +1,58 @@
+import { compare } from "bcryptjs";
+import { NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import prisma from "@/lib/prisma";
+import { changePasswordSchema } from "@/lib/credentials";
+import { hashPassword } from "@/lib/user-tokens";
+import { isRecentlyAuthenticated, reauthRequiredError, setSessionToken } from "@/lib/account-security";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Cria ou troca a senha: { currentPassword?, password }. Quem já tem senha
+ * confirma a atual; quem só entra por provedor social precisa de login recente.
+ * As outras sessões são encerradas e a atual é reemitida com a nova versão.
+ */
+export const PUT = withAuth({}, async (request, { user }) => {
+  const parsed = changePasswordSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+  }
+
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (!token) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const userId = user.id;
+    const current = await prisma.userPassword.findUnique({ where: { userId } });
+
+    if (current) {
+      const ok = !!parsed.data.currentPassword && (await compare(parsed.data.currentPassword, current.hash));
+      if (!ok) {
+        return NextResponse.json({ error: "Senha atual incorreta", code: "INVALID_PASSWORD" }, { status: 400 });
+      }
+    } else if (!isRecentlyAuthenticated(user.authTime)) {
+      return NextResponse.json(reauthRequiredError, { status: 403 });
+    }
+
+    const passwordHash = await hashPassword(parsed.data.password);
+    const [, { tokenVersion }] = await prisma.$transaction([
+      prisma.userPassword.upsert({
+        where: { userId },
+        create: { userId, hash: passwordHash },
+        update: { hash: passwordHash },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { tokenVersion: { increment: 1 } },
+        select: { tokenVersion: true },
+      }),
+    ]);
+
+    return setSessionToken(NextResponse.json({ success: true }), { ...token, tokenVersion });
+  } catch (error) {
+    console.error("Error changing password:", error);
+    return NextResponse.json({ error: "Erro ao salvar a senha" }, { status: 500 });
+  }
+});
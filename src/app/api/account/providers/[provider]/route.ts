@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { isSocialProvider } from "@/lib/credentials";
+import { getSignInMethods, isRecentlyAuthenticated, reauthRequiredError } from "@/lib/account-security";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Desvincula um provedor. A conta precisa manter ao menos uma forma de login.
+ */
+export const DELETE = withAuth<{ provider: string }>({}, async (request, { user, params }) => {
+  const { provider } = params;
+  if (!isSocialProvider(provider)) {
+    return NextResponse.json({ error: "Provedor inválido" }, { status: 400 });
+  }
+
+  if (!isRecentlyAuthenticated(user.authTime)) {
+    return NextResponse.json(reauthRequiredError, { status: 403 });
+  }
+
+  try {
+    const methods = await getSignInMethods(user.id);
+    if (!methods?.providers.some((account) => account.provider === provider)) {
+      return NextResponse.json({ error: "Provedor não vinculado" }, { status: 404 });
+    }
+
+    const otherProviders = methods.providers.filter((account) => account.provider !== provider);
+    if (!methods.hasPassword && otherProviders.length === 0) {
+      return NextResponse.json(
+        { error: "Defina uma senha ou vincule outro provedor antes de remover este", code: "LAST_SIGN_IN_METHOD" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.account.deleteMany({
+      where: { userId: user.id, provider },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unlinking provider:", error);
+    return NextResponse.json({ error: "Erro ao desvincular provedor" }, { status: 500 });
+  }
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { REAUTH_WINDOW_MS, getSignInMethods, isRecentlyAuthenticated } from "@/lib/account-security";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Dados da página /conta: formas de login e se a sessão ainda permite
+ * ações sensíveis sem reautenticar.
+ */
+export const GET = withAuth({}, async (request, { user: sessionUser }) => {
+  try {
+    const [user, methods] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: sessionUser.id },
+        select: { name: true, email: true, image: true },
+      }),
+      getSignInMethods(sessionUser.id),
+    ]);
+    if (!user || !methods) {
+      return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+    }
+
+    const authTime = sessionUser.authTime ?? null;
+
+    return NextResponse.json({
+      ...user,
+      hasPassword: methods.hasPassword,
+      passwordUpdatedAt: methods.passwordUpdatedAt,
+      providers: methods.providers.map((account) => ({
+        provider: account.provider,
+        linkedAt: account.createdAt,
+      })),
+      authTime,
+      recentlyAuthenticated: isRecentlyAuthenticated(sessionUser.authTime),
+      reauthExpiresAt: authTime ? authTime + REAUTH_WINDOW_MS : null,
+    });
+  } catch (error) {
+    console.error("Error fetching account:", error);
+    return NextResponse.json({ error: "Erro ao carregar a conta" }, { status: 500 });
+  }
+});
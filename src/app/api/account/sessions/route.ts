@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import prisma from "@/lib/prisma";
+import { setSessionToken } from "@/lib/account-security";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Sai das outras sessões: a versão dos tokens da conta é incrementada e
+ * só a sessão atual, reemitida com a nova versão, continua ativa.
+ */
+export const DELETE = withAuth({}, async (req, { user }) => {
+  const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+  if (!token) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { tokenVersion } = await prisma.user.update({
+      where: { id: user.id },
+      data: { tokenVersion: { increment: 1 } },
+      select: { tokenVersion: true },
+    });
+
+    return setSessionToken(NextResponse.json({ success: true }), { ...token, tokenVersion });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return NextResponse.json({ error: "Erro ao encerrar as sessões" }, { status: 500 });
+  }
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { generateRecoveryCodes, verifyTwoFactorCode } from "@/lib/two-factor";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Gera novos códigos de recuperação: { code }. Os anteriores deixam de valer.
+ */
+export const POST = withAuth({}, async (request, { user }) => {
+  const { code } = (await request.json().catch(() => ({}))) as { code?: string };
+  if (typeof code !== "string" || !code.trim()) {
+    return NextResponse.json({ error: "Informe o código" }, { status: 400 });
+  }
+
+  try {
+    const result = await verifyTwoFactorCode(user.id, code.trim());
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ recoveryCodes: await generateRecoveryCodes(user.id) });
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    return NextResponse.json({ error: "Erro ao gerar os códigos de recuperação" }, { status: 500 });
+  }
+});
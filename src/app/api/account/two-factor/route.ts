@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { isRecentlyAuthenticated, reauthRequiredError } from "@/lib/account-security";
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  startTwoFactorSetup,
+  verifyTwoFactorCode,
+} from "@/lib/two-factor";
+import { withAuth } from "@/lib/with-auth";
+
+async function readCode(request: Request) {
+  const { code } = (await request.json().catch(() => ({}))) as { code?: string };
+  return typeof code === "string" ? code.trim() : "";
+}
+
+export const GET = withAuth({}, async (request, { user }) => {
+  try {
+    const status = await getTwoFactorStatus(user.id);
+    return NextResponse.json({ ...status, required: isTwoFactorRequired(user.role) });
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    return NextResponse.json({ error: "Erro ao carregar a verificação em duas etapas" }, { status: 500 });
+  }
+});
+
+/**
+ * Inicia a ativação: devolve o segredo, a URI otpauth e o QR code.
+ */
+export const POST = withAuth({}, async (request, { user: sessionUser }) => {
+  if (!isRecentlyAuthenticated(sessionUser.authTime)) {
+    return NextResponse.json(reauthRequiredError, { status: 403 });
+  }
+
+  try {
+    const [user, status] = await Promise.all([
+      prisma.user.findUnique({ where: { id: sessionUser.id }, select: { email: true } }),
+      getTwoFactorStatus(sessionUser.id),
+    ]);
+    if (!user?.email) {
+      return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+    }
+    if (status.enabled) {
+      return NextResponse.json({ error: "A verificação em duas etapas já está ativa" }, { status: 409 });
+    }
+
+    return NextResponse.json(await startTwoFactorSetup(sessionUser.id, user.email));
+  } catch (error) {
+    console.error("Error starting two-factor setup:", error);
+    return NextResponse.json({ error: "Erro ao configurar a verificação em duas etapas" }, { status: 500 });
+  }
+});
+
+/**
+ * Confirma a ativação com o primeiro código do app: { code }.
+ */
+export const PUT = withAuth({}, async (request, { user }) => {
+  const code = await readCode(request);
+  if (!code) {
+    return NextResponse.json({ error: "Informe o código" }, { status: 400 });
+  }
+
+  try {
+    const result = await confirmTwoFactorSetup(user.id, code);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error("Error confirming two-factor setup:", error);
+    return NextResponse.json({ error: "Erro ao ativar a verificação em duas etapas" }, { status: 500 });
+  }
+});
+
+/**
+ * Desativa o 2FA: { code }. A equipe não pode desativar.
+ */
+export const DELETE = withAuth({}, async (request, { user }) => {
+  if (isTwoFactorRequired(user.role)) {
+    return NextResponse.json(
+      { error: "A verificação em duas etapas é obrigatória para a sua conta" },
+      { status: 403 }
+    );
+  }
+
+  const code = await readCode(request);
+  if (!code) {
+    return NextResponse.json({ error: "Informe o código" }, { status: 400 });
+  }
+
+  try {
+    const result = await verifyTwoFactorCode(user.id, code);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await disableTwoFactor(user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error disabling two-factor:", error);
+    return NextResponse.json({ error: "Erro ao desativar a verificação em duas etapas" }, { status: 500 });
+  }
+});
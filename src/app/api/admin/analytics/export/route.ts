@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { AnalyticsError, getAnalyticsReport, parseAnalyticsFilters, toCsv } from "@/lib/analytics";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Exporta uma tabela dos relatórios em CSV: table (nome da tabela) mais os
+ * filtros de /api/admin/analytics.
+ */
+export const GET = withAuth({ permission: "report:view" }, async (req) => {
+  const { searchParams } = new URL(req.url);
+
+  try {
+    const filters = parseAnalyticsFilters(searchParams);
+    const table = (await getAnalyticsReport(filters)).find((item) => item.name === searchParams.get("table"));
+    if (!table) {
+      return NextResponse.json({ error: "Relatório não encontrado" }, { status: 404 });
+    }
+
+    const period = `${searchParams.get("from") ?? ""}_${searchParams.get("to") ?? ""}`.replace(/^_$/, "");
+    return new NextResponse(toCsv(table), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${table.name}${period ? `_${period}` : ""}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AnalyticsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error exporting analytics:", error);
+    return NextResponse.json({ error: "Erro ao exportar relatório" }, { status: 500 });
+  }
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { AnalyticsError, getAnalyticsReport, parseAnalyticsFilters } from "@/lib/analytics";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Relatórios de vendas e engajamento. Filtros: from, to (AAAA-MM-DD) e courseId.
+ */
+export const GET = withAuth({ permission: "report:view" }, async (req) => {
+  try {
+    const filters = parseAnalyticsFilters(new URL(req.url).searchParams);
+    return NextResponse.json({ tables: await getAnalyticsReport(filters) });
+  } catch (error) {
+    if (error instanceof AnalyticsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching analytics:", error);
+    return NextResponse.json({ error: "Erro ao carregar relatórios" }, { status: 500 });
+  }
+});
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { revokeBan } from "@/lib/forum-moderation";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Encerra uma suspensão antes do prazo.
+ */
+export const DELETE = withAuth<{ banId: string }>({ permission: "forum:moderate" }, async (request, { user, params }) => {
+  try {
+    const { banId } = params;
+
+    const ban = await prisma.forumBan.findUnique({ where: { id: banId }, select: { revokedAt: true } });
+    if (!ban || ban.revokedAt) {
+      return NextResponse.json({ error: "Suspensão não encontrada" }, { status: 404 });
+    }
+
+    const revoked = await revokeBan(banId, user.id);
+    return NextResponse.json(revoked);
+  } catch (error) {
+    console.error("Error revoking forum ban:", error);
+    return NextResponse.json({ error: "Erro ao encerrar suspensão" }, { status: 500 });
+  }
+});
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { can } from "@/lib/permissions";
+import { MAX_BAN_DAYS, banUser } from "@/lib/forum-moderation";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Suspensões em vigor.
+ */
+export const GET = withAuth({ permission: "forum:moderate" }, async () => {
+  try {
+    const bans = await prisma.forumBan.findMany({
+      where: { revokedAt: null, expiresAt: { gt: new Date() } },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { expiresAt: "asc" },
+    });
+
+    return NextResponse.json(bans);
+  } catch (error) {
+    console.error("Error fetching forum bans:", error);
+    return NextResponse.json({ error: "Erro ao carregar suspensões" }, { status: 500 });
+  }
+});
+
+/**
+ * Suspende um usuário de publicar no fórum: { email, days, reason }.
+ */
+export const POST = withAuth({ permission: "forum:moderate" }, async (request, { user: moderator }) => {
+  try {
+    const { email, days, reason } = await request.json().catch(() => ({})) as {
+      email?: string;
+      days?: number;
+      reason?: string;
+    };
+
+    if (!reason?.trim()) {
+      return NextResponse.json({ error: "Informe o motivo da suspensão" }, { status: 400 });
+    }
+    if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_BAN_DAYS) {
+      return NextResponse.json({ error: `A suspensão deve ter entre 1 e ${MAX_BAN_DAYS} dias` }, { status: 400 });
+    }
+
+    const user = email
+      ? await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() }, select: { id: true, role: true } })
+      : null;
+    if (!user) {
+      return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+    }
+    if (await can(user, "forum:moderate")) {
+      return NextResponse.json({ error: "Não é possível suspender a equipe" }, { status: 400 });
+    }
+
+    const ban = await banUser(user.id, days, reason.trim(), moderator.id);
+    return NextResponse.json(ban, { status: 201 });
+  } catch (error) {
+    console.error("Error creating forum ban:", error);
+    return NextResponse.json({ error: "Erro ao suspender usuário" }, { status: 500 });
+  }
+});
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { FORUM_PAGE_SIZE, getPageParam } from "@/lib/forum";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Log de moderação, mais recentes primeiro.
+ */
+export const GET = withAuth({ permission: "forum:moderate" }, async (request) => {
+  try {
+    const page = getPageParam(new URL(request.url).searchParams.get("page"));
+
+    const [logs, total] = await Promise.all([
+      prisma.forumModerationLog.findMany({
+        include: { moderator: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * FORUM_PAGE_SIZE,
+        take: FORUM_PAGE_SIZE,
+      }),
+      prisma.forumModerationLog.count(),
+    ]);
+
+    return NextResponse.json({
+      logs,
+      page,
+      pageSize: FORUM_PAGE_SIZE,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / FORUM_PAGE_SIZE)),
+    });
+  } catch (error) {
+    console.error("Error fetching moderation log:", error);
+    return NextResponse.json({ error: "Erro ao carregar o log de moderação" }, { status: 500 });
+  }
+});
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { closeReport, moderatePost, softDeleteComment } from "@/lib/forum-moderation";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Fecha uma denúncia: { status: RESOLVED|DISMISSED, resolution?, removeContent? }.
+ * Com removeContent, o post denunciado é ocultado ou a resposta é removida,
+ * usando a resolução como motivo.
+ */
+export const PATCH = withAuth<{ reportId: string }>({ permission: "forum:moderate" }, async (request, { user, params }) => {
+  try {
+    const { reportId } = params;
+    const { status, resolution, removeContent } = await request.json().catch(() => ({})) as {
+      status?: string;
+      resolution?: string;
+      removeContent?: boolean;
+    };
+
+    if (status !== "RESOLVED" && status !== "DISMISSED") {
+      return NextResponse.json({ error: "Status inválido" }, { status: 400 });
+    }
+
+    const report = await prisma.forumReport.findUnique({
+      where: { id: reportId },
+      include: { comment: { select: { deletedAt: true } } },
+    });
+    if (!report) {
+      return NextResponse.json({ error: "Denúncia não encontrada" }, { status: 404 });
+    }
+    if (report.status !== "OPEN") {
+      return NextResponse.json({ error: "Esta denúncia já foi fechada" }, { status: 400 });
+    }
+
+    if (removeContent && status === "RESOLVED") {
+      const reason = resolution?.trim();
+      if (!reason) {
+        return NextResponse.json({ error: "Informe o motivo da remoção" }, { status: 400 });
+      }
+
+      if (report.commentId && !report.comment?.deletedAt) {
+        await softDeleteComment(report.commentId, user.id, { reason });
+      } else if (report.postId) {
+        await moderatePost(report.postId, "hide", user.id, reason);
+      }
+    }
+
+    const closed = await closeReport(reportId, status, user.id, resolution?.trim());
+    return NextResponse.json(closed);
+  } catch (error) {
+    console.error("Error closing forum report:", error);
+    return NextResponse.json({ error: "Erro ao fechar denúncia" }, { status: 500 });
+  }
+});
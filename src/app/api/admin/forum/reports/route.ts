@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { FORUM_PAGE_SIZE, getPageParam } from "@/lib/forum";
+import { ForumReportStatus } from "@/generated/prisma/enums";
+import { withAuth } from "@/lib/with-auth";
+
+const REPORT_STATUSES = Object.values(ForumReportStatus);
+
+/**
+ * Fila de denúncias, mais antigas primeiro. Query: status (padrão OPEN), page.
+ */
+export const GET = withAuth({ permission: "forum:moderate" }, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get("status") as ForumReportStatus | null;
+    const status = statusParam && REPORT_STATUSES.includes(statusParam) ? statusParam : "OPEN";
+    const page = getPageParam(searchParams.get("page"));
+
+    const [reports, total] = await Promise.all([
+      prisma.forumReport.findMany({
+        where: { status },
+        include: {
+          reporter: { select: { id: true, name: true, email: true } },
+          resolvedBy: { select: { id: true, name: true, email: true } },
+          post: {
+            select: {
+              id: true,
+              title: true,
+              content: true,
+              cursoId: true,
+              isHidden: true,
+              author: { select: { id: true, name: true, email: true } },
+            },
+          },
+          comment: {
+            select: {
+              id: true,
+              content: true,
+              deletedAt: true,
+              author: { select: { id: true, name: true, email: true } },
+              post: { select: { id: true, title: true, cursoId: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: status === "OPEN" ? "asc" : "desc" },
+        skip: (page - 1) * FORUM_PAGE_SIZE,
+        take: FORUM_PAGE_SIZE,
+      }),
+      prisma.forumReport.count({ where: { status } }),
+    ]);
+
+    return NextResponse.json({
+      reports,
+      page,
+      pageSize: FORUM_PAGE_SIZE,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / FORUM_PAGE_SIZE)),
+    });
+  } catch (error) {
+    console.error("Error fetching forum reports:", error);
+    return NextResponse.json({ error: "Erro ao carregar denúncias" }, { status: 500 });
+  }
+});
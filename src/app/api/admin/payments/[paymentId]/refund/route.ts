@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { refundPaymentItems, RefundError } from "@/lib/refunds";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Reembolso emitido pela equipe: ignora o prazo do comprador, mas exige um motivo.
+ */
+export const POST = withAuth<{ paymentId: string }>({ permission: "payment:refund" }, async (req, { user, params }) => {
+  const { paymentId } = params;
+  const { itemIds, reason } = await req.json().catch(() => ({})) as {
+    itemIds?: string[];
+    reason?: string;
+  };
+
+  if (!reason?.trim()) {
+    return NextResponse.json({ error: "Informe o motivo do reembolso" }, { status: 400 });
+  }
+
+  if (itemIds !== undefined && !Array.isArray(itemIds)) {
+    return NextResponse.json({ error: "itemIds deve ser uma lista" }, { status: 400 });
+  }
+
+  try {
+    const { refund, payment } = await refundPaymentItems({
+      paymentId,
+      itemIds,
+      issuedBy: { id: user.id, reason: reason.trim() },
+    });
+
+    return NextResponse.json({
+      refundId: refund.id,
+      status: refund.status,
+      amount: refund.amount,
+      paymentStatus: payment.status,
+    });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      console.error(`Reembolso rejeitado (${error.code}):`, error.message);
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    console.error("Erro ao emitir reembolso:", error);
+    return NextResponse.json({ error: "Erro interno ao processar o reembolso" }, { status: 500 });
+  }
+});
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+import { withAuth } from "@/lib/with-auth";
+
+const PAGE_SIZE = 20;
+
+/**
+ * Busca de pagamentos para o console financeiro.
+ * Filtros: q (nome/email do comprador ou id no Mercado Pago), courseId, status, from, to e page.
+ */
+export const GET = withAuth({ permission: "payment:view" }, async (req) => {
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q")?.trim();
+  const courseId = searchParams.get("courseId");
+  const status = searchParams.get("status");
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const fromDate = from ? new Date(from) : undefined;
+  // "to" é inclusivo: vai até o fim do dia informado
+  const toDate = to ? new Date(to) : undefined;
+  toDate?.setDate(toDate.getDate() + 1);
+
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return NextResponse.json({ error: "Data inválida" }, { status: 400 });
+  }
+
+  const where: Prisma.PaymentWhereInput = {
+    ...(status ? { status } : {}),
+    ...(courseId ? { items: { some: { courseId } } } : {}),
+    ...(fromDate || toDate ? { createdAt: { gte: fromDate, lt: toDate } } : {}),
+    ...(q
+      ? {
+          OR: [
+            { mpPaymentId: q },
+            { user: { email: { contains: q, mode: "insensitive" } } },
+            { user: { name: { contains: q, mode: "insensitive" } } },
+          ],
+        }
+      : {}),
+  };
+
+  const [total, payments] = await prisma.$transaction([
+    prisma.payment.count({ where }),
+    prisma.payment.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        order: { select: { id: true, status: true, method: true, installments: true } },
+        items: {
+          include: {
+            refundItem: { select: { amount: true, refundId: true } },
+            course: { select: { refundWindowDays: true } },
+          },
+        },
+        refunds: {
+          orderBy: { createdAt: "desc" },
+          include: { issuedBy: { select: { name: true, email: true } } },
+        },
+      },
+    }),
+  ]);
+
+  return NextResponse.json({
+    payments,
+    page,
+    pageSize: PAGE_SIZE,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+  });
+});
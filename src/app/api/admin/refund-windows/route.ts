@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getSetting, SETTING_DEFINITIONS } from "@/lib/settings";
+import { withAuth } from "@/lib/with-auth";
+
+// O prazo de um curso segue os mesmos limites do padrão da plataforma
+const { min: MIN_REFUND_WINDOW_DAYS, max: MAX_REFUND_WINDOW_DAYS } = SETTING_DEFINITIONS.refundWindowDays;
+
+export const GET = withAuth({ permission: "payment:refund" }, async () => {
+  const [courses, defaultDays] = await Promise.all([
+    prisma.course.findMany({
+      orderBy: { title: "asc" },
+      select: { id: true, title: true, refundWindowDays: true },
+    }),
+    getSetting("refundWindowDays"),
+  ]);
+
+  return NextResponse.json({
+    defaultDays,
+    minDays: MIN_REFUND_WINDOW_DAYS,
+    maxDays: MAX_REFUND_WINDOW_DAYS,
+    courses,
+  });
+});
+
+/**
+ * Define o prazo de reembolso de um curso. refundWindowDays null volta ao padrão.
+ */
+export const PATCH = withAuth({ permission: "payment:refund" }, async (req) => {
+  const { courseId, refundWindowDays } = await req.json() as {
+    courseId?: string;
+    refundWindowDays?: number | null;
+  };
+
+  if (!courseId) {
+    return NextResponse.json({ error: "courseId é obrigatório" }, { status: 400 });
+  }
+
+  if (
+    refundWindowDays !== null &&
+    (!Number.isInteger(refundWindowDays) || refundWindowDays! < MIN_REFUND_WINDOW_DAYS || refundWindowDays! > MAX_REFUND_WINDOW_DAYS)
+  ) {
+    return NextResponse.json(
+      { error: `O prazo deve ser um número inteiro entre ${MIN_REFUND_WINDOW_DAYS} e ${MAX_REFUND_WINDOW_DAYS} dias` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const course = await prisma.course.update({
+      where: { id: courseId },
+      data: { refundWindowDays },
+      select: { id: true, title: true, refundWindowDays: true },
+    });
+
+    return NextResponse.json(course);
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "Curso não encontrado" }, { status: 404 });
+    }
+    console.error("Erro ao atualizar prazo de reembolso:", error);
+    return NextResponse.json({ error: "Erro ao atualizar prazo" }, { status: 500 });
+  }
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import {
+  SettingsError,
+  getSettingChanges,
+  getSettingDefinitions,
+  getSettings,
+  updateSettings,
+} from "@/lib/settings";
+import { withAuth } from "@/lib/with-auth";
+
+async function settingsResponse() {
+  const [settings, changes] = await Promise.all([getSettings(), getSettingChanges()]);
+  return NextResponse.json({
+    settings: getSettingDefinitions().map((definition) => ({ ...definition, value: settings[definition.key] })),
+    changes,
+  });
+}
+
+/**
+ * Configurações da plataforma com os valores atuais e o histórico de alterações.
+ */
+export const GET = withAuth({ permission: "settings:manage" }, async () => {
+  try {
+    return await settingsResponse();
+  } catch (error) {
+    console.error("Error fetching settings:", error);
+    return NextResponse.json({ error: "Erro ao carregar configurações" }, { status: 500 });
+  }
+});
+
+/**
+ * Altera configurações: { [chave]: valor }. Cada mudança entra no histórico.
+ */
+export const PATCH = withAuth({ permission: "settings:manage" }, async (req, { user }) => {
+  const changes = await req.json().catch(() => null);
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+    return NextResponse.json({ error: "Nenhuma configuração informada" }, { status: 400 });
+  }
+
+  try {
+    await updateSettings(changes, user.id);
+    return await settingsResponse();
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating settings:", error);
+    return NextResponse.json({ error: "Erro ao salvar configurações" }, { status: 500 });
+  }
+});
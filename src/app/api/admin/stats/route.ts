@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getAdminStats } from "@/lib/admin-stats";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Números da visão geral do painel (/admin).
+ */
+export const GET = withAuth({ permission: "report:view" }, async () => {
+  try {
+    return NextResponse.json(await getAdminStats());
+  } catch (error) {
+    console.error("Error fetching admin stats:", error);
+    return NextResponse.json({ error: "Erro ao carregar os números do painel" }, { status: 500 });
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { revokeEnrollment } from "@/lib/admin-users";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Revoga o acesso de uma matrícula (curso ou jornada) a partir de agora.
+ */
+export const DELETE = withAuth<{ userId: string; enrollmentId: string }>({ permission: "user:manage" }, async (req, { user: admin, params }) => {
+  try {
+    const enrollment = await prisma.enrollment.findFirst({
+      where: { id: params.enrollmentId, userId: params.userId },
+      select: { id: true, endDate: true },
+    });
+    if (!enrollment) {
+      return NextResponse.json({ error: "Matrícula não encontrada" }, { status: 404 });
+    }
+    if (enrollment.endDate && enrollment.endDate <= new Date()) {
+      return NextResponse.json({ error: "Este acesso já está encerrado" }, { status: 400 });
+    }
+
+    const revoked = await revokeEnrollment(enrollment.id, admin.id);
+    return NextResponse.json({ id: revoked.id, endDate: revoked.endDate });
+  } catch (error) {
+    console.error("Error revoking enrollment:", error);
+    return NextResponse.json({ error: "Erro ao revogar acesso" }, { status: 500 });
+  }
+});
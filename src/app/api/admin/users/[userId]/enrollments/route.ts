@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { grantCourseAccess } from "@/lib/admin-users";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Libera o acesso a um curso: { courseId, endDate }. endDate (AAAA-MM-DD)
+ * é o último dia de acesso; null libera acesso vitalício.
+ */
+export const POST = withAuth<{ userId: string }>({ permission: "user:manage" }, async (req, { user: admin, params }) => {
+  const { courseId, endDate } = (await req.json().catch(() => ({}))) as {
+    courseId?: string;
+    endDate?: string | null;
+  };
+
+  if (!courseId) {
+    return NextResponse.json({ error: "Selecione o curso" }, { status: 400 });
+  }
+
+  // Inclusivo: o acesso vale até o fim do dia informado
+  const end = endDate ? new Date(`${endDate}T23:59:59.999`) : null;
+  if (end && (isNaN(end.getTime()) || end < new Date())) {
+    return NextResponse.json({ error: "Data de término inválida" }, { status: 400 });
+  }
+
+  try {
+    const [user, course] = await Promise.all([
+      prisma.user.findUnique({ where: { id: params.userId }, select: { id: true } }),
+      prisma.course.findUnique({ where: { id: courseId }, select: { id: true } }),
+    ]);
+    if (!user || !course) {
+      return NextResponse.json({ error: user ? "Curso não encontrado" : "Usuário não encontrado" }, { status: 404 });
+    }
+
+    const enrollment = await grantCourseAccess(user.id, course.id, end, admin.id);
+    return NextResponse.json(enrollment, { status: 201 });
+  } catch (error) {
+    console.error("Error granting course access:", error);
+    return NextResponse.json({ error: "Erro ao liberar acesso" }, { status: 500 });
+  }
+});
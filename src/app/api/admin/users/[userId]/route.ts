@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { userDisabledData } from "@/lib/admin-users";
+import { can } from "@/lib/permissions";
+import { isUserRole } from "@/lib/roles";
+import { withAuth } from "@/lib/with-auth";
+
+type UserParams = { userId: string };
+
+/**
+ * Ficha do usuário: matrículas, pagamentos e reembolsos.
+ */
+export const GET = withAuth<UserParams>({ permission: "user:manage" }, async (req, { params }) => {
+  const user = await prisma.user.findUnique({
+    where: { id: params.userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+      role: true,
+      emailVerified: true,
+      disabledAt: true,
+      disabledReason: true,
+      createdAt: true,
+      twoFactor: { select: { enabledAt: true } },
+      accounts: { select: { provider: true } },
+      passwords: { select: { id: true } },
+      enrollments: {
+        orderBy: { createdAt: "desc" },
+        include: {
+          course: { select: { id: true, title: true } },
+          journey: { select: { id: true, title: true } },
+          grantedBy: { select: { name: true, email: true } },
+        },
+      },
+      payments: {
+        orderBy: { createdAt: "desc" },
+        include: {
+          items: { select: { id: true, title: true, price: true, refundItem: { select: { amount: true } } } },
+          refunds: {
+            orderBy: { createdAt: "desc" },
+            include: { issuedBy: { select: { name: true, email: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!user) {
+    return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+  }
+
+  const { twoFactor, accounts, passwords, ...rest } = user;
+  return NextResponse.json({
+    ...rest,
+    twoFactorEnabled: !!twoFactor?.enabledAt,
+    hasPassword: !!passwords,
+    providers: accounts.map((account) => account.provider),
+  });
+});
+
+/**
+ * Altera o papel ({ role }, exige role:manage) ou desativa/reativa a conta
+ * ({ disabled, reason? }). Trocar o papel encerra as sessões do usuário, que
+ * entra de novo já com o novo papel.
+ */
+export const PATCH = withAuth<UserParams>({ permission: "user:manage" }, async (req, { user: admin, params }) => {
+  const { role, disabled, reason } = (await req.json().catch(() => ({}))) as {
+    role?: unknown;
+    disabled?: unknown;
+    reason?: string;
+  };
+
+  if (params.userId === admin.id) {
+    return NextResponse.json({ error: "Você não pode alterar a própria conta por aqui" }, { status: 400 });
+  }
+
+  // Valida o corpo inteiro antes de gravar: um erro não deixa alteração pela metade
+  if (role !== undefined) {
+    if (!(await can(admin, "role:manage"))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (!isUserRole(role)) {
+      return NextResponse.json({ error: "Role inválida" }, { status: 400 });
+    }
+  }
+
+  if (disabled !== undefined) {
+    if (typeof disabled !== "boolean") {
+      return NextResponse.json({ error: "disabled deve ser true ou false" }, { status: 400 });
+    }
+    if (disabled && !reason?.trim()) {
+      return NextResponse.json({ error: "Informe o motivo da desativação" }, { status: 400 });
+    }
+  }
+
+  try {
+    const target = await prisma.user.findUnique({ where: { id: params.userId }, select: { id: true } });
+    if (!target) {
+      return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+    }
+
+    // Papel e desativação vão no mesmo update
+    await prisma.user.update({
+      where: { id: target.id },
+      data: {
+        ...(role !== undefined ? { role, tokenVersion: { increment: 1 } } : {}),
+        ...(disabled !== undefined ? userDisabledData(disabled, reason?.trim()) : {}),
+      },
+    });
+
+    if (role !== undefined) {
+      console.log(`Role do usuário ${target.id} alterada para ${role} por ${admin.id}`);
+    }
+    if (disabled !== undefined) {
+      console.log(`Conta ${target.id} ${disabled ? "desativada" : "reativada"} por ${admin.id}`);
+    }
+
+    const updated = await prisma.user.findUnique({
+      where: { id: target.id },
+      select: { id: true, role: true, disabledAt: true, disabledReason: true },
+    });
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json({ error: "Erro ao atualizar usuário" }, { status: 500 });
+  }
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+import { ADMIN_USERS_PAGE_SIZE } from "@/lib/admin-users";
+import { isUserRole } from "@/lib/roles";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Busca de usuários. Filtros: q (nome ou e-mail), role, status (active/disabled) e page.
+ */
+export const GET = withAuth({ permission: "user:manage" }, async (req) => {
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q")?.trim();
+  const role = searchParams.get("role");
+  const status = searchParams.get("status");
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const where: Prisma.UserWhereInput = {
+    ...(isUserRole(role) ? { role } : {}),
+    ...(status === "disabled" ? { disabledAt: { not: null } } : status === "active" ? { disabledAt: null } : {}),
+    ...(q
+      ? {
+          OR: [
+            { email: { contains: q, mode: "insensitive" } },
+            { name: { contains: q, mode: "insensitive" } },
+          ],
+        }
+      : {}),
+  };
+
+  const [total, users] = await prisma.$transaction([
+    prisma.user.count({ where }),
+    prisma.user.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * ADMIN_USERS_PAGE_SIZE,
+      take: ADMIN_USERS_PAGE_SIZE,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        role: true,
+        emailVerified: true,
+        disabledAt: true,
+        createdAt: true,
+        _count: { select: { enrollments: true, payments: true } },
+      },
+    }),
+  ]);
+
+  return NextResponse.json({
+    users,
+    page,
+    pageSize: ADMIN_USERS_PAGE_SIZE,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / ADMIN_USERS_PAGE_SIZE)),
+  });
+});
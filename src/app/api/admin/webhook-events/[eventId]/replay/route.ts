@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { replayWebhookEvent } from "@/lib/webhook-events";
+import { withAuth } from "@/lib/with-auth";
+
+export const POST = withAuth<{ eventId: string }>({ permission: "webhook:manage" }, async (req, { user, params }) => {
+  const { eventId } = params;
+
+  const event = await prisma.webhookEvent.findUnique({
+    where: { id: eventId },
+    select: { id: true, status: true },
+  });
+
+  if (!event) {
+    return NextResponse.json({ error: "Evento não encontrado" }, { status: 404 });
+  }
+
+  if (event.status === "PROCESSING") {
+    return NextResponse.json({ error: "Evento já está sendo processado" }, { status: 409 });
+  }
+
+  console.log(`Replay do evento ${eventId} solicitado por ${user.email}`);
+
+  const result = await replayWebhookEvent(eventId);
+
+  return NextResponse.json(result);
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { WebhookEventStatus } from "@/generated/prisma/enums";
+import { withAuth } from "@/lib/with-auth";
+
+const PAGE_SIZE = 50;
+
+export const GET = withAuth({ permission: "webhook:manage" }, async (req) => {
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+
+  if (status && !Object.values(WebhookEventStatus).includes(status as WebhookEventStatus)) {
+    return NextResponse.json({ error: "Status inválido" }, { status: 400 });
+  }
+
+  // Por padrão lista só o que precisa de atenção
+  const where = status
+    ? { status: status as WebhookEventStatus }
+    : { status: { in: ["FAILED", "DEAD"] as WebhookEventStatus[] } };
+
+  const events = await prisma.webhookEvent.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: PAGE_SIZE,
+    select: {
+      id: true,
+      eventId: true,
+      type: true,
+      action: true,
+      dataId: true,
+      status: true,
+      attempts: true,
+      lastError: true,
+      result: true,
+      nextAttemptAt: true,
+      processedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return NextResponse.json(events);
+});
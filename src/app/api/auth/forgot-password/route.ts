@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { emailSchema } from "@/lib/credentials";
+import { sendPasswordResetEmail } from "@/lib/user-tokens";
+
+/**
+ * Envia o link de redefinição de senha: { email }. Responde sempre com
+ * sucesso para não revelar quais e-mails estão cadastrados.
+ */
+export async function POST(request: Request) {
+  try {
+    const parsed = emailSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true, name: true },
+    });
+
+    if (user) {
+      await sendPasswordResetEmail({ id: user.id, name: user.name, email: parsed.data.email });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error requesting password reset:", error);
+    return NextResponse.json({ error: "Erro ao solicitar redefinição de senha" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { registerSchema } from "@/lib/credentials";
+import { hashPassword, sendVerificationEmail } from "@/lib/user-tokens";
+
+/**
+ * Cadastro com e-mail e senha: { name, email, password }. A conta só entra
+ * depois de confirmar o e-mail pelo link enviado.
+ */
+export async function POST(request: Request) {
+  try {
+    const parsed = registerSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const { name, email, password } = parsed.data;
+
+    const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (existing) {
+      return NextResponse.json(
+        { error: "Este e-mail já está cadastrado. Entre ou recupere sua senha.", code: "EMAIL_IN_USE" },
+        { status: 409 }
+      );
+    }
+
+    const roleEntry = await prisma.roleEmail.findUnique({ where: { email } });
+    const user = await prisma.user.create({
+      data: {
+        name,
+        email,
+        role: roleEntry?.role ?? "USER",
+        passwords: { create: { hash: await hashPassword(password) } },
+      },
+      select: { id: true, name: true, email: true },
+    });
+
+    await sendVerificationEmail({ id: user.id, name: user.name, email });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error registering user:", error);
+    return NextResponse.json({ error: "Erro ao criar conta" }, { status: 500 });
+  }
+}
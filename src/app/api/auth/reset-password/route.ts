@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { resetPasswordSchema } from "@/lib/credentials";
+import { consumeUserToken, hashPassword } from "@/lib/user-tokens";
+
+/**
+ * Define a nova senha a partir do token do link: { token, password }.
+ * Quem recebeu o link provou ter acesso ao e-mail, então ele também fica
+ * confirmado. As sessões abertas com a senha antiga são encerradas.
+ */
+export async function POST(request: Request) {
+  try {
+    const parsed = resetPasswordSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const userId = await consumeUserToken(parsed.data.token, "PASSWORD_RESET");
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Link inválido ou expirado. Peça uma nova redefinição.", code: "INVALID_TOKEN" },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(parsed.data.password);
+    await prisma.$transaction([
+      prisma.userPassword.upsert({
+        where: { userId },
+        create: { userId, hash: passwordHash },
+        update: { hash: passwordHash },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { emailVerified: new Date(), tokenVersion: { increment: 1 } },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error resetting password:", error);
+    return NextResponse.json({ error: "Erro ao redefinir senha" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import prisma from "@/lib/prisma";
+import { startTwoFactorSetup } from "@/lib/two-factor";
+
+/**
+ * Configuração obrigatória no login: a equipe sem 2FA recebe o segredo e o
+ * QR code antes de a sessão valer. Só atende tokens em twoFactorPending "setup".
+ */
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (!token?.sub || token.twoFactorPending !== "setup") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: token.sub }, select: { email: true } });
+    if (!user?.email) {
+      return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+    }
+
+    return NextResponse.json(await startTwoFactorSetup(token.sub, user.email));
+  } catch (error) {
+    console.error("Error starting two-factor setup:", error);
+    return NextResponse.json({ error: "Erro ao configurar a verificação em duas etapas" }, { status: 500 });
+  }
+}
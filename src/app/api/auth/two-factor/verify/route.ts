@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { completeTwoFactorSignIn, confirmTwoFactorSetup, verifyTwoFactorCode } from "@/lib/two-factor";
+
+/**
+ * Segunda etapa do login: { code }. Aceita o código do app ou um código de
+ * recuperação; na configuração obrigatória, ativa o 2FA e devolve os códigos
+ * de recuperação. Em seguida a sessão é reemitida com a role do usuário.
+ */
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (!token?.sub || !token.twoFactorPending) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { code } = (await request.json().catch(() => ({}))) as { code?: string };
+  if (typeof code !== "string" || !code.trim()) {
+    return NextResponse.json({ error: "Informe o código" }, { status: 400 });
+  }
+
+  try {
+    if (token.twoFactorPending === "setup") {
+      const result = await confirmTwoFactorSetup(token.sub, code.trim());
+      if (!result.ok) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return completeTwoFactorSignIn(NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes }), token);
+    }
+
+    const result = await verifyTwoFactorCode(token.sub, code.trim());
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return completeTwoFactorSignIn(NextResponse.json({ success: true }), token);
+  } catch (error) {
+    console.error("Error verifying two-factor code:", error);
+    return NextResponse.json({ error: "Erro ao verificar o código" }, { status: 500 });
+  }
+}
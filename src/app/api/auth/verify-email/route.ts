@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { consumeUserToken } from "@/lib/user-tokens";
+
+/**
+ * Confirma o e-mail a partir do token do link: { token }.
+ */
+export async function POST(request: Request) {
+  try {
+    const { token } = await request.json().catch(() => ({})) as { token?: string };
+    if (!token) {
+      return NextResponse.json({ error: "Link inválido" }, { status: 400 });
+    }
+
+    const userId = await consumeUserToken(token, "EMAIL_VERIFICATION");
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Link inválido ou expirado. Peça um novo e-mail de confirmação.", code: "INVALID_TOKEN" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: new Date() },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error verifying email:", error);
+    return NextResponse.json({ error: "Erro ao confirmar e-mail" }, { status: 500 });
+  }
+}
@@ -1,20 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { PaymentItemType } from "@/generated/prisma/enums";
+import { getEffectiveCoursePrice } from "@/lib/price";
+import { withAuth } from "@/lib/with-auth";
 
-async function getUserId() {
-  const session = await getServerSession(authOptions);
-  if (!session?.user) return null;
-  return (session.user as any).id as string;
-}
-
-export async function GET() {
-  const userId = await getUserId();
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+export const GET = withAuth({}, async (req, { user }) => {
+  const userId = user.id;
 
   const cart = await prisma.cart.findUnique({
     where: { userId },
@@ -40,13 +31,13 @@ export async function GET() {
     journeyId: item.journeyId,
     title: item.course?.title ?? item.journey?.title ?? null,
     price:
-      item.course?.price ??
+      (item.course ? getEffectiveCoursePrice(item.course) : null) ??
       item.journey?.price ??
       null,
   }));
 
   return NextResponse.json({ items });
-}
+});
 
 interface SaveCartItem {
   itemType: PaymentItemType;
@@ -55,11 +46,8 @@ interface SaveCartItem {
   quantity: number;
 }
 
-export async function PUT(req: NextRequest) {
-  const userId = await getUserId();
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+export const PUT = withAuth({}, async (req, { user }) => {
+  const userId = user.id;
 
   let body: { items: SaveCartItem[] };
   try {
@@ -167,13 +155,10 @@ export async function PUT(req: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
 
-export async function DELETE(req: NextRequest) {
-  const userId = await getUserId();
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+export const DELETE = withAuth({}, async (req, { user }) => {
+  const userId = user.id;
 
   try {
     const body = await req.json();
@@ -237,7 +222,7 @@ export async function DELETE(req: NextRequest) {
       courseId: item.courseId,
       journeyId: item.journeyId,
       title: item.course?.title ?? item.journey?.title ?? null,
-      price: item.course?.price ?? item.journey?.price ?? null,
+      price: (item.course ? getEffectiveCoursePrice(item.course) : null) ?? item.journey?.price ?? null,
     })) || [];
 
     return NextResponse.json({ items });
@@ -248,4 +233,4 @@ export async function DELETE(req: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { formatWorkload, normalizeCertificateCode } from "@/lib/certificates";
+
+/**
+ * Verificação pública de um certificado pelo código.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+
+    const certificate = await prisma.certificate.findUnique({
+      where: { code: normalizeCertificateCode(code) },
+      select: {
+        code: true,
+        studentName: true,
+        courseTitle: true,
+        workloadMinutes: true,
+        issuedAt: true,
+        revokedAt: true,
+      },
+    });
+
+    if (!certificate) {
+      return NextResponse.json({ error: "Certificado não encontrado" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...certificate,
+      workload: formatWorkload(certificate.workloadMinutes),
+      valid: !certificate.revokedAt,
+    });
+  } catch (error) {
+    console.error("Error verifying certificate:", error);
+    return NextResponse.json({ error: "Erro ao verificar certificado" }, { status: 500 });
+  }
+}
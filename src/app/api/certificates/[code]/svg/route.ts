@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { normalizeCertificateCode, renderCertificateSvg } from "@/lib/certificates";
+
+/**
+ * Certificado renderizado no servidor. Revogados saem com a marca "REVOGADO".
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+
+    const certificate = await prisma.certificate.findUnique({
+      where: { code: normalizeCertificateCode(code) },
+    });
+
+    if (!certificate) {
+      return NextResponse.json({ error: "Certificado não encontrado" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const disposition = searchParams.get("download") ? "attachment" : "inline";
+
+    return new NextResponse(renderCertificateSvg(certificate), {
+      headers: {
+        "Content-Type": "image/svg+xml; charset=utf-8",
+        "Content-Disposition": `${disposition}; filename="certificado-${certificate.code}.svg"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering certificate:", error);
+    return NextResponse.json({ error: "Erro ao gerar certificado" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Certificados válidos do usuário logado.
+ */
+export const GET = withAuth({}, async (request, { user }) => {
+  try {
+    const certificates = await prisma.certificate.findMany({
+      where: { userId: user.id, revokedAt: null },
+      orderBy: { issuedAt: "desc" },
+    });
+
+    return NextResponse.json(certificates);
+  } catch (error) {
+    console.error("Error fetching certificates:", error);
+    return NextResponse.json({ error: "Erro ao buscar certificados" }, { status: 500 });
+  }
+});
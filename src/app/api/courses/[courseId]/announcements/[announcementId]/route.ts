@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { courseResource } from "@/lib/permissions";
+import { announcementUpdateSchema } from "@/lib/announcements";
+import { withAuth } from "@/lib/with-auth";
+
+type AnnouncementParams = { courseId: string; announcementId: string };
+
+// Só instrutores do curso (e administradores) gerenciam os avisos
+const instructorOnly = { permission: "course:announce", resource: courseResource } as const;
+
+/**
+ * Edita um aviso ou fixa/desafixa: { title?, text?, isPinned? }.
+ */
+export const PATCH = withAuth<AnnouncementParams>(instructorOnly, async (request, { params }) => {
+  try {
+    const { courseId, announcementId } = params;
+
+    const parsed = announcementUpdateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const existing = await prisma.coursePost.findFirst({
+      where: { id: announcementId, courseId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Aviso não encontrado" }, { status: 404 });
+    }
+
+    const { title, text, isPinned } = parsed.data;
+    const announcement = await prisma.coursePost.update({
+      where: { id: announcementId },
+      data: {
+        ...(title !== undefined && { title }),
+        ...(text !== undefined && { content: { text } }),
+        ...(isPinned !== undefined && { isPinned }),
+      },
+      include: { author: { select: { id: true, name: true, image: true } } },
+    });
+
+    return NextResponse.json(announcement);
+  } catch (error) {
+    console.error("Error updating course announcement:", error);
+    return NextResponse.json({ error: "Erro ao atualizar aviso" }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth<AnnouncementParams>(instructorOnly, async (request, { params }) => {
+  try {
+    const { courseId, announcementId } = params;
+
+    const { count } = await prisma.coursePost.deleteMany({
+      where: { id: announcementId, courseId },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Aviso não encontrado" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting course announcement:", error);
+    return NextResponse.json({ error: "Erro ao excluir aviso" }, { status: 500 });
+  }
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { can, canReadAnnouncements, courseResource } from "@/lib/permissions";
+import { announcementSchema, listAnnouncements, markAnnouncementsRead } from "@/lib/announcements";
+import { getPageParam } from "@/lib/forum";
+import { withAuth } from "@/lib/with-auth";
+
+type CourseParams = { courseId: string };
+
+/**
+ * Avisos do curso, fixados primeiro. Abrir a primeira página marca os avisos
+ * como lidos; `lastReadAt` é a leitura anterior, para destacar os novos.
+ */
+export const GET = withAuth<CourseParams>({}, async (request, { user, params }) => {
+  try {
+    const { courseId } = params;
+    if (!await canReadAnnouncements(user, courseId)) {
+      return NextResponse.json({ error: "Você não tem acesso aos avisos deste curso" }, { status: 403 });
+    }
+
+    const page = getPageParam(new URL(request.url).searchParams.get("page"));
+    const [result, canPublish] = await Promise.all([
+      listAnnouncements(courseId, page),
+      can(user, "course:announce", { courseId }),
+    ]);
+    const lastReadAt = page === 1 ? await markAnnouncementsRead(user.id, courseId) : null;
+
+    return NextResponse.json({ ...result, lastReadAt, canPublish });
+  } catch (error) {
+    console.error("Error fetching course announcements:", error);
+    return NextResponse.json({ error: "Erro ao carregar avisos" }, { status: 500 });
+  }
+});
+
+/**
+ * Publica um aviso: { title, text, isPinned? }. Só instrutores do curso.
+ */
+export const POST = withAuth<CourseParams>({ permission: "course:announce", resource: courseResource }, async (request, { user, params }) => {
+  try {
+    const { courseId } = params;
+
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { id: true } });
+    if (!course) {
+      return NextResponse.json({ error: "Curso não encontrado" }, { status: 404 });
+    }
+
+    const parsed = announcementSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const announcement = await prisma.coursePost.create({
+      data: {
+        courseId,
+        authorId: user.id,
+        title: parsed.data.title,
+        content: { text: parsed.data.text },
+        isPinned: parsed.data.isPinned ?? false,
+      },
+      include: { author: { select: { id: true, name: true, image: true } } },
+    });
+
+    return NextResponse.json(announcement, { status: 201 });
+  } catch (error) {
+    console.error("Error creating course announcement:", error);
+    return NextResponse.json({ error: "Erro ao publicar aviso" }, { status: 500 });
+  }
+});
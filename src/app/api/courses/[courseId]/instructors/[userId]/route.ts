@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Remove o instrutor do curso. O papel do usuário não muda.
+ */
+export const DELETE = withAuth<{ courseId: string; userId: string }>({ permission: "course:assign" }, async (request, { params }) => {
+  try {
+    const { courseId, userId } = params;
+
+    const course = await prisma.course.findFirst({
+      where: { id: courseId, users: { some: { id: userId } } },
+      select: { id: true },
+    });
+    if (!course) {
+      return NextResponse.json({ error: "Instrutor não encontrado neste curso" }, { status: 404 });
+    }
+
+    await prisma.course.update({
+      where: { id: courseId },
+      data: { users: { disconnect: { id: userId } } },
+    });
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error removing course instructor:", error);
+    return NextResponse.json({ error: "Erro ao remover instrutor" }, { status: 500 });
+  }
+});
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/with-auth";
+
+type CourseParams = { courseId: string };
+
+const instructorSelect = { id: true, name: true, email: true, role: true } as const;
+
+export const GET = withAuth<CourseParams>({ permission: "course:assign" }, async (request, { params }) => {
+  const course = await prisma.course.findUnique({
+    where: { id: params.courseId },
+    select: { users: { select: instructorSelect, orderBy: { name: "asc" } } },
+  });
+  if (!course) {
+    return NextResponse.json({ error: "Curso não encontrado" }, { status: 404 });
+  }
+
+  return NextResponse.json(course.users);
+});
+
+/**
+ * Atribui um instrutor ao curso: { email }. Um usuário comum passa a ter o
+ * papel INSTRUCTOR; papéis da equipe são mantidos.
+ */
+export const POST = withAuth<CourseParams>({ permission: "course:assign" }, async (request, { params }) => {
+  const { email } = (await request.json().catch(() => ({}))) as { email?: string };
+  if (!email?.trim()) {
+    return NextResponse.json({ error: "Informe o e-mail do instrutor" }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+      select: { id: true, role: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Usuário não encontrado" }, { status: 404 });
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: params.courseId }, select: { id: true } });
+    if (!course) {
+      return NextResponse.json({ error: "Curso não encontrado" }, { status: 404 });
+    }
+
+    const instructor = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        coursesOwned: { connect: { id: course.id } },
+        // Promovido a instrutor: as sessões abertas são encerradas para o novo papel valer
+        ...(user.role === "USER" ? { role: "INSTRUCTOR" as const, tokenVersion: { increment: 1 } } : {}),
+      },
+      select: instructorSelect,
+    });
+
+    return NextResponse.json(instructor, { status: 201 });
+  } catch (error) {
+    console.error("Error assigning course instructor:", error);
+    return NextResponse.json({ error: "Erro ao atribuir instrutor" }, { status: 500 });
+  }
+});
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { formatLessonContentErrors, validateLessonContent } from "@/lib/lesson-content";
+import { isValidDuration } from "@/lib/progress";
+import { courseResource } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+type LessonParams = { courseId: string; moduleId: string; lessonId: string };
+
+async function findLesson({ courseId, moduleId, lessonId }: LessonParams) {
+  return prisma.lesson.findFirst({
+    where: { id: lessonId, moduleId, module: { courseId } },
+  });
+}
+
+export const GET = withAuth<LessonParams>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  const lesson = await findLesson(params);
+  if (!lesson) {
+    return NextResponse.json({ error: "Aula não encontrada" }, { status: 404 });
+  }
+
+  return NextResponse.json(lesson);
+});
+
+export const PATCH = withAuth<LessonParams>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const lesson = await findLesson(params);
+    if (!lesson) {
+      return NextResponse.json({ error: "Aula não encontrada" }, { status: 404 });
+    }
+
+    const data = await request.json() as { title?: string; content?: unknown; duration?: unknown };
+
+    if (data.title !== undefined && (typeof data.title !== "string" || !data.title.trim())) {
+      return NextResponse.json({ error: "O título da aula é obrigatório" }, { status: 400 });
+    }
+
+    if (data.duration !== undefined && !isValidDuration(data.duration)) {
+      return NextResponse.json({ error: "Duração inválida (em segundos)" }, { status: 400 });
+    }
+
+    let content;
+    if (data.content !== undefined) {
+      const parsed = validateLessonContent(data.content);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            error: "Conteúdo da aula inválido",
+            code: "INVALID_CONTENT",
+            issues: formatLessonContentErrors(parsed.error),
+          },
+          { status: 400 }
+        );
+      }
+      content = parsed.data;
+    }
+
+    const updated = await prisma.lesson.update({
+      where: { id: lesson.id },
+      data: {
+        ...(data.title !== undefined ? { title: data.title.trim() } : {}),
+        ...(content ? { content } : {}),
+        ...(data.duration !== undefined ? { duration: data.duration as number } : {}),
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating lesson:", error);
+    return NextResponse.json({ error: "Erro ao atualizar aula" }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth<LessonParams>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const lesson = await findLesson(params);
+    if (!lesson) {
+      return NextResponse.json({ error: "Aula não encontrada" }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.lessonProgress.deleteMany({ where: { lessonId: lesson.id } }),
+      prisma.lesson.delete({ where: { id: lesson.id } }),
+    ]);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting lesson:", error);
+    return NextResponse.json({ error: "Erro ao excluir aula" }, { status: 500 });
+  }
+});
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { emptyLessonContent, formatLessonContentErrors, validateLessonContent } from "@/lib/lesson-content";
+import { isValidDuration } from "@/lib/progress";
+import { courseResource } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+export const GET = withAuth<{ courseId: string; moduleId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  const { courseId, moduleId } = params;
+
+  const lessons = await prisma.lesson.findMany({
+    where: { moduleId, module: { courseId } },
+    orderBy: { order: "asc" },
+  });
+
+  return NextResponse.json(lessons);
+});
+
+export const POST = withAuth<{ courseId: string; moduleId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const { courseId, moduleId } = params;
+    const data = await request.json() as { title?: string; content?: unknown; duration?: unknown };
+
+    if (typeof data.title !== "string" || !data.title.trim()) {
+      return NextResponse.json({ error: "O título da aula é obrigatório" }, { status: 400 });
+    }
+
+    if (data.duration !== undefined && !isValidDuration(data.duration)) {
+      return NextResponse.json({ error: "Duração inválida (em segundos)" }, { status: 400 });
+    }
+
+    const courseModule = await prisma.module.findFirst({
+      where: { id: moduleId, courseId },
+      select: { id: true },
+    });
+
+    if (!courseModule) {
+      return NextResponse.json({ error: "Módulo não encontrado" }, { status: 404 });
+    }
+
+    let content = emptyLessonContent();
+    if (data.content !== undefined) {
+      const parsed = validateLessonContent(data.content);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            error: "Conteúdo da aula inválido",
+            code: "INVALID_CONTENT",
+            issues: formatLessonContentErrors(parsed.error),
+          },
+          { status: 400 }
+        );
+      }
+      content = parsed.data;
+    }
+
+    // Novas aulas entram no fim do módulo
+    const last = await prisma.lesson.aggregate({
+      where: { moduleId },
+      _max: { order: true },
+    });
+
+    const lesson = await prisma.lesson.create({
+      data: {
+        moduleId,
+        title: data.title.trim(),
+        content,
+        duration: (data.duration as number | undefined) ?? 0,
+        order: (last._max.order ?? 0) + 1,
+      },
+    });
+
+    return NextResponse.json(lesson, { status: 201 });
+  } catch (error) {
+    console.error("Error creating lesson:", error);
+    return NextResponse.json({ error: "Erro ao criar aula" }, { status: 500 });
+  }
+});
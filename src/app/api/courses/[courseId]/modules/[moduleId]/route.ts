@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { courseResource } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+export const PATCH = withAuth<{ courseId: string; moduleId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const { courseId, moduleId } = params;
+    const { title } = await request.json() as { title?: string };
+
+    if (typeof title !== "string" || !title.trim()) {
+      return NextResponse.json({ error: "O título do módulo é obrigatório" }, { status: 400 });
+    }
+
+    const { count } = await prisma.module.updateMany({
+      where: { id: moduleId, courseId },
+      data: { title: title.trim() },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Módulo não encontrado" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id: moduleId, title: title.trim() });
+  } catch (error) {
+    console.error("Error updating module:", error);
+    return NextResponse.json({ error: "Erro ao atualizar módulo" }, { status: 500 });
+  }
+});
+
+/**
+ * Remove o módulo com suas aulas e o progresso dos alunos nessas aulas.
+ */
+export const DELETE = withAuth<{ courseId: string; moduleId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const { courseId, moduleId } = params;
+
+    const courseModule = await prisma.module.findFirst({
+      where: { id: moduleId, courseId },
+      select: { id: true },
+    });
+
+    if (!courseModule) {
+      return NextResponse.json({ error: "Módulo não encontrado" }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.lessonProgress.deleteMany({ where: { lesson: { moduleId } } }),
+      prisma.lesson.deleteMany({ where: { moduleId } }),
+      prisma.module.delete({ where: { id: moduleId } }),
+    ]);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting module:", error);
+    return NextResponse.json({ error: "Erro ao excluir módulo" }, { status: 500 });
+  }
+});
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getCourseCurriculum, reorderCurriculum, type CurriculumLayout } from "@/lib/curriculum";
+import { courseResource } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+export const GET = withAuth<{ courseId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  const { courseId } = params;
+  const modules = await getCourseCurriculum(courseId);
+
+  return NextResponse.json(modules);
+});
+
+export const POST = withAuth<{ courseId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const { courseId } = params;
+    const { title } = await request.json() as { title?: string };
+
+    if (typeof title !== "string" || !title.trim()) {
+      return NextResponse.json({ error: "O título do módulo é obrigatório" }, { status: 400 });
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { id: true } });
+    if (!course) {
+      return NextResponse.json({ error: "Curso não encontrado" }, { status: 404 });
+    }
+
+    // Novos módulos entram no fim do curso
+    const last = await prisma.module.aggregate({
+      where: { courseId },
+      _max: { order: true },
+    });
+
+    const courseModule = await prisma.module.create({
+      data: {
+        courseId,
+        title: title.trim(),
+        order: (last._max.order ?? 0) + 1,
+      },
+      include: { lessons: true },
+    });
+
+    return NextResponse.json(courseModule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating module:", error);
+    return NextResponse.json({ error: "Erro ao criar módulo" }, { status: 500 });
+  }
+});
+
+/**
+ * Reordena módulos e aulas de uma vez: { modules: [{ id, lessonIds }] }.
+ */
+export const PUT = withAuth<{ courseId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
+  try {
+    const { courseId } = params;
+    const { modules } = await request.json() as { modules?: CurriculumLayout[] };
+
+    if (
+      !Array.isArray(modules) ||
+      modules.some((module) => typeof module?.id !== "string" || !Array.isArray(module.lessonIds))
+    ) {
+      return NextResponse.json({ error: "Formato de ordenação inválido" }, { status: 400 });
+    }
+
+    const { error } = await reorderCurriculum(courseId, modules);
+    if (error) {
+      return NextResponse.json({ error }, { status: 409 });
+    }
+
+    return NextResponse.json(await getCourseCurriculum(courseId));
+  } catch (error) {
+    console.error("Error reordering curriculum:", error);
+    return NextResponse.json({ error: "Erro ao reordenar currículo" }, { status: 500 });
+  }
+});
@@ -1,7 +1,8 @@
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
-import { getServerSession } from "next-auth";
+import { getSetting } from "@/lib/settings";
 import { NextResponse } from "next/server";
+import { courseResource } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
 
 export async function GET(
   request: Request,
@@ -29,6 +30,7 @@ export async function GET(
         discountEnabled: true,
         level: true,
         public: true,
+        refundWindowDays: true,
       },
     });
 
@@ -39,7 +41,10 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(course, {status: 200});
+    return NextResponse.json(
+      { ...course, refundWindowDays: course.refundWindowDays ?? (await getSetting("refundWindowDays")) },
+      { status: 200 }
+    );
   } catch (error) {
     console.error("Error in GET /api/courses/[courseId]:", error);
     return NextResponse.json(
@@ -49,18 +54,9 @@ export async function GET(
   }
 }
 
-export async function PATCH(
-  request: Request,
-  { params }: { params: Promise<{ courseId: string }> }
-) {
+export const PATCH = withAuth<{ courseId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { params }) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      console.log('Unauthorized: No session found');
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { courseId: id } = await params;
+    const { courseId: id } = params;
     console.log('Updating course with ID:', id);
 
     const data = await request.json();
@@ -100,19 +96,11 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
-
-export async function DELETE(
-  request: Request,
-  { params }: { params: Promise<{ courseId: string }> }
-) {
-  const session = await getServerSession(authOptions);
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+});
 
+export const DELETE = withAuth<{ courseId: string }>({ permission: "course:delete" }, async (request, { params }) => {
   try {
-    const {courseId: id} = await params;
+    const {courseId: id} = params;
     
     await prisma.course.delete({
       where: { id },
@@ -126,4 +114,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,12 +1,22 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { getPermittedCoursesFilter } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
 
-export async function GET(request: Request) {
+/**
+ * Cursos públicos. Com ?managed=true, os cursos que o usuário pode editar,
+ * inclusive os privados (listagem do admin).
+ */
+export const GET = withAuth({ optional: true }, async (request, { user }) => {
   try {
+    const managed = new URL(request.url).searchParams.get("managed") === "true";
+    const where = managed ? getPermittedCoursesFilter(user, "course:edit") : { public: true };
+    if (!where) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const courses = await prisma.course.findMany({
-      where: { public: true },
+      where,
       select: {
         id: true,
         title: true,
@@ -33,14 +43,9 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
-
-export async function POST(request: Request) {
-  const session = await getServerSession(authOptions);
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+});
 
+export const POST = withAuth({ permission: "course:create" }, async (request) => {
   try {
     const { title, description, imageUrl, price, discountPrice, discountEnabled, level, public: isPublic } = await request.json();
 
@@ -65,4 +70,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
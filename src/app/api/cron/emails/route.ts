@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { deliverDueEmails } from "@/lib/email-outbox";
+
+/**
+ * Worker agendado: reenvia os e-mails da fila com tentativa vencida.
+ * Protegido por CRON_SECRET no header Authorization.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await deliverDueEmails();
+
+    return NextResponse.json({
+      processed: results.length,
+      emails: results.map((email) => ({
+        id: email!.id,
+        status: email!.status,
+        attempts: email!.attempts,
+      })),
+    });
+  } catch (error) {
+    console.error("Erro ao processar fila de e-mails:", error);
+    return NextResponse.json({ error: "Erro ao processar fila" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { processDueWebhookEvents } from "@/lib/webhook-events";
+
+/**
+ * Worker agendado: reprocessa os eventos do webhook com tentativa vencida.
+ * Protegido por CRON_SECRET no header Authorization.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await processDueWebhookEvents();
+
+    return NextResponse.json({
+      processed: results.length,
+      events: results.map((event) => ({
+        id: event!.id,
+        status: event!.status,
+        attempts: event!.attempts,
+      })),
+    });
+  } catch (error) {
+    console.error("Erro ao processar fila de webhooks:", error);
+    return NextResponse.json({ error: "Erro ao processar fila" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forumAccessError } from "@/lib/forum";
+import { getForumPostAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+type PostParams = { postId: string };
+
+/**
+ * Marca a resposta aceita: { commentId }. Autor do post ou equipe.
+ */
+export const PUT = withAuth<PostParams>({}, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canAccept) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { commentId } = await request.json().catch(() => ({})) as { commentId?: string };
+    const comment = commentId
+      ? await prisma.forumComment.findFirst({ where: { id: commentId, postId, deletedAt: null }, select: { id: true } })
+      : null;
+
+    if (!comment) {
+      return NextResponse.json({ error: "Resposta não encontrada" }, { status: 404 });
+    }
+
+    const post = await prisma.forumPost.update({
+      where: { id: postId },
+      data: { acceptedCommentId: comment.id },
+      select: { id: true, acceptedCommentId: true },
+    });
+
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error("Error accepting forum answer:", error);
+    return NextResponse.json({ error: "Erro ao marcar resposta aceita" }, { status: 500 });
+  }
+});
+
+/**
+ * Remove a marcação de resposta aceita.
+ */
+export const DELETE = withAuth<PostParams>({}, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canAccept) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const post = await prisma.forumPost.update({
+      where: { id: postId },
+      data: { acceptedCommentId: null },
+      select: { id: true, acceptedCommentId: true },
+    });
+
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error("Error removing accepted forum answer:", error);
+    return NextResponse.json({ error: "Erro ao desmarcar resposta aceita" }, { status: 500 });
+  }
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forumAccessError } from "@/lib/forum";
+import { softDeleteComment } from "@/lib/forum-moderation";
+import { getForumPostAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+type CommentParams = { postId: string; commentId: string };
+
+/**
+ * Remove uma resposta (exclusão lógica). O autor remove a própria resposta
+ * enquanto tiver acesso ao post; a moderação remove qualquer uma e precisa
+ * informar o motivo: { reason }.
+ */
+export const DELETE = withAuth<CommentParams>({}, async (request, { user, params }) => {
+  try {
+    const { postId, commentId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    const comment = await prisma.forumComment.findFirst({
+      where: { id: commentId, postId, deletedAt: null },
+      select: { authorId: true },
+    });
+
+    if (!access || !comment) {
+      return NextResponse.json({ error: "Resposta não encontrada" }, { status: 404 });
+    }
+
+    const isAuthor = access.canView && comment.authorId === access.userId;
+    if (!access.userId || (!isAuthor && !access.canModerate)) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    if (isAuthor) {
+      await softDeleteComment(commentId, access.userId);
+    } else {
+      const { reason } = await request.json().catch(() => ({})) as { reason?: string };
+      if (!reason?.trim()) {
+        return NextResponse.json({ error: "Informe o motivo da remoção" }, { status: 400 });
+      }
+      await softDeleteComment(commentId, access.userId, { reason: reason.trim() });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting forum comment:", error);
+    return NextResponse.json({ error: "Erro ao excluir resposta" }, { status: 500 });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forumAccessError } from "@/lib/forum";
+import { getForumPostAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Alterna o voto do usuário na resposta.
+ */
+export const POST = withAuth<{ postId: string; commentId: string }>({}, async (request, { user, params }) => {
+  try {
+    const { postId, commentId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    const comment = await prisma.forumComment.findFirst({
+      where: { id: commentId, postId, deletedAt: null },
+      select: { authorId: true },
+    });
+
+    if (!access || !comment) {
+      return NextResponse.json({ error: "Resposta não encontrada" }, { status: 404 });
+    }
+    if (!access.userId || !access.canReply) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+    if (comment.authorId === access.userId) {
+      return NextResponse.json({ error: "Você não pode votar na própria resposta" }, { status: 400 });
+    }
+
+    const where = { userId_commentId: { userId: access.userId, commentId } };
+    const existing = await prisma.forumVote.findUnique({ where });
+
+    if (existing) {
+      await prisma.forumVote.delete({ where });
+    } else {
+      await prisma.forumVote.create({ data: { userId: access.userId, commentId } });
+    }
+
+    const votes = await prisma.forumVote.count({ where: { commentId } });
+    return NextResponse.json({ voted: !existing, votes });
+  } catch (error) {
+    console.error("Error voting on forum comment:", error);
+    return NextResponse.json({ error: "Erro ao registrar voto" }, { status: 500 });
+  }
+});
@@ -0,0 +1,165 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  FORUM_PAGE_SIZE,
+  MAX_REPLY_DEPTH,
+  buildCommentTree,
+  forumAccessError,
+  forumAuthorSelect,
+  forumCommentSchema,
+  getPageParam,
+} from "@/lib/forum";
+import { getForumPostAccess } from "@/lib/permissions";
+import { notifyForumReply } from "@/lib/notifications";
+import { withAuth } from "@/lib/with-auth";
+
+type PostParams = { postId: string };
+
+function commentInclude(userId: string | null) {
+  return {
+    author: forumAuthorSelect,
+    _count: { select: { votes: true } },
+    // Só o voto de quem está vendo, para marcar o botão
+    votes: { where: { userId: userId ?? "" }, select: { id: true } },
+  };
+}
+
+/**
+ * Respostas diretas ao post em ordem cronológica, paginadas, cada uma com a
+ * sua árvore de respostas.
+ */
+export const GET = withAuth<PostParams>({ optional: true }, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canView) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const page = getPageParam(new URL(request.url).searchParams.get("page"));
+    const include = commentInclude(access.userId);
+
+    const [roots, total, topLevel] = await Promise.all([
+      prisma.forumComment.findMany({
+        where: { postId, parentId: null },
+        include,
+        orderBy: { createdAt: "asc" },
+        skip: (page - 1) * FORUM_PAGE_SIZE,
+        take: FORUM_PAGE_SIZE,
+      }),
+      prisma.forumComment.count({ where: { postId } }),
+      prisma.forumComment.count({ where: { postId, parentId: null } }),
+    ]);
+
+    // Um nível por consulta; a profundidade é limitada por MAX_REPLY_DEPTH
+    const descendants = [];
+    let parentIds = roots.map((comment) => comment.id);
+    while (parentIds.length > 0) {
+      const level = await prisma.forumComment.findMany({
+        where: { parentId: { in: parentIds } },
+        include,
+        orderBy: { createdAt: "asc" },
+      });
+      descendants.push(...level);
+      parentIds = level.map((comment) => comment.id);
+    }
+
+    // Respostas removidas continuam na árvore, sem o conteúdo
+    const serialize = <T extends { votes: { id: string }[]; deletedAt: Date | null; content: unknown }>(
+      { votes, ...comment }: T
+    ) => ({
+      ...comment,
+      content: comment.deletedAt ? null : comment.content,
+      viewerHasVoted: votes.length > 0,
+    });
+
+    return NextResponse.json({
+      comments: buildCommentTree(roots.map(serialize), descendants.map(serialize)),
+      acceptedCommentId: access.post.acceptedCommentId,
+      page,
+      pageSize: FORUM_PAGE_SIZE,
+      total,
+      totalPages: Math.max(1, Math.ceil(topLevel / FORUM_PAGE_SIZE)),
+    });
+  } catch (error) {
+    console.error("Error fetching forum comments:", error);
+    return NextResponse.json({ error: "Erro ao carregar respostas" }, { status: 500 });
+  }
+});
+
+/**
+ * Responde ao post ou a outra resposta: { text, parentId? }.
+ */
+export const POST = withAuth<PostParams>({}, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.userId || !access.canReply) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const parsed = forumCommentSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    let parentId: string | null = null;
+    if (parsed.data.parentId) {
+      const parent = await prisma.forumComment.findFirst({
+        where: { id: parsed.data.parentId, postId },
+        select: { id: true, parentId: true, deletedAt: true },
+      });
+      if (!parent) {
+        return NextResponse.json({ error: "Resposta não encontrada" }, { status: 404 });
+      }
+      if (parent.deletedAt) {
+        return NextResponse.json({ error: "Esta resposta foi removida" }, { status: 400 });
+      }
+
+      // Conta os ancestrais; no limite, a resposta entra no mesmo nível do comentário
+      let depth = 0;
+      let ancestorId = parent.parentId;
+      while (ancestorId && depth < MAX_REPLY_DEPTH) {
+        depth++;
+        const ancestor = await prisma.forumComment.findUnique({
+          where: { id: ancestorId },
+          select: { parentId: true },
+        });
+        ancestorId = ancestor?.parentId ?? null;
+      }
+
+      parentId = depth >= MAX_REPLY_DEPTH ? parent.parentId : parent.id;
+    }
+
+    const comment = await prisma.forumComment.create({
+      data: {
+        postId,
+        parentId,
+        authorId: access.userId,
+        content: { text: parsed.data.text },
+      },
+      include: { author: forumAuthorSelect },
+    });
+
+    try {
+      await notifyForumReply(comment.id);
+    } catch (notifyError) {
+      console.error("Error notifying forum reply:", notifyError);
+    }
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error("Error creating forum comment:", error);
+    return NextResponse.json({ error: "Erro ao enviar resposta" }, { status: 500 });
+  }
+});
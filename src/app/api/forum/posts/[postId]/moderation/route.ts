@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { isPostModerationAction, moderatePost } from "@/lib/forum-moderation";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Ações da moderação sobre o post: { action: hide|unhide|lock|unlock|pin|unpin, reason? }.
+ */
+export const PATCH = withAuth<{ postId: string }>({ permission: "forum:moderate" }, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const { action, reason } = await request.json().catch(() => ({})) as { action?: unknown; reason?: string };
+    if (!isPostModerationAction(action)) {
+      return NextResponse.json({ error: "Ação de moderação inválida" }, { status: 400 });
+    }
+
+    const exists = await prisma.forumPost.findUnique({ where: { id: postId }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+
+    const post = await moderatePost(postId, action, user.id, reason?.trim());
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error("Error moderating forum post:", error);
+    return NextResponse.json({ error: "Erro ao moderar post" }, { status: 500 });
+  }
+});
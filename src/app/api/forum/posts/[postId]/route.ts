@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forumAccessError, forumAuthorSelect, forumPostSchema } from "@/lib/forum";
+import { deletePost } from "@/lib/forum-moderation";
+import { getActiveForumBan, getForumPostAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+type PostParams = { postId: string };
+
+export const GET = withAuth<PostParams>({ optional: true }, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canView) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const post = await prisma.forumPost.findUnique({
+      where: { id: postId },
+      include: {
+        author: forumAuthorSelect,
+        curso: { select: { id: true, title: true } },
+        acceptedComment: { include: { author: forumAuthorSelect } },
+        _count: { select: { comments: true, votes: true } },
+      },
+    });
+
+    const [viewerVote, viewerBan] = access.userId
+      ? await Promise.all([
+          prisma.forumVote.findUnique({ where: { userId_postId: { userId: access.userId, postId } } }),
+          getActiveForumBan(access.userId),
+        ])
+      : [null, null];
+
+    return NextResponse.json({
+      ...post,
+      viewerHasVoted: !!viewerVote,
+      viewerBan: viewerBan ? { reason: viewerBan.reason, expiresAt: viewerBan.expiresAt } : null,
+      permissions: {
+        canReply: access.canReply,
+        canEdit: access.canEdit,
+        canModerate: access.canModerate,
+        canAccept: access.canAccept,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching forum post:", error);
+    return NextResponse.json({ error: "Erro ao carregar post" }, { status: 500 });
+  }
+});
+
+/**
+ * Edita título e texto: { title, text }. Autor ou moderação.
+ */
+export const PATCH = withAuth<PostParams>({}, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canEdit) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const parsed = forumPostSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const post = await prisma.forumPost.update({
+      where: { id: postId },
+      data: {
+        title: parsed.data.title,
+        content: { text: parsed.data.text },
+      },
+      include: { author: forumAuthorSelect },
+    });
+
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error("Error updating forum post:", error);
+    return NextResponse.json({ error: "Erro ao atualizar post" }, { status: 500 });
+  }
+});
+
+/**
+ * Apaga o post. O autor só confirma; a moderação apagando post de outra
+ * pessoa informa { reason }, que vai para o log.
+ */
+export const DELETE = withAuth<PostParams>({}, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canEdit || !access.userId) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    if (access.post.authorId === access.userId) {
+      await deletePost(postId, access.userId);
+    } else {
+      const { reason } = await request.json().catch(() => ({})) as { reason?: string };
+      if (!reason?.trim()) {
+        return NextResponse.json({ error: "Informe o motivo da remoção" }, { status: 400 });
+      }
+      await deletePost(postId, access.userId, { reason: reason.trim() });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting forum post:", error);
+    return NextResponse.json({ error: "Erro ao excluir post" }, { status: 500 });
+  }
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forumAccessError } from "@/lib/forum";
+import { getForumPostAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Alterna o voto do usuário no post.
+ */
+export const POST = withAuth<{ postId: string }>({}, async (request, { user, params }) => {
+  try {
+    const { postId } = params;
+
+    const access = await getForumPostAccess(user, postId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.userId || !access.canReply) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+    if (access.post.authorId === access.userId) {
+      return NextResponse.json({ error: "Você não pode votar no próprio post" }, { status: 400 });
+    }
+
+    const where = { userId_postId: { userId: access.userId, postId } };
+    const existing = await prisma.forumVote.findUnique({ where });
+
+    if (existing) {
+      await prisma.forumVote.delete({ where });
+    } else {
+      await prisma.forumVote.create({ data: { userId: access.userId, postId } });
+    }
+
+    const votes = await prisma.forumVote.count({ where: { postId } });
+    return NextResponse.json({ voted: !existing, votes });
+  } catch (error) {
+    console.error("Error voting on forum post:", error);
+    return NextResponse.json({ error: "Erro ao registrar voto" }, { status: 500 });
+  }
+});
@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { canCreatePost, canModeratePost, canViewForum } from "@/lib/permissions";
+import {
+  FORUM_PAGE_SIZE,
+  forumAuthorSelect,
+  forumPostSchema,
+  getPageParam,
+  parseForumContext,
+  parseForumSort,
+} from "@/lib/forum";
+import type { Prisma } from "@/generated/prisma/client";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Posts de um contexto do fórum.
+ * Query: context (publico|curso), contextId, sort (newest|unanswered|votes), page.
+ */
+export const GET = withAuth({ optional: true }, async (request, { user }) => {
+  try {
+    const userId = user?.id ?? null;
+
+    const { searchParams } = new URL(request.url);
+    const context = parseForumContext(searchParams.get("context"), searchParams.get("contextId"));
+    if (!context) {
+      return NextResponse.json({ error: "Contexto do fórum inválido" }, { status: 400 });
+    }
+
+    const course = context.cursoId
+      ? await prisma.course.findUnique({ where: { id: context.cursoId }, select: { title: true } })
+      : null;
+    if (context.cursoId && !course) {
+      return NextResponse.json({ error: "Curso não encontrado" }, { status: 404 });
+    }
+
+    const canModerate = await canModeratePost(user);
+    if (!canModerate && !await canViewForum(userId, context.cursoId)) {
+      return NextResponse.json(
+        { error: "Você não tem acesso a este fórum" },
+        { status: userId ? 403 : 401 }
+      );
+    }
+
+    const page = getPageParam(searchParams.get("page"));
+    const sort = parseForumSort(searchParams.get("sort"));
+
+    // Posts ocultos só aparecem na lista para a equipe; fixados vêm sempre primeiro
+    const where: Prisma.ForumPostWhereInput = {
+      cursoId: context.cursoId,
+      ...(canModerate ? {} : { isHidden: false }),
+      ...(sort === "unanswered" ? { comments: { none: { deletedAt: null } } } : {}),
+    };
+    const orderBy: Prisma.ForumPostOrderByWithRelationInput[] = sort === "votes"
+      ? [{ isPinned: "desc" }, { votes: { _count: "desc" } }, { createdAt: "desc" }]
+      : [{ isPinned: "desc" }, { createdAt: "desc" }];
+
+    const [posts, total] = await Promise.all([
+      prisma.forumPost.findMany({
+        where,
+        include: {
+          author: forumAuthorSelect,
+          _count: { select: { comments: true, votes: true } },
+        },
+        orderBy,
+        skip: (page - 1) * FORUM_PAGE_SIZE,
+        take: FORUM_PAGE_SIZE,
+      }),
+      prisma.forumPost.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      context: { ...context, title: course?.title ?? "Fórum geral" },
+      posts,
+      sort,
+      page,
+      pageSize: FORUM_PAGE_SIZE,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / FORUM_PAGE_SIZE)),
+      canCreate: await canCreatePost(userId, context.cursoId),
+    });
+  } catch (error) {
+    console.error("Error fetching forum posts:", error);
+    return NextResponse.json({ error: "Erro ao carregar o fórum" }, { status: 500 });
+  }
+});
+
+/**
+ * Cria um post: { context, contextId, title, text }.
+ */
+export const POST = withAuth({}, async (request, { user }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const context = parseForumContext(body.context ?? null, body.contextId ?? null);
+    if (!context) {
+      return NextResponse.json({ error: "Contexto do fórum inválido" }, { status: 400 });
+    }
+
+    if (!await canCreatePost(user.id, context.cursoId)) {
+      return NextResponse.json({ error: "Você não pode publicar neste fórum" }, { status: 403 });
+    }
+
+    const parsed = forumPostSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    const post = await prisma.forumPost.create({
+      data: {
+        authorId: user.id,
+        cursoId: context.cursoId,
+        title: parsed.data.title,
+        content: { text: parsed.data.text },
+      },
+      include: { author: forumAuthorSelect },
+    });
+
+    return NextResponse.json(post, { status: 201 });
+  } catch (error) {
+    console.error("Error creating forum post:", error);
+    return NextResponse.json({ error: "Erro ao criar post" }, { status: 500 });
+  }
+});
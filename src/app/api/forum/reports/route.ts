@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forumAccessError } from "@/lib/forum";
+import { getForumPostAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Denuncia um post ou uma resposta: { postId } ou { commentId }, com { reason }.
+ */
+export const POST = withAuth({}, async (request, { user }) => {
+  try {
+    const { postId, commentId, reason } = await request.json().catch(() => ({})) as {
+      postId?: string;
+      commentId?: string;
+      reason?: string;
+    };
+
+    if (!reason?.trim()) {
+      return NextResponse.json({ error: "Informe o motivo da denúncia" }, { status: 400 });
+    }
+    if (reason.length > 1000) {
+      return NextResponse.json({ error: "Motivo muito longo" }, { status: 400 });
+    }
+
+    // Resolve o post a partir da resposta para aplicar a mesma regra de acesso
+    let targetPostId = postId;
+    if (commentId) {
+      const comment = await prisma.forumComment.findUnique({
+        where: { id: commentId },
+        select: { postId: true, deletedAt: true },
+      });
+      if (!comment || comment.deletedAt) {
+        return NextResponse.json({ error: "Resposta não encontrada" }, { status: 404 });
+      }
+      targetPostId = comment.postId;
+    }
+
+    if (!targetPostId) {
+      return NextResponse.json({ error: "Informe o post ou a resposta" }, { status: 400 });
+    }
+
+    const access = await getForumPostAccess(user, targetPostId);
+    if (!access) {
+      return NextResponse.json({ error: "Post não encontrado" }, { status: 404 });
+    }
+    if (!access.canView) {
+      const { error, status } = forumAccessError(access);
+      return NextResponse.json({ error }, { status });
+    }
+
+    const target = commentId ? { commentId } : { postId: targetPostId };
+
+    // Uma denúncia aberta por usuário e conteúdo
+    const existing = await prisma.forumReport.findFirst({
+      where: { reporterId: user.id, status: "OPEN", ...target },
+    });
+    if (existing) {
+      return NextResponse.json({ error: "Você já denunciou este conteúdo" }, { status: 409 });
+    }
+
+    const report = await prisma.forumReport.create({
+      data: {
+        reporterId: user.id,
+        reason: reason.trim(),
+        ...target,
+      },
+    });
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error("Error creating forum report:", error);
+    return NextResponse.json({ error: "Erro ao enviar denúncia" }, { status: 500 });
+  }
+});
@@ -0,0 +1,163 @@
+import prisma from "@/lib/prisma";
+import { parseJourneyFields } from "@/lib/journeys";
+import { can } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/with-auth";
+
+export const GET = withAuth<{ journeyId: string }>({ optional: true }, async (request, { user, params }) => {
+  try {
+    const { journeyId: id } = params;
+
+    const journey = await prisma.journey.findUnique({
+      where: { id },
+      include: {
+        courses: {
+          select: {
+            order: true,
+            course: {
+              select: {
+                id: true,
+                title: true,
+                description: true,
+                imageUrl: true,
+                level: true,
+              },
+            },
+          },
+          orderBy: { order: "asc" },
+        },
+      },
+    });
+
+    if (!journey || (!journey.public && !(await can(user, "journey:manage")))) {
+      return NextResponse.json(
+        { error: "Journey not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...journey,
+      courses: journey.courses.map(({ order, course }) => ({ ...course, order })),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/journeys/[journeyId]:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withAuth<{ journeyId: string }>({ permission: "journey:manage" }, async (request, { params }) => {
+  try {
+    const { journeyId: id } = params;
+    const data = await request.json();
+
+    if (!data.title || !data.description) {
+      return NextResponse.json(
+        { error: "Title and description are required" },
+        { status: 400 }
+      );
+    }
+
+    const fields = parseJourneyFields(data);
+    if ("error" in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    const journey = await prisma.$transaction(async (tx) => {
+      const updated = await tx.journey.update({
+        where: { id },
+        data: {
+          title: data.title,
+          description: data.description,
+          imageUrl: data.imageUrl || null,
+          price: fields.price,
+          level: data.level || "iniciante",
+          durationMonths: fields.durationMonths,
+          public: Boolean(data.public),
+        },
+      });
+
+      // A lista de cursos só é reescrita quando enviada explicitamente
+      if (fields.courseIds) {
+        await tx.journeyCourse.deleteMany({ where: { journeyId: id } });
+        await tx.journeyCourse.createMany({
+          data: fields.courseIds.map((courseId, index) => ({
+            journeyId: id,
+            courseId,
+            order: index + 1,
+          })),
+        });
+      }
+
+      return updated;
+    });
+
+    return NextResponse.json(journey);
+  } catch (error: any) {
+    console.error("Error updating journey:", error);
+
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "Journey not found" }, { status: 404 });
+    }
+
+    if (error?.code === "P2003") {
+      return NextResponse.json(
+        { error: "One or more courses do not exist" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update journey" },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth<{ journeyId: string }>({ permission: "journey:manage" }, async (request, { params }) => {
+  try {
+    const { journeyId: id } = params;
+
+    // Jornadas já vendidas ficam no histórico de pagamentos e matrículas;
+    // itens de carrinho são removidos junto (onDelete: Cascade)
+    const [payments, enrollments, orders] = await Promise.all([
+      prisma.paymentItem.count({ where: { journeyId: id } }),
+      prisma.enrollment.count({ where: { journeyId: id } }),
+      prisma.orderItem.count({ where: { journeyId: id } }),
+    ]);
+
+    if (payments > 0 || enrollments > 0) {
+      return NextResponse.json(
+        { error: "Journey has already been sold; make it private instead of deleting it" },
+        { status: 409 }
+      );
+    }
+
+    if (orders > 0) {
+      return NextResponse.json(
+        { error: "Journey has checkout orders; make it private instead of deleting it" },
+        { status: 409 }
+      );
+    }
+
+    await prisma.journey.delete({
+      where: { id },
+    });
+
+    return new Response(null, { status: 204 });
+  } catch (error: any) {
+    console.error("Error deleting journey:", error);
+
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "Journey not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete journey" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { can } from "@/lib/permissions";
+import { parseJourneyFields } from "@/lib/journeys";
+import { withAuth } from "@/lib/with-auth";
+
+export const GET = withAuth({ optional: true }, async (request, { user }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    // Jornadas privadas só aparecem para quem gerencia jornadas (listagem do admin)
+    const onlyPublic = searchParams.get("public") === "true" || !(await can(user, "journey:manage"));
+
+    const journeys = await prisma.journey.findMany({
+      where: onlyPublic ? { public: true } : undefined,
+      include: {
+        courses: {
+          select: {
+            order: true,
+            course: {
+              select: {
+                id: true,
+                title: true,
+                imageUrl: true,
+                level: true,
+              },
+            },
+          },
+          orderBy: { order: "asc" },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    return NextResponse.json(
+      journeys.map((journey) => ({
+        ...journey,
+        courses: journey.courses.map(({ order, course }) => ({ ...course, order })),
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching journeys:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch journeys" },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth({ permission: "journey:manage" }, async (request) => {
+  try {
+    const {
+      title,
+      description,
+      imageUrl,
+      price,
+      level,
+      durationMonths,
+      public: isPublic,
+      courseIds,
+    } = await request.json();
+
+    if (!title || !description) {
+      return NextResponse.json(
+        { error: "Title and description are required" },
+        { status: 400 }
+      );
+    }
+
+    const fields = parseJourneyFields({ price, durationMonths, courseIds });
+    if ("error" in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    const journey = await prisma.journey.create({
+      data: {
+        title,
+        description,
+        imageUrl: imageUrl || null,
+        price: fields.price,
+        level: level || "iniciante",
+        durationMonths: fields.durationMonths,
+        public: Boolean(isPublic),
+        courses: {
+          create: (fields.courseIds ?? []).map((courseId, index) => ({
+            courseId,
+            order: index + 1,
+          })),
+        },
+      },
+    });
+
+    return NextResponse.json(journey, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating journey:", error);
+
+    if (error?.code === "P2003") {
+      return NextResponse.json(
+        { error: "One or more courses do not exist" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create journey" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { hasLessonAccess } from "@/lib/permissions";
+import { issueCertificateForLesson } from "@/lib/certificates";
+import { setLessonCompleted } from "@/lib/progress";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Marca a aula como concluída; { completed: false } desfaz a marcação.
+ */
+export const POST = withAuth<{ lessonId: string }>({}, async (request, { user, params }) => {
+  try {
+    const { lessonId } = params;
+
+    if (!await hasLessonAccess(user.id, lessonId)) {
+      return NextResponse.json({ error: "Você não tem acesso a esta aula" }, { status: 403 });
+    }
+
+    const { completed = true } = await request.json().catch(() => ({})) as { completed?: unknown };
+    if (typeof completed !== "boolean") {
+      return NextResponse.json({ error: "completed deve ser true ou false" }, { status: 400 });
+    }
+
+    const progress = await setLessonCompleted(user.id, lessonId, completed);
+
+    // Concluir a última aula do curso emite o certificado
+    const certificate = progress.completed
+      ? await issueCertificateForLesson(user.id, lessonId)
+      : null;
+
+    return NextResponse.json({ ...progress, certificate });
+  } catch (error) {
+    console.error("Error in POST /api/lessons/[lessonId]/progress/complete:", error);
+    return NextResponse.json({ error: "Erro ao salvar progresso" }, { status: 500 });
+  }
+});
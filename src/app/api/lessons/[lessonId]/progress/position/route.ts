@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { hasLessonAccess } from "@/lib/permissions";
+import { issueCertificateForLesson } from "@/lib/certificates";
+import { recordWatchPosition } from "@/lib/progress";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Grava a posição do vídeo: { seconds }.
+ */
+export const PUT = withAuth<{ lessonId: string }>({}, async (request, { user, params }) => {
+  try {
+    const { lessonId } = params;
+    const { seconds } = await request.json().catch(() => ({})) as { seconds?: number };
+
+    if (typeof seconds !== "number" || !Number.isFinite(seconds) || seconds < 0) {
+      return NextResponse.json({ error: "Posição inválida" }, { status: 400 });
+    }
+
+    if (!await hasLessonAccess(user.id, lessonId)) {
+      return NextResponse.json({ error: "Você não tem acesso a esta aula" }, { status: 403 });
+    }
+
+    const progress = await recordWatchPosition(user.id, lessonId, seconds);
+
+    // Concluir a última aula do curso emite o certificado
+    const certificate = progress.completed
+      ? await issueCertificateForLesson(user.id, lessonId)
+      : null;
+
+    return NextResponse.json({ ...progress, certificate });
+  } catch (error) {
+    console.error("Error in PUT /api/lessons/[lessonId]/progress/position:", error);
+    return NextResponse.json({ error: "Erro ao salvar progresso" }, { status: 500 });
+  }
+});
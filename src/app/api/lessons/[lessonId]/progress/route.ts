@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { hasLessonAccess } from "@/lib/permissions";
+import { withAuth } from "@/lib/with-auth";
+
+/**
+ * Progresso do usuário logado na aula (null se nunca abriu).
+ */
+export const GET = withAuth<{ lessonId: string }>({}, async (request, { user, params }) => {
+  const { lessonId } = params;
+
+  if (!await hasLessonAccess(user.id, lessonId)) {
+    return NextResponse.json({ error: "Você não tem acesso a esta aula" }, { status: 403 });
+  }
+
+  const progress = await prisma.lessonProgress.findUnique({
+    where: { userId_lessonId: { userId: user.id, lessonId } },
+  });
+
+  return NextResponse.json(progress);
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { hasLessonAccess } from "@/lib/permissions";
+import { markLessonStarted } from "@/lib/progress";
+import { withAuth } from "@/lib/with-auth";
+
+export const POST = withAuth<{ lessonId: string }>({}, async (request, { user, params }) => {
+  try {
+    const { lessonId } = params;
+
+    if (!await hasLessonAccess(user.id, lessonId)) {
+      return NextResponse.json({ error: "Você não tem acesso a esta aula" }, { status: 403 });
+    }
+
+    const progress = await markLessonStarted(user.id, lessonId);
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error("Error in POST /api/lessons/[lessonId]/progress/start:", error);
+    return NextResponse.json({ error: "Erro ao salvar progresso" }, { status: 500 });
+  }
+});
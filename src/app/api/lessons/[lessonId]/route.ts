@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { hasLessonAccess } from "@/lib/permissions";
+import { getLessonNavigation } from "@/lib/lessons";
+import { emptyLessonContent, formatLessonContentErrors, parseLessonContent } from "@/lib/lesson-content";
+import { withAuth } from "@/lib/with-auth";
+
+export const GET = withAuth<{ lessonId: string }>({}, async (request, { user, params }) => {
+  try {
+    const { lessonId } = params;
+
+    if (!await hasLessonAccess(user.id, lessonId)) {
+      return NextResponse.json({ error: "Você não tem acesso a esta aula" }, { status: 403 });
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        order: true,
+        duration: true,
+        module: {
+          select: {
+            id: true,
+            title: true,
+            order: true,
+            course: { select: { id: true, title: true } },
+          },
+        },
+        progress: {
+          where: { userId: user.id },
+          select: { completed: true, position: true, lastAccessedAt: true },
+        },
+      },
+    });
+
+    if (!lesson) {
+      return NextResponse.json({ error: "Aula não encontrada" }, { status: 404 });
+    }
+
+    const { progress, module: lessonModule, ...rest } = lesson;
+    const navigation = await getLessonNavigation(lessonModule.course.id, lesson.id);
+
+    // Registros antigos são migrados na leitura; conteúdo inválido não quebra o player
+    const content = parseLessonContent(lesson.content);
+    if (!content.success) {
+      console.error(`Conteúdo inválido na aula ${lesson.id}:`, formatLessonContentErrors(content.error));
+    }
+
+    return NextResponse.json({
+      ...rest,
+      content: content.success ? content.data : emptyLessonContent(),
+      module: { id: lessonModule.id, title: lessonModule.title, order: lessonModule.order },
+      course: lessonModule.course,
+      progress: progress[0] ?? null,
+      navigation,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/lessons/[lessonId]:", error);
+    return NextResponse.json({ error: "Erro ao carregar aula" }, { status: 500 });
+  }
+});
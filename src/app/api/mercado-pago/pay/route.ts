@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { MercadoPagoConfig, Payment } from "mercadopago";
 import prisma from "@/lib/prisma";
+import { assertClientTotal, buildServerOrder, CheckoutError } from "@/lib/checkout";
+import { createPendingOrder, paymentItemsFromOrder, transitionOrder } from "@/lib/orders";
+import { getSetting } from "@/lib/settings";
+import { withAuth } from "@/lib/with-auth";
 
 const mp = new MercadoPagoConfig({
   accessToken: process.env.MP_ACCESS_TOKEN!,
@@ -10,39 +14,24 @@ const mp = new MercadoPagoConfig({
   }
 });
 
-interface Item {
-  id: string;
-  type: 'curso' | 'jornada';
-  title: string;
-  description?: string;
-  quantity: number;
-  price: number;
-  imageUrl?: string;
-}
+// O comprador é sempre o usuário da sessão
+export const POST = withAuth({}, async (req, { user }) => {
+  const userId = user.id;
 
-export async function POST(req: Request) {
   try {
     const {
       method,
       installments = 1,
       token,
       payer,
-      userId,
       items,
       total,
       issuer_id,
     } = await req.json();
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: "ID do usuário é obrigatório" },
-        { status: 400 }
-      );
-    }
-
     if (!items || !Array.isArray(items) || items.length === 0) {
       return NextResponse.json(
-        { error: "Nenhum item no carrinho" },
+        { error: "Nenhum item no carrinho", code: "EMPTY_CART" },
         { status: 400 }
       );
     }
@@ -50,139 +39,49 @@ export async function POST(req: Request) {
     // Log items received
     console.log('Items recebidos do frontend:', JSON.stringify(items, null, 2));
 
-    // Detect item types if not provided by checking the database
-    const itemsWithTypes = await Promise.all(items.map(async (item) => {
-      // If type is already provided, normalize it
-      if (item.type) {
-        const normalizedType = item.type === 'course' ? 'curso' : item.type === 'journey' ? 'jornada' : item.type;
-        
-        // Validate that the item exists with the provided type
-        if (normalizedType === 'curso') {
-          const course = await prisma.course.findUnique({ where: { id: item.id }, select: { id: true } });
-          if (!course) {
-            throw new Error(`Curso com ID ${item.id} não encontrado no banco de dados`);
-          }
-        } else if (normalizedType === 'jornada') {
-          const journey = await prisma.journey.findUnique({ where: { id: item.id }, select: { id: true } });
-          if (!journey) {
-            throw new Error(`Jornada com ID ${item.id} não encontrada no banco de dados`);
-          }
-        }
-        
-        return {
-          ...item,
-          type: normalizedType
-        };
-      }
-
-      // If type is missing, try to detect it by checking both tables
-      console.log(`Tipo não fornecido para item ${item.id}, detectando automaticamente...`);
-      
-      const [course, journey] = await Promise.all([
-        prisma.course.findUnique({ where: { id: item.id }, select: { id: true } }),
-        prisma.journey.findUnique({ where: { id: item.id }, select: { id: true } })
-      ]);
-
-      if (course) {
-        console.log(`Item ${item.id} identificado como CURSO`);
-        return { ...item, type: 'curso' };
-      } else if (journey) {
-        console.log(`Item ${item.id} identificado como JORNADA`);
-        return { ...item, type: 'jornada' };
-      } else {
-        // Tentar buscar em CartItem para ver se é um ID de carrinho incorreto
-        const cartItem = await prisma.cartItem.findUnique({
-          where: { id: item.id },
-          select: { courseId: true, journeyId: true }
-        });
-        
-        if (cartItem) {
-          const actualId = cartItem.courseId || cartItem.journeyId;
-          if (actualId) {
-            throw new Error(`ID fornecido (${item.id}) é um ID de item do carrinho. Use o ID do curso/jornada (${actualId}) em vez disso.`);
-          }
-        }
-        
-        throw new Error(`Item ${item.id} não encontrado nem como curso nem como jornada. Verifique se o ID está correto.`);
-      }
-    }));
-
-    console.log('Items com tipos detectados:', JSON.stringify(itemsWithTypes, null, 2));
-
-    // Normalize item types (frontend sends 'course'/'journey', API expects 'curso'/'jornada')
-    const normalizedItems = itemsWithTypes;
-
-    // Validate that all items exist in the database
-    const courseIds = normalizedItems.filter(item => item.type === 'curso').map(item => item.id);
-    const journeyIds = normalizedItems.filter(item => item.type === 'jornada').map(item => item.id);
-
-    console.log('Course IDs para validar:', courseIds);
-    console.log('Journey IDs para validar:', journeyIds);
-
-    // Check if courses exist
-    if (courseIds.length > 0) {
-      const existingCourses = await prisma.course.findMany({
-        where: { id: { in: courseIds } },
-        select: { id: true, title: true, price: true }
-      });
-      
-      const existingCourseIds = new Set(existingCourses.map(c => c.id));
-      const missingCourses = courseIds.filter(id => !existingCourseIds.has(id));
-      
-      if (missingCourses.length > 0) {
-        return NextResponse.json(
-          { error: `Cursos não encontrados: ${missingCourses.join(', ')}` },
-          { status: 404 }
-        );
-      }
-    }
+    const effectiveInstallments = method !== 'pix' ? Math.max(1, Number(installments) || 1) : 1;
 
-    // Check if journeys exist
-    if (journeyIds.length > 0) {
-      console.log('Validando jornadas:', journeyIds);
-      const existingJourneys = await prisma.journey.findMany({
-        where: { id: { in: journeyIds } },
-        select: { id: true, title: true, price: true }
-      });
-      
-      console.log('Jornadas encontradas no banco:', existingJourneys.map(j => j.id));
-      const existingJourneyIds = new Set(existingJourneys.map(j => j.id));
-      const missingJourneys = journeyIds.filter(id => !existingJourneyIds.has(id));
-      
-      if (missingJourneys.length > 0) {
-        console.error('Jornadas não encontradas:', missingJourneys);
+    // Monta o pedido com títulos e preços do banco; valores do navegador são apenas conferidos
+    let order;
+    try {
+      order = await buildServerOrder(
+        items.map((item: { id: string; type?: string }) => ({ id: item.id, type: item.type })),
+        effectiveInstallments
+      );
+      assertClientTotal(order, total);
+    } catch (error) {
+      if (error instanceof CheckoutError) {
+        console.error(`Pedido rejeitado (${error.code}):`, error.message, { clientTotal: total });
         return NextResponse.json(
-          { error: `Jornadas não encontradas: ${missingJourneys.join(', ')}` },
-          { status: 404 }
+          { error: error.message, code: error.code },
+          { status: error.status }
         );
       }
+      throw error;
     }
 
-    // Validate and enrich items with database data
-    const enrichedItems = normalizedItems.map(item => ({
-      ...item,
-      // Ensure required fields have default values
-      title: item.title || (item.type === 'curso' ? 'Curso' : 'Jornada'),
-      price: item.price || 0,
-      quantity: item.quantity || 1,
-      imageUrl: item.imageUrl || ''
-    }));
+    console.log('Pedido calculado no servidor:', JSON.stringify(order, null, 2));
 
+    const enrichedItems = order.items;
 
-    // Calcular o total se não fornecido (em centavos)
-    const calculatedTotalInCents = total || enrichedItems.reduce((sum, item) => sum + (item.price! * item.quantity), 0);
+    // Valores em centavos calculados no servidor (inclui acréscimo de parcelamento)
+    const calculatedTotalInCents = order.total;
     // Mercado Pago espera valores em reais (float), então convertemos de centavos para reais
     const calculatedTotalInReais = calculatedTotalInCents / 100;
     const description = enrichedItems.length === 1
       ? enrichedItems[0].title
       : `${enrichedItems.length} itens no carrinho`;
 
+    // Registra a tentativa antes de falar com o gateway; o webhook reconcilia o status depois
+    const pendingOrder = await createPendingOrder(userId, order, method, effectiveInstallments);
+    console.log(`Pedido ${pendingOrder.id} criado com status PENDING`);
+
     const payment = new Payment(mp);
 
     const mpData = {
       transaction_amount: calculatedTotalInReais,
       payment_method_id: method,
-      installments: method !== 'pix' ? installments : 1,
+      installments: effectiveInstallments,
       ...(issuer_id && { issuer_id }),
       ...(token && { token }),
       ...(method === "pix" && {
@@ -210,10 +109,11 @@ export async function POST(req: Request) {
         })
       },
       description,
-      external_reference: `order-${Date.now()}`,
+      external_reference: pendingOrder.id,
       notification_url: `${process.env.NEXT_PUBLIC_URL}/api/mercado-pago/webhook`,
       metadata: {
         userId,
+        orderId: pendingOrder.id,
         items: enrichedItems.map(item => ({
           id: item.id,
           type: item.type,
@@ -234,7 +134,7 @@ export async function POST(req: Request) {
           ...(item.imageUrl && { picture_url: item.imageUrl }),
         })),
       },
-      statement_descriptor: "PROGRAMACAO.DEV",
+      statement_descriptor: await getSetting("statementDescriptor"),
       binary_mode: true,
     };
 
@@ -272,6 +172,7 @@ export async function POST(req: Request) {
         status: mpError.status,
         statusCode: mpError.statusCode
       });
+      await transitionOrder(pendingOrder.id, 'FAILED');
       return NextResponse.json(
         {
           error: "Erro ao processar pagamento no gateway",
@@ -283,6 +184,7 @@ export async function POST(req: Request) {
 
     if (!response?.id) {
       console.error('Resposta do Mercado Pago sem ID:', response);
+      await transitionOrder(pendingOrder.id, 'FAILED');
       return NextResponse.json(
         { error: "Falha ao processar pagamento no gateway" },
         { status: 500 }
@@ -291,36 +193,6 @@ export async function POST(req: Request) {
 
     const mpPaymentId = response.id?.toString()!;
 
-    // Double-check that all items still exist before creating payment
-    console.log('Revalidando itens antes de criar pagamento...');
-    for (const item of enrichedItems) {
-      if (item.type === 'curso') {
-        const course = await prisma.course.findUnique({
-          where: { id: item.id },
-          select: { id: true }
-        });
-        if (!course) {
-          console.error(`Curso não encontrado antes de criar pagamento: ${item.id}`);
-          return NextResponse.json(
-            { error: `Curso não encontrado: ${item.id}` },
-            { status: 404 }
-          );
-        }
-      } else if (item.type === 'jornada') {
-        const journey = await prisma.journey.findUnique({
-          where: { id: item.id },
-          select: { id: true }
-        });
-        if (!journey) {
-          console.error(`Jornada não encontrada antes de criar pagamento: ${item.id}`);
-          return NextResponse.json(
-            { error: `Jornada não encontrada: ${item.id}` },
-            { status: 404 }
-          );
-        }
-      }
-    }
-
     // Create payment record with items in a transaction
     let paymentRecord;
     
@@ -328,7 +200,9 @@ export async function POST(req: Request) {
     const paymentMetadata = {
       userId,
       method: method, // Garantir que o método seja salvo corretamente
-      installments,
+      installments: effectiveInstallments,
+      orderId: pendingOrder.id,
+      subtotal: order.subtotal,
       items: enrichedItems,
       ...(response.point_of_interaction?.transaction_data && {
         qr_code: response.point_of_interaction.transaction_data.qr_code,
@@ -340,53 +214,27 @@ export async function POST(req: Request) {
     console.log('Metadata que será salvo no pagamento:', JSON.stringify(paymentMetadata, null, 2));
     console.log('Método do pagamento:', method);
     
-    paymentRecord = await prisma.$transaction(async (prisma) => {
-      // 1. Create the payment
-      const payment = await prisma.payment.create({
-        data: {
-          userId,
-          mpPaymentId,
-          status: "PENDING",
-          amount: calculatedTotalInCents,
-          metadata: paymentMetadata,
-          // Create related payment items
-          items: {
-            create: enrichedItems.map(item => {
-              const isCourse = item.type === 'curso';
-              const price = Number(item.price); // Ensure it's a number
-              if (isNaN(price)) {
-                throw new Error(`Preço inválido para ${isCourse ? 'curso' : 'jornada'}: ${item.id}`);
-              }
-
-              const paymentItemData: any = {
-                itemType: (isCourse ? 'COURSE' : 'JOURNEY') as 'COURSE' | 'JOURNEY',
-                ...(isCourse
-                  ? { courseId: item.id }
-                  : { journeyId: item.id }
-                ),
-                quantity: item.quantity,
-                price: price, // Now definitely a number
-                title: item.title,
-                description: isCourse ? 'Curso' : 'Jornada',
-              };
-
-              console.log(`Criando PaymentItem:`, {
-                type: isCourse ? 'COURSE' : 'JOURNEY',
-                id: item.id,
-                courseId: isCourse ? item.id : undefined,
-                journeyId: !isCourse ? item.id : undefined,
-              });
-
-              return paymentItemData;
-            })
-          }
-        },
-        include: {
-          items: true // Include the created items in the response
+    // upsert: o webhook pode ter chegado antes e já criado o pagamento a partir do pedido
+    paymentRecord = await prisma.payment.upsert({
+      where: { mpPaymentId },
+      create: {
+        userId,
+        orderId: pendingOrder.id,
+        mpPaymentId,
+        status: "PENDING",
+        amount: calculatedTotalInCents,
+        metadata: paymentMetadata,
+        items: {
+          create: paymentItemsFromOrder(pendingOrder.items)
         }
-      });
-
-      return payment;
+      },
+      update: {
+        orderId: pendingOrder.id,
+        metadata: paymentMetadata,
+      },
+      include: {
+        items: true
+      }
     });
 
     return NextResponse.json({
@@ -394,6 +242,7 @@ export async function POST(req: Request) {
       status: response.status,
       status_detail: response.status_detail,
       point_of_interaction: response.point_of_interaction,
+      order_id: pendingOrder.id,
       payment_record: paymentRecord
     });
 
@@ -404,4 +253,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,147 +1,40 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { MercadoPagoConfig, PaymentRefund } from "mercadopago";
+import { refundPaymentItems, RefundError } from "@/lib/refunds";
+import { withAuth, type SessionUser } from "@/lib/with-auth";
 
-type PaymentItem = {
-  id: string;
-  type: 'curso' | 'jornada';
-  quantity?: number;
-  price?: number;
-  title?: string;
-};
+// Só o comprador pede reembolso; um id inexistente segue para o 404 do handler
+async function ownsPayment(user: SessionUser, params: unknown, req: NextRequest) {
+  const { paymentId } = (await req.clone().json().catch(() => ({}))) as { paymentId?: string };
+  if (!paymentId) return true;
 
-type PaymentMetadata = {
-  items?: PaymentItem[];
-  durationMonths?: number;
-  [key: string]: any;
-};
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: { userId: true },
+  });
+  return !payment || payment.userId === user.id;
+}
 
-const client = new MercadoPagoConfig({ accessToken: process.env.MP_ACCESS_TOKEN! });
+/**
+ * Reembolso pedido pelo comprador: { paymentId, itemIds? }. Só vale para
+ * pagamentos do usuário da sessão.
+ */
+export const POST = withAuth({ ownership: ownsPayment }, async (req, { user }) => {
+  const userId = user.id;
 
-export async function POST(req: Request) {
   try {
-    const { paymentId, userId } = await req.json();
-    console.log(`Iniciando processo de reembolso para pagamento ${paymentId}, usuário ${userId}`);
-
-    // Buscar pagamento com itens e reembolsos
-    const payment = await prisma.payment.findUnique({
-      where: { id: paymentId },
-      include: {
-        items: true,
-        refunds: true,
-        user: {
-          select: {
-            id: true,
-            email: true
-          }
-        }
-      }
-    });
+    const { paymentId, itemIds } = await req.json() as {
+      paymentId: string;
+      itemIds?: string[];
+    };
+    console.log(`Iniciando processo de reembolso para pagamento ${paymentId}, usuário ${userId}`, { itemIds });
 
-    if (!payment) {
-      console.error(`Pagamento não encontrado: ${paymentId}`);
-      return NextResponse.json({ error: "Pagamento não encontrado" }, { status: 404 });
+    if (itemIds !== undefined && !Array.isArray(itemIds)) {
+      return NextResponse.json({ error: "itemIds deve ser uma lista" }, { status: 400 });
     }
 
-    if (payment.userId !== userId) {
-      console.error(`Acesso não autorizado: usuário ${userId} tentou reembolsar pagamento de outro usuário`);
-      return NextResponse.json({ error: "Não autorizado" }, { status: 403 });
-    }
-
-    // Verificar se já existe um reembolso aprovado
-    const hasApprovedRefund = payment.refunds.some(r => r.status === 'COMPLETED' || r.status === 'APPROVED');
-    if (hasApprovedRefund) {
-      console.error(`Já existe um reembolso aprovado para o pagamento ${paymentId}`);
-      return NextResponse.json({ 
-        error: "Este pagamento já foi reembolsado" 
-      }, { status: 400 });
-    }
-
-    // 7 dias de limite para reembolso
-    const limitDate = new Date(payment.createdAt);
-    limitDate.setDate(limitDate.getDate() + 7);
-
-    if (new Date() > limitDate) {
-      console.error(`Tentativa de reembolso após o prazo para o pagamento ${paymentId}`);
-      return NextResponse.json({ 
-        error: "Reembolso permitido somente até 7 dias após a compra" 
-      }, { status: 400 });
-    }
-
-    console.log(`Criando reembolso no Mercado Pago para o pagamento ${payment.mpPaymentId}`);
-    
-    // Criar reembolso no Mercado Pago
-    const refundClient = new PaymentRefund(client);
-    let mpRefund;
-    
-    try {
-      // Calcular o valor total dos itens para reembolso
-      const totalAmount = payment.items.reduce((sum, item) => sum + (item.price * (item.quantity || 1)), 0);
-      
-      mpRefund = await refundClient.create({
-        payment_id: payment.mpPaymentId
-      });
-      console.log(`Reembolso criado no Mercado Pago: ${mpRefund.id}`);
-    } catch (mpError: any) {
-      console.error('Erro ao criar reembolso no Mercado Pago:', mpError);
-      return NextResponse.json({ 
-        error: `Falha ao processar reembolso: ${mpError.message || 'Erro desconhecido'}`,
-        details: mpError.cause || undefined
-      }, { status: 500 });
-    }
-
-    // Iniciar transação para garantir consistência dos dados
-    const [refund] = await prisma.$transaction([
-      // Registrar reembolso no banco
-      prisma.refund.create({
-        data: {
-          paymentId,
-          mpRefundId: mpRefund.id?.toString() ?? null,
-          status: mpRefund.status!,
-          amount: payment.amount,
-        },
-      }),
-      
-      // Atualizar status do pagamento para REFUNDED
-      prisma.payment.update({
-        where: { id: paymentId },
-        data: { 
-          status: 'REFUNDED',
-          updatedAt: new Date()
-        },
-      }),
-    ]);
-
-    console.log(`Reembolso registrado com sucesso: ${refund.id}`);
-
-    // Revogar acesso imediatamente
-    try {
-      console.log(`Iniciando remoção de acesso para ${payment.items.length} itens do usuário ${userId}`);
-      
-      await Promise.all(
-        payment.items.map(async (item) => {
-          if (item.itemType === 'COURSE' && item.courseId) {
-            console.log(`Removendo acesso ao curso ${item.courseId} para o usuário ${userId}`);
-            await prisma.enrollment.deleteMany({
-              where: { userId, courseId: item.courseId }
-            });
-            console.log(`Acesso ao curso ${item.courseId} removido com sucesso`);
-          } else if (item.itemType === 'JOURNEY' && item.journeyId) {
-            console.log(`Removendo acesso à jornada ${item.journeyId} para o usuário ${userId}`);
-            await prisma.enrollment.deleteMany({
-              where: { userId, journeyId: item.journeyId }
-            });
-            console.log(`Acesso à jornada ${item.journeyId} removido com sucesso`);
-          }
-        })
-      );
-      
-      console.log(`Acesso a todos os itens revogado com sucesso`);
-    } catch (accessError) {
-      // Mesmo se falhar em remover o acesso, registra o erro mas não falha a operação
-      // O webhook vai tentar novamente quando o status do pagamento for atualizado
-      console.error('Erro ao remover acesso após reembolso:', accessError);
-    }
+    const { refund, payment, items } = await refundPaymentItems({ paymentId, userId, itemIds });
+    const fullyRefunded = payment.status === "REFUNDED";
 
     return NextResponse.json({ 
       success: true, 
@@ -150,20 +43,30 @@ export async function POST(req: Request) {
         status: refund.status,
         amount: refund.amount,
         paymentId: refund.paymentId,
-        items: payment.items.map(item => ({
+        paymentStatus: payment.status,
+        items: items.map(item => ({
           id: item.courseId || item.journeyId,
+          paymentItemId: item.id,
           type: item.itemType === 'COURSE' ? 'course' : 'journey',
           title: item.title,
           quantity: item.quantity,
-          price: item.price
+          price: item.price,
+          refundedAmount: refund.items.find(r => r.paymentItemId === item.id)?.amount ?? 0
         }))
       },
-      message: 'Reembolso processado com sucesso. O acesso aos itens foi revogado.'
+      message: fullyRefunded
+        ? 'Reembolso processado com sucesso. O acesso aos itens foi revogado.'
+        : 'Reembolso parcial processado com sucesso. O acesso aos itens reembolsados foi revogado.'
     });
   } catch (err: any) {
+    if (err instanceof RefundError) {
+      console.error(`Reembolso rejeitado (${err.code}):`, err.message);
+      return NextResponse.json({ error: err.message, code: err.code }, { status: err.status });
+    }
+
     console.error('Erro ao processar reembolso:', err);
     
-    // Se for um erro de validação do Prisma, retornar mensagem mais amigável
+    // Dois pedidos simultâneos para o mesmo item batem no unique de RefundItem
     if (err.code === 'P2002') {
       return NextResponse.json({ 
         error: "Já existe um reembolso em andamento para este pagamento"
@@ -179,4 +82,4 @@ export async function POST(req: Request) {
       } : undefined
     }, { status: 500 });
   }
-}
+});
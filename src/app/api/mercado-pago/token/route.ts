@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { MercadoPagoConfig, CardToken } from "mercadopago";
+import { withAuth } from "@/lib/with-auth";
 
 const mp = new MercadoPagoConfig({
   accessToken: process.env.MP_ACCESS_TOKEN!,
@@ -9,7 +10,7 @@ const mp = new MercadoPagoConfig({
  * Gera um token de cartão do Mercado Pago
  * Esta rota recebe os dados do cartão e retorna um token seguro
  */
-export async function POST(req: Request) {
+export const POST = withAuth({}, async (req) => {
   try {
     const { cardNumber, cardholderName, cardExpirationMonth, cardExpirationYear, securityCode, identificationType, identificationNumber } = await req.json();
 
@@ -62,5 +63,5 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,31 +1,21 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { withAuth, type SessionUser } from '@/lib/with-auth';
 
-export async function GET(
-  request: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return new NextResponse(
-        JSON.stringify({ error: 'Não autorizado' }),
-        { 
-          status: 401,
-          headers: {
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-    }
+// Só o comprador vê o pagamento; um id inexistente segue para o 404 do handler
+async function ownsPayment(user: SessionUser, params: { id: string }) {
+  const payment = await prisma.payment.findUnique({
+    where: { mpPaymentId: params.id },
+    select: { userId: true },
+  });
+  return !payment || payment.userId === user.id;
+}
 
-    const payment = await prisma.payment.findFirst({
+export const GET = withAuth<{ id: string }>({ ownership: ownsPayment }, async (request, { params }) => {
+  try {
+    const payment = await prisma.payment.findUnique({
       where: {
-        mpPaymentId: (await params).id,
-        userId: session.user.id,
+        mpPaymentId: params.id,
       },
       include: {
         refunds: true,
@@ -63,4 +53,4 @@ export async function GET(
       }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,20 +1,13 @@
-import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { withAuth } from '@/lib/with-auth';
 
-export async function GET(request: Request) {
+export const GET = withAuth({}, async (request, { user: sessionUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const courseId = searchParams.get('courseId');
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return new NextResponse('Unauthorized', { status: 401 });
-    }
-
     const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
+      where: { id: sessionUser.id },
       select: { id: true }
     });
 
@@ -51,4 +44,4 @@ export async function GET(request: Request) {
     console.error('Error fetching payments:', error);
     return new NextResponse('Internal Server Error', { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
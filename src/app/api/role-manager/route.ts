@@ -1,54 +1,39 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
-
-
-// ----------------------------------
-// Middleware: permitir apenas ADMIN
-// ----------------------------------
-async function requireAdmin() {
-  const session = await getServerSession(authOptions);
-
-  if (!session || session.user.role !== "ADMIN") {
-    return null;
-  }
-
-  return session;
-}
+import { isUserRole } from "@/lib/roles";
+import { withAuth } from "@/lib/with-auth";
+import type { UserRole } from "@/generated/prisma/enums";
 
 
 // ----------------------------------
 // GET: Lista todos os RoleEmails
 // ----------------------------------
-export async function GET() {
-  const session = await requireAdmin();
-  if (!session) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-
+export const GET = withAuth({ permission: "role:manage" }, async () => {
   const emails = await prisma.roleEmail.findMany({
     orderBy: { createdAt: "desc" },
   });
 
   return NextResponse.json(emails);
-}
+});
 
 
 // ----------------------------------
 // POST: Cadastrar novo email + role
 // ----------------------------------
-export async function POST(req: Request) {
-  const session = await requireAdmin();
-  if (!session) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-
+export const POST = withAuth({ permission: "role:manage" }, async (req) => {
   const { email, role } = await req.json() as {
     email?: string;
-    role?: "ADMIN" | "MODERATOR";
+    role?: UserRole;
   };
 
   if (!email || !role) {
     return NextResponse.json({ error: "Email e role são obrigatórios" }, { status: 400 });
   }
 
+  if (!isUserRole(role) || role === "USER") {
+    return NextResponse.json({ error: "Role inválida" }, { status: 400 });
+  }
+
   try {
     const created = await prisma.roleEmail.create({
       data: { email, role },
@@ -58,16 +43,13 @@ export async function POST(req: Request) {
   } catch (err) {
     return NextResponse.json({ error: "Email já registrado" }, { status: 409 });
   }
-}
+});
 
 
 // ----------------------------------
 // DELETE: Remover email autorizado
 // ----------------------------------
-export async function DELETE(req: Request) {
-  const session = await requireAdmin();
-  if (!session) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-
+export const DELETE = withAuth({ permission: "role:manage" }, async (req) => {
   const { email } = await req.json() as { email?: string };
 
   if (!email) {
@@ -79,4 +61,4 @@ export async function DELETE(req: Request) {
   });
 
   return NextResponse.json({ success: true });
-}
+});
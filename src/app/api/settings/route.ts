@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getPublicSettings } from "@/lib/settings";
+
+/**
+ * Configurações usadas pelo navegador, como o acréscimo do parcelamento
+ * exibido no checkout.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getPublicSettings());
+  } catch (error) {
+    console.error("Error fetching public settings:", error);
+    return NextResponse.json({ error: "Erro ao carregar configurações" }, { status: 500 });
+  }
+}
@@ -1,19 +1,33 @@
-import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { getProgressByLesson, summarizeCourseProgress } from '@/lib/progress';
+import { getUnreadAnnouncementCounts } from '@/lib/announcements';
+import { withAuth } from '@/lib/with-auth';
 
-export async function GET() {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return new NextResponse('Unauthorized', { status: 401 });
+const courseOutline = {
+  include: {
+    modules: {
+      include: {
+        lessons: {
+          select: {
+            id: true,
+            title: true,
+            order: true,
+            duration: true
+          },
+          orderBy: { order: 'asc' as const }
+        }
+      },
+      orderBy: { order: 'asc' as const }
     }
+  }
+};
 
+export const GET = withAuth({}, async (request, { user: sessionUser }) => {
+  try {
     // Get user with their enrollments, courses, and journeys
     const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
+      where: { id: sessionUser.id },
       include: {
         enrollments: {
           where: {
@@ -23,42 +37,12 @@ export async function GET() {
             ]
           },
           include: {
-            course: {
-              include: {
-                modules: {
-                  include: {
-                    lessons: {
-                      select: {
-                        id: true,
-                        title: true,
-                        order: true
-                      },
-                      orderBy: { order: 'asc' }
-                    }
-                  },
-                  orderBy: { order: 'asc' }
-                }
-              }
-            },
+            course: courseOutline,
             journey: {
               include: {
                 courses: {
                   include: {
-                    course: {
-                      include: {
-                        modules: {
-                          include: {
-                            lessons: {
-                              select: {
-                                id: true,
-                                title: true,
-                                order: true
-                              }
-                            }
-                          }
-                        }
-                      }
-                    }
+                    course: courseOutline
                   },
                   orderBy: { order: 'asc' }
                 }
@@ -73,14 +57,47 @@ export async function GET() {
       return new NextResponse('User not found', { status: 404 });
     }
 
+    const allCourses = user.enrollments.flatMap(e => [
+      ...(e.course ? [e.course] : []),
+      ...(e.journey?.courses.map(c => c.course) ?? [])
+    ]);
+    const lessonIds = allCourses.flatMap(course =>
+      course.modules.flatMap(module => module.lessons.map(lesson => lesson.id))
+    );
+    const records = await getProgressByLesson(user.id, lessonIds);
+    const certificates = await prisma.certificate.findMany({
+      where: { userId: user.id, revokedAt: null },
+      select: { courseId: true, code: true, issuedAt: true }
+    });
+    const certificateByCourse = new Map(certificates.map(c => [c.courseId, c]));
+    const unreadAnnouncements = await getUnreadAnnouncementCounts(user.id, allCourses.map(course => course.id));
+
+    // Anexa o progresso em cada aula, o resumo, o certificado e os avisos não lidos no curso
+    const withProgress = (course: typeof allCourses[number]) => ({
+      ...course,
+      modules: course.modules.map(module => ({
+        ...module,
+        lessons: module.lessons.map(lesson => ({
+          ...lesson,
+          progress: records.get(lesson.id) ?? null
+        }))
+      })),
+      progress: summarizeCourseProgress(course.modules, records),
+      certificate: certificateByCourse.get(course.id) ?? null,
+      unreadAnnouncements: unreadAnnouncements.get(course.id) ?? 0
+    });
+
     // Separate courses and journeys
     const courses = user.enrollments
       .filter(e => e.course && !e.journey)
-      .map(e => e.course!);
+      .map(e => withProgress(e.course!));
 
     const journeys = user.enrollments
       .filter(e => e.journey)
-      .map(e => e.journey!);
+      .map(e => ({
+        ...e.journey!,
+        courses: e.journey!.courses.map(c => ({ ...c, course: withProgress(c.course) }))
+      }));
 
     return NextResponse.json({ courses, journeys });
 
@@ -88,4 +105,4 @@ export async function GET() {
     console.error('Error fetching enrollments:', error);
     return new NextResponse('Internal Server Error', { status: 500 });
   }
-}
\ No newline at end of file
+});
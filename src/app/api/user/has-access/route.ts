@@ -1,9 +1,8 @@
-import { getServerSession } from "next-auth/next";
 import { NextResponse } from "next/server";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withAuth } from "@/lib/with-auth";
 
-export async function GET(request: Request) {
+export const GET = withAuth({ optional: true }, async (request, { user }) => {
   const { searchParams } = new URL(request.url);
   const typeParam = searchParams.get('type');
   const id = searchParams.get('id');
@@ -15,13 +14,12 @@ export async function GET(request: Request) {
   // Normalize type (accept both 'course'/'journey' and 'curso'/'jornada')
   const type = typeParam === 'curso' ? 'course' : typeParam === 'jornada' ? 'journey' : typeParam;
 
-  const session = await getServerSession(authOptions);
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ hasAccess: false });
   }
 
   try {
-    const userId = session.user.id;
+    const userId = user.id;
     let hasAccess = false;
     const now = new Date();
 
@@ -72,4 +70,4 @@ export async function GET(request: Request) {
     console.error("Error checking access:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { REAUTH_REQUIRED, passwordSchema } from "@/lib/credentials";
+
+const passwordFormSchema = z
+  .object({
+    currentPassword: z.string().optional(),
+    password: passwordSchema,
+    confirmation: z.string(),
+  })
+  .refine((data) => data.password === data.confirmation, {
+    message: "As senhas não conferem",
+    path: ["confirmation"],
+  });
+
+type PasswordFormData = z.infer<typeof passwordFormSchema>;
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900";
+
+interface PasswordFormProps {
+  hasPassword: boolean;
+  onSaved: () => void;
+  onReauthRequired: () => void;
+}
+
+/**
+ * Cria a senha (contas só com login social) ou troca a senha atual.
+ */
+export function PasswordForm({ hasPassword, onSaved, onReauthRequired }: PasswordFormProps) {
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<PasswordFormData>({
+    resolver: zodResolver(passwordFormSchema),
+  });
+
+  async function onSubmit(data: PasswordFormData) {
+    setFormError(null);
+    setSaved(false);
+
+    try {
+      const response = await fetch("/api/account/password", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword: data.currentPassword, password: data.password }),
+      });
+      const result = await response.json();
+
+      if (result.code === REAUTH_REQUIRED) {
+        onReauthRequired();
+        return;
+      }
+      if (!response.ok) {
+        setFormError(result.error ?? "Não foi possível salvar a senha.");
+        return;
+      }
+
+      reset();
+      setSaved(true);
+      onSaved();
+    } catch (error) {
+      setFormError("Erro inesperado. Tente novamente.");
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {hasPassword && (
+        <div className="space-y-1">
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+            Senha atual
+          </label>
+          <input
+            id="currentPassword"
+            type="password"
+            autoComplete="current-password"
+            className={inputClass}
+            {...register("currentPassword")}
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+          {hasPassword ? "Nova senha" : "Senha"}
+        </label>
+        <input id="password" type="password" autoComplete="new-password" className={inputClass} {...register("password")} />
+        {errors.password && <p className="text-xs text-red-500">{errors.password.message}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">
+          Confirme a senha
+        </label>
+        <input
+          id="confirmation"
+          type="password"
+          autoComplete="new-password"
+          className={inputClass}
+          {...register("confirmation")}
+        />
+        {errors.confirmation && <p className="text-xs text-red-500">{errors.confirmation.message}</p>}
+      </div>
+
+      {formError && <p className="text-sm text-red-600">{formError}</p>}
+      {saved && <p className="text-sm text-emerald-700">Senha salva.</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+      >
+        {isSubmitting ? "Salvando..." : hasPassword ? "Trocar senha" : "Criar senha"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { REAUTH_REQUIRED } from "@/lib/credentials";
+import {
+  RecoveryCodesList,
+  TwoFactorSetupData,
+  TwoFactorSetupInstructions,
+} from "@/components/TwoFactor";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900";
+
+interface TwoFactorSectionProps {
+  onReauthRequired: () => void;
+}
+
+/**
+ * Ativa ou desativa a verificação em duas etapas e gera novos códigos de
+ * recuperação. Para a equipe o 2FA é obrigatório e não pode ser desativado.
+ */
+export function TwoFactorSection({ onReauthRequired }: TwoFactorSectionProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/two-factor");
+      if (!response.ok) throw new Error();
+      setStatus(await response.json());
+    } catch (error) {
+      setError("Não foi possível carregar a verificação em duas etapas.");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  async function request(url: string, method: string, body?: object) {
+    setError(null);
+    setBusy(true);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (result.code === REAUTH_REQUIRED) {
+        onReauthRequired();
+        return null;
+      }
+      if (!response.ok) {
+        setError(result.error ?? "Não foi possível concluir a operação.");
+        return null;
+      }
+      return result;
+    } catch (error) {
+      setError("Erro inesperado. Tente novamente.");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function startSetup() {
+    setRecoveryCodes(null);
+    const result = await request("/api/account/two-factor", "POST");
+    if (result) setSetup(result);
+  }
+
+  async function confirmSetup(event: React.FormEvent) {
+    event.preventDefault();
+    const result = await request("/api/account/two-factor", "PUT", { code });
+    if (!result) return;
+
+    setSetup(null);
+    setCode("");
+    setRecoveryCodes(result.recoveryCodes);
+    await loadStatus();
+  }
+
+  async function regenerateCodes() {
+    if (!confirm("Gerar novos códigos de recuperação? Os códigos atuais deixarão de valer.")) return;
+
+    const result = await request("/api/account/two-factor/recovery-codes", "POST", { code });
+    if (!result) return;
+
+    setCode("");
+    setRecoveryCodes(result.recoveryCodes);
+    await loadStatus();
+  }
+
+  async function disable() {
+    if (!confirm("Desativar a verificação em duas etapas?")) return;
+
+    const result = await request("/api/account/two-factor", "DELETE", { code });
+    if (!result) return;
+
+    setCode("");
+    setRecoveryCodes(null);
+    await loadStatus();
+  }
+
+  const codeInput = (
+    <input
+      autoComplete="one-time-code"
+      placeholder={status?.enabled ? "Código do app ou de recuperação" : "Código de 6 dígitos"}
+      value={code}
+      onChange={(event) => setCode(event.target.value)}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <section className="space-y-4 rounded-lg bg-white p-6 shadow">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Verificação em duas etapas</h2>
+        <p className="text-sm text-gray-500">
+          {status?.required
+            ? "Obrigatória para a sua conta: além da senha ou do provedor, o login pede um código do app autenticador."
+            : "Além da senha ou do provedor, o login pede um código do app autenticador."}
+        </p>
+      </div>
+
+      {status && status.enabled && (
+        <p className="text-sm text-gray-700">
+          Ativa
+          {status.enabledAt ? ` desde ${format(new Date(status.enabledAt), "dd/MM/yyyy", { locale: ptBR })}` : ""} ·{" "}
+          {status.recoveryCodesRemaining} código{status.recoveryCodesRemaining !== 1 ? "s" : ""} de recuperação
+          disponíve{status.recoveryCodesRemaining !== 1 ? "is" : "l"}
+        </p>
+      )}
+
+      {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+      {status && !status.enabled && !setup && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={startSetup}
+          className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+        >
+          Ativar verificação em duas etapas
+        </button>
+      )}
+
+      {setup && (
+        <form onSubmit={confirmSetup} className="space-y-4">
+          <TwoFactorSetupInstructions setup={setup} />
+          <div className="flex gap-2">
+            {codeInput}
+            <button
+              type="submit"
+              disabled={busy || !code.trim()}
+              className="shrink-0 rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+            >
+              {busy ? "Ativando..." : "Ativar"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status?.enabled && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Para gerar novos códigos ou desativar, informe um código.</p>
+          <div className="flex flex-wrap gap-2">
+            <div className="min-w-[16rem] flex-1">{codeInput}</div>
+            <button
+              type="button"
+              disabled={busy || !code.trim()}
+              onClick={regenerateCodes}
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+            >
+              Gerar novos códigos
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                disabled={busy || !code.trim()}
+                onClick={disable}
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+              >
+                Desativar
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </section>
+  );
+}
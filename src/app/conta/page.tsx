@@ -0,0 +1,394 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { signIn } from "next-auth/react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  PROVIDER_LABELS,
+  REAUTH_REQUIRED,
+  SOCIAL_PROVIDERS,
+  SocialProvider,
+  TWO_FACTOR_REQUIRED,
+} from "@/lib/credentials";
+import { PasswordForm } from "./_components/password-form";
+import { TwoFactorSection } from "./_components/two-factor-section";
+
+interface AccountData {
+  name: string | null;
+  email: string | null;
+  hasPassword: boolean;
+  passwordUpdatedAt: string | null;
+  providers: { provider: SocialProvider; linkedAt: string }[];
+  recentlyAuthenticated: boolean;
+  reauthExpiresAt: number | null;
+}
+
+// Retornos do login social com ?erro=
+const ACCOUNT_ERRORS: Record<string, string> = {
+  vinculo: "Para vincular outro provedor, confirme sua identidade e use o botão \"Vincular\" abaixo.",
+};
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900";
+
+function formatDate(value: string) {
+  return format(new Date(value), "dd/MM/yyyy", { locale: ptBR });
+}
+
+export default function AccountPage() {
+  return (
+    <Suspense fallback={<div>Carregando...</div>}>
+      <AccountSettings />
+    </Suspense>
+  );
+}
+
+function AccountSettings() {
+  const searchParams = useSearchParams();
+  const [account, setAccount] = useState<AccountData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: "error" | "success"; text: string } | null>(() => {
+    const error = ACCOUNT_ERRORS[searchParams.get("erro") ?? ""];
+    return error ? { type: "error", text: error } : null;
+  });
+  const [busy, setBusy] = useState<string | null>(null);
+  const reauthRef = useRef<HTMLDivElement>(null);
+
+  const loadAccount = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account");
+      const result = await response.json();
+      // Reautenticação com 2FA ativo: falta informar o código
+      if (result.code === TWO_FACTOR_REQUIRED) {
+        window.location.assign("/2fa?callbackUrl=/conta");
+        return;
+      }
+      if (!response.ok) throw new Error();
+      setAccount(result);
+    } catch (error) {
+      setMessage({ type: "error", text: "Não foi possível carregar sua conta." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccount();
+  }, [loadAccount]);
+
+  function requireReauth() {
+    setAccount((current) => (current ? { ...current, recentlyAuthenticated: false } : current));
+    setMessage({ type: "error", text: "Confirme sua identidade para continuar." });
+    reauthRef.current?.scrollIntoView({ behavior: "smooth" });
+  }
+
+  async function linkProvider(provider: SocialProvider) {
+    setMessage(null);
+    setBusy(provider);
+
+    try {
+      const response = await fetch("/api/account/link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider }),
+      });
+      const result = await response.json();
+
+      if (result.code === REAUTH_REQUIRED) {
+        requireReauth();
+        return;
+      }
+      if (!response.ok) {
+        setMessage({ type: "error", text: result.error ?? "Não foi possível vincular o provedor." });
+        return;
+      }
+
+      await signIn(provider, { callbackUrl: "/conta" });
+    } catch (error) {
+      setMessage({ type: "error", text: "Erro inesperado. Tente novamente." });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function unlinkProvider(provider: SocialProvider) {
+    if (!confirm(`Desvincular ${PROVIDER_LABELS[provider]}? Você não poderá mais entrar por ele.`)) return;
+
+    setMessage(null);
+    setBusy(provider);
+
+    try {
+      const response = await fetch(`/api/account/providers/${provider}`, { method: "DELETE" });
+      const result = await response.json();
+
+      if (result.code === REAUTH_REQUIRED) {
+        requireReauth();
+        return;
+      }
+      if (!response.ok) {
+        setMessage({ type: "error", text: result.error ?? "Não foi possível desvincular o provedor." });
+        return;
+      }
+
+      setMessage({ type: "success", text: `${PROVIDER_LABELS[provider]} desvinculado.` });
+      await loadAccount();
+    } catch (error) {
+      setMessage({ type: "error", text: "Erro inesperado. Tente novamente." });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function revokeOtherSessions() {
+    if (!confirm("Encerrar sua sessão em todos os outros dispositivos e navegadores?")) return;
+
+    setMessage(null);
+    setBusy("sessions");
+
+    try {
+      const response = await fetch("/api/account/sessions", { method: "DELETE" });
+      if (!response.ok) throw new Error();
+      setMessage({ type: "success", text: "As outras sessões foram encerradas." });
+    } catch (error) {
+      setMessage({ type: "error", text: "Não foi possível encerrar as outras sessões." });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="text-sm text-gray-500">Carregando...</p>
+      </main>
+    );
+  }
+
+  if (!account) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="text-sm text-red-600">{message?.text ?? "Não foi possível carregar sua conta."}</p>
+      </main>
+    );
+  }
+
+  const linkedProviders = new Map(account.providers.map((item) => [item.provider, item]));
+
+  return (
+    <main className="min-h-screen bg-gray-50 px-4 py-10">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight text-gray-900">Minha conta</h1>
+            <p className="text-sm text-gray-500">
+              {account.name ? `${account.name} · ` : ""}
+              {account.email}
+            </p>
+          </div>
+          <Link href="/dashboard" className="text-sm text-gray-500 hover:text-gray-900">
+            Voltar ao painel
+          </Link>
+        </div>
+
+        {message && (
+          <p
+            className={`rounded-md p-3 text-sm ${
+              message.type === "error" ? "bg-red-50 text-red-700" : "bg-emerald-50 text-emerald-700"
+            }`}
+          >
+            {message.text}
+          </p>
+        )}
+
+        <div ref={reauthRef}>
+          {!account.recentlyAuthenticated && (
+            <ReauthBox
+              email={account.email}
+              hasPassword={account.hasPassword}
+              providers={account.providers.map((item) => item.provider)}
+              onConfirmed={() => {
+                setMessage({ type: "success", text: "Identidade confirmada." });
+                loadAccount();
+              }}
+            />
+          )}
+        </div>
+
+        <section className="space-y-4 rounded-lg bg-white p-6 shadow">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Formas de login</h2>
+            <p className="text-sm text-gray-500">
+              Vincular ou desvincular provedores exige que você tenha entrado nos últimos minutos.
+            </p>
+          </div>
+
+          <ul className="divide-y divide-gray-100">
+            {SOCIAL_PROVIDERS.map((provider) => {
+              const linked = linkedProviders.get(provider);
+              return (
+                <li key={provider} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{PROVIDER_LABELS[provider]}</p>
+                    <p className="text-xs text-gray-500">
+                      {linked ? `Vinculado em ${formatDate(linked.linkedAt)}` : "Não vinculado"}
+                    </p>
+                  </div>
+                  {linked ? (
+                    <button
+                      type="button"
+                      disabled={busy === provider}
+                      onClick={() => unlinkProvider(provider)}
+                      className="rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                    >
+                      Desvincular
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      disabled={busy === provider}
+                      onClick={() => linkProvider(provider)}
+                      className="rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                    >
+                      Vincular
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+            <li className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">E-mail e senha</p>
+                <p className="text-xs text-gray-500">
+                  {account.hasPassword
+                    ? `Senha definida${account.passwordUpdatedAt ? ` · alterada em ${formatDate(account.passwordUpdatedAt)}` : ""}`
+                    : "Sem senha"}
+                </p>
+              </div>
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-4 rounded-lg bg-white p-6 shadow">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{account.hasPassword ? "Trocar senha" : "Criar senha"}</h2>
+            <p className="text-sm text-gray-500">
+              {account.hasPassword
+                ? "Informe a senha atual para definir uma nova."
+                : "Com uma senha você também pode entrar com seu e-mail."}
+            </p>
+          </div>
+          <PasswordForm hasPassword={account.hasPassword} onSaved={loadAccount} onReauthRequired={requireReauth} />
+        </section>
+
+        <TwoFactorSection onReauthRequired={requireReauth} />
+
+        <section className="space-y-4 rounded-lg bg-white p-6 shadow">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Sessões</h2>
+            <p className="text-sm text-gray-500">
+              Encerra o acesso em todos os outros dispositivos e navegadores. Esta sessão continua ativa.
+            </p>
+          </div>
+          <button
+            type="button"
+            disabled={busy === "sessions"}
+            onClick={revokeOtherSessions}
+            className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+          >
+            {busy === "sessions" ? "Encerrando..." : "Sair das outras sessões"}
+          </button>
+        </section>
+      </div>
+    </main>
+  );
+}
+
+interface ReauthBoxProps {
+  email: string | null;
+  hasPassword: boolean;
+  providers: SocialProvider[];
+  onConfirmed: () => void;
+}
+
+/**
+ * Confirma a identidade entrando de novo com a senha ou um provedor já vinculado.
+ */
+function ReauthBox({ email, hasPassword, providers, onConfirmed }: ReauthBoxProps) {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function confirmWithPassword(event: React.FormEvent) {
+    event.preventDefault();
+    if (!email) return;
+
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const result = await signIn("credentials", { email, password, redirect: false });
+      if (!result || result.error) {
+        setError(result?.error ?? "Não foi possível confirmar. Tente novamente.");
+        return;
+      }
+
+      setPassword("");
+      onConfirmed();
+    } catch (error) {
+      setError("Erro inesperado. Tente novamente.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-lg border border-yellow-200 bg-yellow-50 p-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Confirme sua identidade</h2>
+        <p className="text-sm text-gray-600">
+          Para alterar as formas de login, entre novamente. A confirmação vale por alguns minutos.
+        </p>
+      </div>
+
+      {hasPassword && (
+        <form onSubmit={confirmWithPassword} className="flex gap-2">
+          <input
+            type="password"
+            autoComplete="current-password"
+            placeholder="Sua senha"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || !password}
+            className="shrink-0 rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow hover:bg-gray-800 disabled:opacity-60"
+          >
+            {isSubmitting ? "Confirmando..." : "Confirmar"}
+          </button>
+        </form>
+      )}
+
+      {providers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {providers.map((provider) => (
+            <button
+              key={provider}
+              type="button"
+              onClick={() => signIn(provider, { callbackUrl: "/conta" })}
+              className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+            >
+              Entrar com {PROVIDER_LABELS[provider]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </section>
+  );
+}
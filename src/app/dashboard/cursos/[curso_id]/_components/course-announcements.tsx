@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FaBullhorn, FaThumbtack } from 'react-icons/fa';
+import { getForumText } from '@/lib/forum';
+
+interface Announcement {
+  id: string;
+  title: string;
+  content: unknown;
+  isPinned: boolean;
+  createdAt: string;
+  author: { id: string; name: string | null; image: string | null };
+}
+
+/**
+ * Lista de avisos do curso. Abrir a lista marca os avisos como lidos; os que
+ * chegaram desde a última leitura aparecem destacados.
+ */
+export function CourseAnnouncements({ courseId, onRead }: { courseId: string; onRead?: () => void }) {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchAnnouncements = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/courses/${courseId}/announcements?page=${page}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Erro ao carregar avisos');
+
+        setAnnouncements(data.announcements);
+        setTotalPages(data.totalPages);
+        if (page === 1) {
+          setLastReadAt(data.lastReadAt);
+          onRead?.();
+        }
+      } catch (error) {
+        console.error('Error fetching announcements:', error);
+        setError(error instanceof Error ? error.message : 'Erro ao carregar avisos');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAnnouncements();
+  }, [courseId, page]);
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4 mt-6">
+        <div className="h-24 bg-gray-200 rounded"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="mt-6 text-sm text-red-600">{error}</p>;
+  }
+
+  if (announcements.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <FaBullhorn className="mx-auto h-10 w-10 text-gray-400" />
+        <p className="mt-2 text-gray-500">Nenhum aviso publicado neste curso.</p>
+      </div>
+    );
+  }
+
+  const isNew = (announcement: Announcement) =>
+    !lastReadAt || new Date(announcement.createdAt) > new Date(lastReadAt);
+
+  return (
+    <div className="mt-6 space-y-4">
+      {announcements.map((announcement) => (
+        <article
+          key={announcement.id}
+          className={`border rounded-lg p-4 ${announcement.isPinned ? 'border-blue-200 bg-blue-50' : 'border-gray-200'}`}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              {announcement.isPinned && <FaThumbtack className="h-3.5 w-3.5 text-blue-600" title="Fixado" />}
+              {announcement.title}
+            </h3>
+            {isNew(announcement) && (
+              <span className="px-2 py-0.5 text-xs font-semibold text-amber-800 bg-amber-100 rounded-full shrink-0">
+                Novo
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {announcement.author.name ?? 'Instrutor'} ·{' '}
+            {formatDistanceToNow(new Date(announcement.createdAt), { addSuffix: true, locale: ptBR })}
+          </p>
+          <p className="mt-3 text-sm text-gray-700 whitespace-pre-wrap">{getForumText(announcement.content)}</p>
+        </article>
+      ))}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between pt-2">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1.5 text-sm border rounded-md disabled:opacity-50"
+          >
+            Anterior
+          </button>
+          <span className="text-sm text-gray-500">
+            Página {page} de {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1.5 text-sm border rounded-md disabled:opacity-50"
+          >
+            Próxima
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { FaDownload, FaExclamationTriangle, FaInfoCircle, FaLightbulb, FaQuestionCircle } from "react-icons/fa";
+import { getVideoEmbedUrl, type LessonBlock, type LessonContent as LessonContentData } from "@/lib/lesson-content";
+
+interface LessonContentProps {
+  content: LessonContentData;
+}
+
+const calloutStyles = {
+  info: { className: "bg-blue-50 border-blue-200 text-blue-800", icon: FaInfoCircle },
+  tip: { className: "bg-green-50 border-green-200 text-green-800", icon: FaLightbulb },
+  warning: { className: "bg-yellow-50 border-yellow-200 text-yellow-800", icon: FaExclamationTriangle },
+  danger: { className: "bg-red-50 border-red-200 text-red-800", icon: FaExclamationTriangle },
+};
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function Block({ block }: { block: LessonBlock }) {
+  switch (block.type) {
+    case "rich_text":
+      return <div className="whitespace-pre-wrap text-gray-800">{block.markdown}</div>;
+
+    case "video":
+      return (
+        <div className="aspect-video w-full overflow-hidden rounded-lg bg-black">
+          <iframe
+            src={getVideoEmbedUrl(block.url)}
+            title={block.title}
+            className="h-full w-full"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+      );
+
+    case "code":
+      return (
+        <div className="overflow-hidden rounded-lg bg-gray-900">
+          <div className="px-4 py-2 text-xs text-gray-400 border-b border-gray-700">
+            {block.filename ?? block.language}
+          </div>
+          <pre className="overflow-x-auto p-4 text-sm text-gray-100">
+            <code>{block.code}</code>
+          </pre>
+        </div>
+      );
+
+    case "callout": {
+      const { className, icon: Icon } = calloutStyles[block.variant];
+      return (
+        <div className={`flex gap-3 rounded-lg border p-4 ${className}`}>
+          <Icon className="h-5 w-5 shrink-0 mt-0.5" />
+          <div>
+            {block.title && <p className="font-medium">{block.title}</p>}
+            <div className="whitespace-pre-wrap text-sm">{block.markdown}</div>
+          </div>
+        </div>
+      );
+    }
+
+    case "attachment":
+      return (
+        <a
+          href={block.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-3 rounded-lg border border-gray-200 p-4 hover:bg-gray-50"
+        >
+          <FaDownload className="h-5 w-5 text-gray-500" />
+          <span className="text-sm font-medium text-gray-900">{block.fileName}</span>
+          {block.sizeBytes !== undefined && (
+            <span className="text-xs text-gray-500">{formatFileSize(block.sizeBytes)}</span>
+          )}
+        </a>
+      );
+
+    case "quiz":
+      return (
+        <div className="flex items-center gap-3 rounded-lg border border-dashed border-gray-300 p-4 text-gray-600">
+          <FaQuestionCircle className="h-5 w-5" />
+          <span className="text-sm">{block.title ?? "Questionário"}</span>
+        </div>
+      );
+  }
+}
+
+/**
+ * Renderiza os blocos da aula na ordem em que foram gravados.
+ */
+export function LessonContent({ content }: LessonContentProps) {
+  if (content.blocks.length === 0) {
+    return <p className="text-gray-500">Esta aula ainda não tem conteúdo.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {content.blocks.map((block) => (
+        <Block key={block.id} block={block} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { FaArrowLeft, FaCheckCircle, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
+import { toast } from 'react-hot-toast';
+import type { LessonContent as LessonContentData } from '@/lib/lesson-content';
+import { LessonContent } from './_components/lesson-content';
+
+interface NavigationLesson {
+  id: string;
+  title: string;
+  moduleTitle: string;
+}
+
+interface Lesson {
+  id: string;
+  title: string;
+  content: LessonContentData;
+  order: number;
+  duration: number;
+  module: {
+    id: string;
+    title: string;
+    order: number;
+  };
+  course: {
+    id: string;
+    title: string;
+  };
+  progress: {
+    completed: boolean;
+    position: number;
+    lastAccessedAt: string;
+  } | null;
+  navigation: {
+    previous: NavigationLesson | null;
+    next: NavigationLesson | null;
+    position: number;
+    total: number;
+  };
+}
+
+export default function LessonPlayerPage({ params }: { params: Promise<{ curso_id: string; aula_id: string }> }) {
+  const { status } = useSession();
+  const router = useRouter();
+  const [lesson, setLesson] = useState<Lesson | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/signin');
+      return;
+    }
+
+    if (status === 'authenticated') {
+      fetchLesson();
+    }
+  }, [status, params]);
+
+  const fetchLesson = async () => {
+    const { curso_id, aula_id } = await params;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/lessons/${aula_id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao carregar a aula');
+      }
+
+      // A aula precisa pertencer ao curso da URL
+      if (data.course.id !== curso_id) {
+        throw new Error('Aula não encontrada neste curso');
+      }
+
+      setLesson(data);
+
+      // Registra o acesso para o "continuar de onde parou"
+      fetch(`/api/lessons/${aula_id}/progress/start`, { method: 'POST' })
+        .catch((error) => console.error('Error marking lesson as started:', error));
+    } catch (error) {
+      console.error('Error fetching lesson:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao carregar a aula');
+      router.push(`/dashboard/cursos/${curso_id}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleComplete = async () => {
+    if (!lesson) return;
+
+    const completed = !lesson.progress?.completed;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/lessons/${lesson.id}/progress/complete`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completed }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao salvar progresso');
+      }
+
+      setLesson({ ...lesson, progress: data });
+
+      if (data.certificate) {
+        toast.success('Curso concluído! Seu certificado está disponível na página do curso.');
+      }
+
+      if (completed && lesson.navigation.next) {
+        toast.success('Aula concluída! Seguindo para a próxima.');
+        router.push(`/dashboard/cursos/${lesson.course.id}/aula/${lesson.navigation.next.id}`);
+      } else {
+        toast.success(completed ? 'Aula concluída!' : 'Aula marcada como não concluída');
+      }
+    } catch (error) {
+      console.error('Error saving progress:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao salvar progresso');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !lesson) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const { previous, next, position, total } = lesson.navigation;
+  const isCompleted = !!lesson.progress?.completed;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Link
+        href={`/dashboard/cursos/${lesson.course.id}`}
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <FaArrowLeft className="h-3 w-3" />
+        {lesson.course.title}
+      </Link>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <p className="text-sm text-gray-500">
+            Módulo {lesson.module.order}: {lesson.module.title} · Aula {position} de {total}
+          </p>
+          <div className="mt-2 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <h1 className="text-2xl font-bold text-gray-900">{lesson.title}</h1>
+            <button
+              onClick={handleToggleComplete}
+              disabled={isSaving}
+              className={`inline-flex items-center gap-2 rounded-md px-4 py-2 text-sm font-medium disabled:opacity-50 ${isCompleted
+                ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+            >
+              <FaCheckCircle className="h-4 w-4" />
+              {isSaving ? 'Salvando...' : isCompleted ? 'Concluída' : 'Marcar como concluída'}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <LessonContent content={lesson.content} />
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex items-center justify-between gap-4">
+          {previous ? (
+            <Link
+              href={`/dashboard/cursos/${lesson.course.id}/aula/${previous.id}`}
+              className="flex items-center gap-2 text-sm text-gray-700 hover:text-gray-900"
+            >
+              <FaChevronLeft className="h-4 w-4" />
+              <span>
+                <span className="block text-xs text-gray-500">{previous.moduleTitle}</span>
+                {previous.title}
+              </span>
+            </Link>
+          ) : <span />}
+
+          {next ? (
+            <Link
+              href={`/dashboard/cursos/${lesson.course.id}/aula/${next.id}`}
+              className="flex items-center gap-2 text-sm text-right text-gray-700 hover:text-gray-900"
+            >
+              <span>
+                <span className="block text-xs text-gray-500">{next.moduleTitle}</span>
+                {next.title}
+              </span>
+              <FaChevronRight className="h-4 w-4" />
+            </Link>
+          ) : <span />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,18 +4,18 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
-import { FaClock, FaCheckCircle, FaExclamationCircle, FaChevronRight, FaCreditCard, FaMoneyBillWave, FaTimes } from 'react-icons/fa';
+import { FaClock, FaCertificate, FaCheckCircle, FaExclamationCircle, FaChevronRight, FaCreditCard, FaMoneyBillWave, FaTimes } from 'react-icons/fa';
 import { IoIosWarning } from "react-icons/io";
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { toast } from 'react-hot-toast';
 import * as Dialog from '@radix-ui/react-dialog';
+import { CourseAnnouncements } from './_components/course-announcements';
 
 interface LessonProgress {
-  id: string;
-  lessonId: string;
   completed: boolean;
-  lastAccessed: Date | null;
+  position: number;
+  lastAccessedAt: string;
 }
 
 interface Module {
@@ -27,7 +27,7 @@ interface Module {
     title: string;
     order: number;
     duration: number;
-    progress?: LessonProgress;
+    progress?: LessonProgress | null;
   }>;
 }
 
@@ -36,6 +36,7 @@ interface Course {
   title: string;
   description: string;
   imageUrl: string | null;
+  refundWindowDays: number;
   modules: Module[];
 }
 
@@ -47,6 +48,10 @@ interface Payment {
   itemType: 'COURSE' | 'JOURNEY';
   courseId: string | null;
   journeyId: string | null;
+  items?: Array<{
+    id: string;
+    courseId: string | null;
+  }>;
   refunds: Array<{
     id: string;
     status: string;
@@ -68,8 +73,12 @@ interface Enrollment {
   progress: {
     completedLessons: number;
     totalLessons: number;
-    lastAccessed: Date | null;
+    percentage: number;
+    lastAccessed: string | null;
+    continueLesson: { id: string; title: string; position: number } | null;
   };
+  certificate: { code: string; issuedAt: string } | null;
+  unreadAnnouncements: number;
 }
 
 export default function DashboardCoursePage({ params }: { params: Promise<{ curso_id: string }> }) {
@@ -78,7 +87,7 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
   const [course, setCourse] = useState<Course | null>(null);
   const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'conteudo' | 'pagamento'>('conteudo');
+  const [activeTab, setActiveTab] = useState<'conteudo' | 'avisos' | 'pagamento'>('conteudo');
   const [isProcessingRefund, setIsProcessingRefund] = useState(false);
   const [refundModalOpen, setRefundModalOpen] = useState(false);
   const [refundConfirmationText, setRefundConfirmationText] = useState('');
@@ -94,7 +103,7 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
 
   useEffect(() => {
     if (status === 'unauthenticated') {
-      router.push('/auth/signin');
+      router.push('/signin');
       return;
     }
 
@@ -105,8 +114,9 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
 
   const fetchCourseData = async () => {
     try {
+      const { curso_id } = await params;
       const [courseRes, enrollmentRes] = await Promise.all([
-        fetch(`/api/courses/${(await params).curso_id}`),
+        fetch(`/api/courses/${curso_id}`),
         fetch('/api/user/enrollments'),
       ]);
 
@@ -116,7 +126,7 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
       let enrollmentData = null;
       if (enrollmentRes.ok) {
         const { courses } = await enrollmentRes.json();
-        const courseEnrollment = courses.find(async (c: any) => c.id === (await params).curso_id);
+        const courseEnrollment = courses.find((c: any) => c.id === curso_id);
 
         if (courseEnrollment) {
           // Buscar pagamentos para esta matrícula
@@ -131,7 +141,8 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
         }
       }
 
-      setCourse(courseData);
+      // Os módulos com o progresso do aluno vêm da matrícula
+      setCourse(enrollmentData ? { ...courseData, modules: enrollmentData.modules } : courseData);
       setEnrollment(enrollmentData);
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -164,7 +175,10 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
         },
         body: JSON.stringify({
           paymentId: enrollment.payments[0].id,
-          userId: session?.user.id
+          // Em compras com vários cursos, reembolsa apenas este
+          itemIds: enrollment.payments[0].items
+            ?.filter(item => item.courseId === cursoId)
+            .map(item => item.id)
         }),
       });
 
@@ -308,26 +322,15 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
   const payment = enrollment?.payments?.[0];
   const refund = payment?.refunds?.[0];
   const paymentDate = payment ? new Date(payment.createdAt) : null;
-  const refundLimitDate = paymentDate ? new Date(paymentDate.getTime() + 30 * 24 * 60 * 60 * 1000) : null;
+  const refundLimitDate = paymentDate ? new Date(paymentDate.getTime() + course.refundWindowDays * 24 * 60 * 60 * 1000) : null;
 
-  const isRefundable = payment &&
-    new Date() < new Date(new Date(payment.createdAt).getTime() + 30 * 24 * 60 * 60 * 1000) &&
+  const isRefundable = payment && refundLimitDate &&
+    new Date() < refundLimitDate &&
     !payment.refunds?.some(refund => ['APPROVED', 'PENDING'].includes(refund.status));
 
-  const totalLessons = (course.modules || []).reduce(
-    (total, module) => total + (module.lessons?.length || 0),
-    0
-  );
-
-  const completedLessons = (course.modules || []).reduce(
-    (total, module) =>
-      total + (module.lessons?.filter(lesson => lesson.progress?.completed).length || 0),
-    0
-  );
-
-  const progressPercentage = totalLessons > 0
-    ? Math.round((completedLessons / totalLessons) * 100)
-    : 0;
+  const progressPercentage = enrollment?.progress?.percentage ?? 0;
+  const continueLesson = enrollment?.progress?.continueLesson;
+  const certificate = enrollment?.certificate;
 
   return (
     <>
@@ -355,6 +358,20 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
                     style={{ width: `${progressPercentage}%` }}
                   ></div>
                 </div>
+                <button
+                  onClick={() => router.push(`/forum/curso/${course.id}`)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50"
+                >
+                  Fórum do curso
+                </button>
+                {continueLesson && (
+                  <button
+                    onClick={() => router.push(`/dashboard/cursos/${course.id}/aula/${continueLesson.id}`)}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700"
+                  >
+                    {progressPercentage > 0 ? 'Continuar' : 'Começar'}
+                  </button>
+                )}
               </div>
             </div>
 
@@ -369,6 +386,19 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
                 >
                   Conteúdo do Curso
                 </button>
+                <button
+                  onClick={() => setActiveTab('avisos')}
+                  className={`${activeTab === 'avisos'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+                >
+                  Avisos
+                  {!!enrollment?.unreadAnnouncements && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-semibold text-amber-800 bg-amber-100 rounded-full">
+                      {enrollment.unreadAnnouncements}
+                    </span>
+                  )}
+                </button>
                 <button
                   onClick={() => setActiveTab('pagamento')}
                   className={`${activeTab === 'pagamento'
@@ -387,6 +417,36 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
                   <p className="text-gray-700">{course.description}</p>
                 </div>
 
+                {certificate && (
+                  <div className="mt-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <FaCertificate className="h-6 w-6 text-green-600 shrink-0" />
+                      <div>
+                        <p className="font-medium text-green-900">Curso concluído!</p>
+                        <p className="text-sm text-green-700">
+                          Certificado emitido em {format(new Date(certificate.issuedAt), "dd/MM/yyyy", { locale: ptBR })} · código {certificate.code}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <a
+                        href={`/api/certificates/${certificate.code}/svg?download=1`}
+                        className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700"
+                      >
+                        Baixar certificado
+                      </a>
+                      <a
+                        href={`/certificados/${certificate.code}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-4 py-2 border border-green-600 text-green-700 text-sm font-medium rounded-lg hover:bg-green-100"
+                      >
+                        Link de verificação
+                      </a>
+                    </div>
+                  </div>
+                )}
+
                 <div className="mt-8">
                   <h2 className="text-xl font-semibold text-gray-900">Conteúdo do Curso</h2>
                   <div className="mt-4 space-y-4">
@@ -427,6 +487,11 @@ export default function DashboardCoursePage({ params }: { params: Promise<{ curs
                   </div>
                 </div>
               </div>
+            ) : activeTab === 'avisos' ? (
+              <CourseAnnouncements
+                courseId={course.id}
+                onRead={() => setEnrollment(current => current && { ...current, unreadAnnouncements: 0 })}
+              />
             ) : (
               <div className="mt-6">
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">Detalhes do Pagamento</h2>
@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FaBook, FaBookOpen, FaGraduationCap, FaMapSigns, FaRegClock, FaSearch } from 'react-icons/fa';
+import { FaBell, FaBook, FaBookOpen, FaGraduationCap, FaMapSigns, FaRegClock, FaSearch, FaUserCog } from 'react-icons/fa';
 import { motion } from 'framer-motion';
 import { prisma } from '@/lib/prisma';
 
@@ -29,6 +29,16 @@ interface Course {
   imageUrl: string | null;
   level: string;
   modules: Module[];
+  progress: CourseProgress;
+  unreadAnnouncements: number;
+}
+
+interface CourseProgress {
+  completedLessons: number;
+  totalLessons: number;
+  percentage: number;
+  lastAccessed: string | null;
+  continueLesson: { id: string; title: string; position: number } | null;
 }
 
 interface JourneyCourse {
@@ -65,7 +75,7 @@ export default function Dashboard() {
 
   useEffect(() => {
     if (status === 'unauthenticated') {
-      router.push('/auth/signin');
+      router.push('/signin');
       return;
     }
 
@@ -148,17 +158,23 @@ export default function Dashboard() {
       <header className="bg-white shadow">
         <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">Meu Aprendizado</h1>
-          <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <FaSearch className="h-5 w-5 text-gray-400" />
+          <div className="flex items-center gap-4">
+            <Link href="/conta" className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-900">
+              <FaUserCog className="mr-2" />
+              Minha conta
+            </Link>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <FaSearch className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Buscar cursos e jornadas..."
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
             </div>
-            <input
-              type="text"
-              placeholder="Buscar cursos e jornadas..."
-              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
           </div>
         </div>
       </header>
@@ -199,10 +215,16 @@ export default function Dashboard() {
                       )}
                     </div>
                     <div className="p-6">
-                      <div className="flex items-center mb-2">
+                      <div className="flex items-center justify-between mb-2">
                         <span className="px-2 py-1 text-xs font-semibold text-blue-800 bg-blue-100 rounded-full">
                           {course.level}
                         </span>
+                        {course.unreadAnnouncements > 0 && (
+                          <span className="inline-flex items-center px-2 py-1 text-xs font-semibold text-amber-800 bg-amber-100 rounded-full">
+                            <FaBell className="mr-1" />
+                            {course.unreadAnnouncements} aviso{course.unreadAnnouncements !== 1 ? 's' : ''} novo{course.unreadAnnouncements !== 1 ? 's' : ''}
+                          </span>
+                        )}
                       </div>
                       <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2">
                         {course.title}
@@ -227,8 +249,32 @@ export default function Dashboard() {
                           min
                         </span>
                       </div>
+                      <div className="mt-4">
+                        <div className="flex justify-between text-xs text-gray-500 mb-1">
+                          <span>
+                            {course.progress.completedLessons} de {course.progress.totalLessons} aulas
+                          </span>
+                          <span>{course.progress.percentage}%</span>
+                        </div>
+                        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-blue-600"
+                            style={{ width: `${course.progress.percentage}%` }}
+                          ></div>
+                        </div>
+                      </div>
                     </div>
                   </Link>
+                  {course.progress.continueLesson && (
+                    <div className="px-6 pb-6">
+                      <Link
+                        href={`/dashboard/cursos/${course.id}/aula/${course.progress.continueLesson.id}`}
+                        className="block text-sm font-medium text-blue-600 hover:text-blue-800 truncate"
+                      >
+                        {course.progress.percentage > 0 ? 'Continuar' : 'Começar'}: {course.progress.continueLesson.title}
+                      </Link>
+                    </div>
+                  )}
                 </motion.div>
               ))}
             </div>
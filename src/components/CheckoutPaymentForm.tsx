@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -9,7 +9,7 @@ import { FaPix } from "react-icons/fa6";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { toast } from "react-hot-toast";
-import { formatPrice } from "@/lib/price";
+import { formatPrice, getInstallmentFactor } from "@/lib/price";
 
 function isValidCpf(value: string) {
   const digits = value.replace(/\D/g, "");
@@ -226,6 +226,8 @@ export function CheckoutPaymentForm({ amount, items }: CheckoutPaymentFormProps)
   const router = useRouter();
   const [method, setMethod] = useState<"card" | "pix" | null>(null);
   const [processing, setProcessing] = useState(false);
+  // Acréscimo por parcela configurado em /admin/settings
+  const [installmentRatePercent, setInstallmentRatePercent] = useState<number | null>(null);
 
   const {
     register,
@@ -249,6 +251,13 @@ export function CheckoutPaymentForm({ amount, items }: CheckoutPaymentFormProps)
   const documentType = watch("documentType");
   const installments = watch("installments");
 
+  useEffect(() => {
+    fetch("/api/settings")
+      .then((response) => response.json())
+      .then((data) => setInstallmentRatePercent(data.installmentRatePercent ?? null))
+      .catch((error) => console.error("Erro ao carregar configurações do checkout:", error));
+  }, []);
+
   const pixForm = useForm<z.infer<typeof pixSchema>>({
     resolver: zodResolver(pixSchema),
     mode: "onChange",
@@ -305,14 +314,8 @@ export function CheckoutPaymentForm({ amount, items }: CheckoutPaymentFormProps)
     return value.replace(/\D/g, "").slice(0, 4);
   };
 
-  function getInstallmentFactor(qty: number) {
-    if (qty <= 1) return 1;
-    const step = 0.02; // 2% adicional por parcela acima de 1x
-    return 1 + (qty - 1) * step;
-  }
-
   function getInstallmentTotal(amount: number, qty: number) {
-    return amount * getInstallmentFactor(qty);
+    return amount * getInstallmentFactor(qty, installmentRatePercent ?? 0);
   }
 
   function getInstallmentPerPayment(amount: number, qty: number) {
@@ -429,7 +432,6 @@ export function CheckoutPaymentForm({ amount, items }: CheckoutPaymentFormProps)
               number: data.document.replace(/\D/g, ''),
             }
           },
-          userId: session.user.id,
           items: items.map(item => ({
             id: item.id,
             type: item.type,
@@ -501,7 +503,6 @@ export function CheckoutPaymentForm({ amount, items }: CheckoutPaymentFormProps)
             lastName: payerName.split(' ').slice(1).join(' ') || '',
             cpf: data.cpf.replace(/\D/g, ''),
           },
-          userId: session.user.id,
           items: items.map(item => ({
             id: item.id,
             type: item.type,
@@ -847,7 +848,7 @@ export function CheckoutPaymentForm({ amount, items }: CheckoutPaymentFormProps)
               <option value="" className="text-black">
                 Selecionar
               </option>
-              {Array.from({ length: 5 }).map((_, index) => {
+              {installmentRatePercent !== null && Array.from({ length: 5 }).map((_, index) => {
                 const qty = index + 1;
                 const amountInReais = amount; // Converter de centavos para reais
                 const perInstallment = getInstallmentPerPayment(amountInReais, qty);
@@ -24,6 +24,13 @@ export function Header() {
             Cursos
           </Link>
 
+          <Link
+            href="/forum/publico/geral"
+            className="hidden text-xs font-medium text-gray-600 hover:text-gray-900 sm:inline-flex"
+          >
+            Fórum
+          </Link>
+
           <button
             type="button"
             onClick={openCart}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+
+export interface TwoFactorSetupData {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+/**
+ * QR code e chave para cadastrar a conta no app autenticador.
+ */
+export function TwoFactorSetupInstructions({ setup }: { setup: TwoFactorSetupData }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Escaneie o QR code com um app autenticador (Google Authenticator, 1Password, Authy...) e informe o
+        código de 6 dígitos gerado.
+      </p>
+      <div className="flex justify-center">
+        <img src={setup.qrCode} alt="QR code da verificação em duas etapas" className="h-48 w-48" />
+      </div>
+      <p className="text-center text-xs text-gray-500">
+        Sem câmera? Digite a chave no app:{" "}
+        <code className="break-all rounded bg-gray-100 px-1 py-0.5 font-mono text-gray-800">{setup.secret}</code>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Códigos de recuperação recém-gerados. Não podem ser consultados depois.
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false);
+
+  function copyCodes() {
+    navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-yellow-200 bg-yellow-50 p-4">
+      <p className="text-sm text-yellow-800">
+        Guarde estes códigos de recuperação em um lugar seguro. Cada um pode ser usado uma única vez para entrar
+        se você perder o acesso ao app. Eles não serão exibidos novamente.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <li key={code} className="rounded bg-white px-2 py-1 text-center">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={copyCodes}
+        className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        {copied ? "Copiados!" : "Copiar códigos"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextResponse } from "next/server";
+import { encode, type JWT } from "next-auth/jwt";
+import prisma from "@/lib/prisma";
+import { REAUTH_REQUIRED, SocialProvider, isSocialProvider } from "@/lib/credentials";
+
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // 30 dias
+
+// Vincular/desvincular provedores e trocar a senha exigem login recente
+export const REAUTH_WINDOW_MS = 10 * 60 * 1000;
+
+export function isRecentlyAuthenticated(authTime: number | undefined) {
+  return !!authTime && Date.now() - authTime < REAUTH_WINDOW_MS;
+}
+
+export const reauthRequiredError = {
+  error: "Confirme sua identidade entrando novamente para continuar",
+  code: REAUTH_REQUIRED,
+};
+
+/**
+ * Cookie de sessão do NextAuth; o prefixo __Secure- é usado em HTTPS.
+ */
+export function getSessionCookieName() {
+  return process.env.NEXTAUTH_URL?.startsWith("https://")
+    ? "__Secure-next-auth.session-token"
+    : "next-auth.session-token";
+}
+
+/**
+ * Reemite o JWT da sessão atual com o conteúdo informado, no mesmo cookie
+ * que o NextAuth usa.
+ */
+export async function setSessionToken(response: NextResponse, token: JWT) {
+  const sessionToken = await encode({ token, secret: process.env.NEXTAUTH_SECRET!, maxAge: SESSION_MAX_AGE });
+
+  response.cookies.set(getSessionCookieName(), sessionToken, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: getSessionCookieName().startsWith("__Secure-"),
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+/**
+ * O token ainda vale: a conta existe, não foi desativada e a versão do token
+ * é a atual. Trocar o papel ou sair das outras sessões incrementa
+ * User.tokenVersion e obriga a entrar de novo.
+ */
+export async function isSessionTokenCurrent(token: JWT) {
+  if (!token.sub) return false;
+
+  const user = await prisma.user.findUnique({
+    where: { id: token.sub },
+    select: { disabledAt: true, tokenVersion: true },
+  });
+  return !!user && !user.disabledAt && user.tokenVersion === (token.tokenVersion ?? 0);
+}
+
+//
+// --------------------- VINCULAÇÃO DE PROVEDORES ---------------------
+//
+
+export const LINK_INTENT_COOKIE = "account-link-intent";
+
+function sign(value: string) {
+  return createHmac("sha256", process.env.NEXTAUTH_SECRET ?? "").update(value).digest("hex");
+}
+
+/**
+ * Intenção de vincular um provedor, registrada depois da reautenticação.
+ * Sem ela, um login social com a sessão aberta não vincula a conta.
+ */
+export function createLinkIntent(userId: string, provider: SocialProvider) {
+  const payload = `${userId}.${provider}.${Date.now() + REAUTH_WINDOW_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyLinkIntent(value: string | undefined, userId: string, provider: string) {
+  if (!value) return false;
+
+  const [intentUserId, intentProvider, expiresAt, signature] = value.split(".");
+  const expected = sign(`${intentUserId}.${intentProvider}.${expiresAt}`);
+  if (!signature || signature.length !== expected.length) return false;
+  if (!timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return false;
+
+  return intentUserId === userId && intentProvider === provider && Number(expiresAt) > Date.now();
+}
+
+/**
+ * Formas de login da conta: senha e provedores vinculados.
+ */
+export async function getSignInMethods(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      passwords: { select: { updatedAt: true } },
+      accounts: { select: { provider: true, createdAt: true }, orderBy: { createdAt: "asc" } },
+    },
+  });
+  if (!user) return null;
+
+  return {
+    hasPassword: !!user.passwords,
+    passwordUpdatedAt: user.passwords?.updatedAt ?? null,
+    providers: user.accounts.filter((account) => isSocialProvider(account.provider)),
+  };
+}
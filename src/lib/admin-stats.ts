@@ -0,0 +1,144 @@
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+
+// Pagamentos que contam como receita; reembolsados e chargebacks zeram a venda
+const REVENUE_PAYMENT_STATUSES = ["APPROVED", "PARTIALLY_REFUNDED"];
+const SALE_PAYMENT_STATUSES = [...REVENUE_PAYMENT_STATUSES, "REFUNDED", "CHARGED_BACK"];
+// Reembolsos que não saíram do caixa
+const VOID_REFUND_STATUSES = ["REJECTED", "CANCELLED", "FAILED"];
+
+const STUDYING_WINDOW_DAYS = 30;
+
+export type DateRange = { from?: Date; to?: Date };
+
+export type Metric = {
+  value: number;
+  previous: number;
+  // Variação percentual; null quando o valor anterior é zero
+  change: number | null;
+};
+
+function metric(value: number, previous: number): Metric {
+  return {
+    value,
+    previous,
+    change: previous === 0 ? null : Math.round(((value - previous) / previous) * 1000) / 10,
+  };
+}
+
+function createdIn(range: DateRange) {
+  return range.from || range.to ? { createdAt: { gte: range.from, lt: range.to } } : {};
+}
+
+/**
+ * Início do mês corrente e do anterior, no fuso do servidor.
+ */
+export function getMonthBoundaries(now = new Date()) {
+  const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  const previousMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return { currentMonth, previousMonth };
+}
+
+/**
+ * Receita líquida, em centavos, das vendas feitas no período: pagamentos
+ * aprovados menos os reembolsos emitidos sobre eles.
+ */
+export async function getNetRevenue(range: DateRange = {}) {
+  const where: Prisma.PaymentWhereInput = { status: { in: REVENUE_PAYMENT_STATUSES }, ...createdIn(range) };
+
+  const [payments, refunds] = await Promise.all([
+    prisma.payment.aggregate({ where, _sum: { amount: true } }),
+    prisma.refund.aggregate({
+      where: { payment: where, status: { notIn: VOID_REFUND_STATUSES } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return (payments._sum.amount ?? 0) - (refunds._sum.amount ?? 0);
+}
+
+/**
+ * Alunos com alguma matrícula vigente na data (vitalícia ou dentro do prazo).
+ */
+export function countActiveStudents(at: Date) {
+  return prisma.user.count({
+    where: {
+      enrollments: {
+        some: {
+          startDate: { lte: at },
+          OR: [{ endDate: null }, { endDate: { gte: at } }],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Números do painel /admin. Os totais são comparados com o fim do mês
+ * passado; a receita, com as vendas do mês passado.
+ */
+export async function getAdminStats(now = new Date()) {
+  const { currentMonth, previousMonth } = getMonthBoundaries(now);
+  const studyingSince = new Date(now.getTime() - STUDYING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [
+    courses,
+    previousCourses,
+    journeys,
+    previousJourneys,
+    students,
+    previousStudents,
+    studying,
+    revenue,
+    monthRevenue,
+    previousMonthRevenue,
+    latestCourses,
+    latestSales,
+  ] = await Promise.all([
+    prisma.course.count(),
+    prisma.course.count({ where: { createdAt: { lt: currentMonth } } }),
+    prisma.journey.count({ where: { public: true } }),
+    prisma.journey.count({ where: { public: true, createdAt: { lt: currentMonth } } }),
+    countActiveStudents(now),
+    countActiveStudents(currentMonth),
+    prisma.user.count({ where: { lessonProgresses: { some: { lastAccessedAt: { gte: studyingSince } } } } }),
+    getNetRevenue(),
+    getNetRevenue({ from: currentMonth }),
+    getNetRevenue({ from: previousMonth, to: currentMonth }),
+    prisma.course.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 5,
+      select: {
+        id: true,
+        title: true,
+        public: true,
+        createdAt: true,
+        _count: { select: { enrollments: true } },
+      },
+    }),
+    prisma.payment.findMany({
+      where: { status: { in: SALE_PAYMENT_STATUSES } },
+      orderBy: { createdAt: "desc" },
+      take: 5,
+      select: {
+        id: true,
+        amount: true,
+        status: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+        items: { select: { id: true, title: true } },
+      },
+    }),
+  ]);
+
+  return {
+    courses: metric(courses, previousCourses),
+    journeys: metric(journeys, previousJourneys),
+    students: { ...metric(students, previousStudents), studying },
+    revenue: { total: revenue, ...metric(monthRevenue, previousMonthRevenue) },
+    latestCourses,
+    latestSales,
+  };
+}
+
+export type AdminStats = Awaited<ReturnType<typeof getAdminStats>>;
@@ -0,0 +1,62 @@
+import prisma from "@/lib/prisma";
+import { revokeCertificatesWithoutAccess } from "@/lib/certificates";
+
+export const ADMIN_USERS_PAGE_SIZE = 20;
+
+/**
+ * Libera o acesso a um curso manualmente. endDate null é acesso vitalício.
+ * Nunca encurta um acesso existente: vale o prazo mais longo entre o atual e
+ * o novo; uma matrícula expirada ou revogada é reaberta a partir de agora.
+ */
+export async function grantCourseAccess(userId: string, courseId: string, endDate: Date | null, grantedById: string) {
+  const where = { userId_courseId: { userId, courseId } };
+  const existing = await prisma.enrollment.findUnique({ where, select: { endDate: true } });
+
+  const now = new Date();
+  const expired = !!existing?.endDate && existing.endDate <= now;
+  const nextEndDate =
+    !existing || expired
+      ? endDate
+      : existing.endDate === null || endDate === null
+        ? null
+        : new Date(Math.max(existing.endDate.getTime(), endDate.getTime()));
+
+  const enrollment = await prisma.enrollment.upsert({
+    where,
+    create: { userId, courseId, endDate, grantedById },
+    update: { endDate: nextEndDate, grantedById, ...(expired ? { startDate: now } : {}) },
+  });
+
+  console.log(`Acesso ao curso ${courseId} liberado para o usuário ${userId} por ${grantedById}`);
+  return enrollment;
+}
+
+/**
+ * Revoga uma matrícula encerrando o prazo agora. O registro fica no
+ * histórico do aluno; certificados de cursos sem outro acesso são revogados.
+ */
+export async function revokeEnrollment(enrollmentId: string, revokedById: string) {
+  const enrollment = await prisma.enrollment.update({
+    where: { id: enrollmentId },
+    data: { endDate: new Date() },
+    include: { journey: { select: { courses: { select: { courseId: true } } } } },
+  });
+
+  const courseIds = enrollment.courseId
+    ? [enrollment.courseId]
+    : (enrollment.journey?.courses.map((journeyCourse) => journeyCourse.courseId) ?? []);
+  await revokeCertificatesWithoutAccess(enrollment.userId, courseIds, `Acesso revogado por ${revokedById}`);
+
+  console.log(`Matrícula ${enrollmentId} do usuário ${enrollment.userId} revogada por ${revokedById}`);
+  return enrollment;
+}
+
+/**
+ * Campos que desativam (ou reativam) a conta. A próxima requisição de uma
+ * sessão aberta encerra o login; ver isSessionTokenCurrent em src/lib/account-security.ts.
+ */
+export function userDisabledData(disabled: boolean, reason?: string | null) {
+  return disabled
+    ? { disabledAt: new Date(), disabledReason: reason || null }
+    : { disabledAt: null, disabledReason: null };
+}
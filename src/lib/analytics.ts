@@ -0,0 +1,474 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+import { allocateRefundAmounts } from "@/lib/refunds";
+
+export class AnalyticsError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = "AnalyticsError";
+  }
+}
+
+// Pagamentos que chegaram a ser aprovados; reembolsos e chargebacks descontam a receita
+const SALE_PAYMENT_STATUSES = ["APPROVED", "PARTIALLY_REFUNDED", "REFUNDED", "CHARGED_BACK"];
+const FULLY_REVERSED_PAYMENT_STATUSES = ["REFUNDED", "CHARGED_BACK"];
+const APPROVED_ORDER_STATUSES = ["APPROVED", "PARTIALLY_REFUNDED", "REFUNDED", "CHARGED_BACK"] as const;
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+export type AnalyticsFilters = {
+  from: Date;
+  to: Date; // exclusivo
+  courseId?: string;
+};
+
+type ColumnFormat = "text" | "date" | "number" | "money" | "percent";
+
+type Column<Row> = {
+  key: keyof Row & string;
+  label: string;
+  format: ColumnFormat;
+};
+
+export type AnalyticsTable<Row = Record<string, string | number>> = {
+  name: string;
+  title: string;
+  description?: string;
+  columns: Column<Row>[];
+  rows: Row[];
+};
+
+/**
+ * Lê from/to (AAAA-MM-DD, inclusivos) e courseId da query. Sem datas, usa
+ * os últimos 30 dias.
+ */
+export function parseAnalyticsFilters(searchParams: URLSearchParams): AnalyticsFilters {
+  const today = startOfDay(new Date());
+  const parseDay = (value: string | null) => {
+    if (!value) return null;
+    const date = new Date(`${value}T00:00:00`);
+    if (isNaN(date.getTime())) throw new AnalyticsError("Data inválida");
+    return date;
+  };
+
+  const to = addDays(parseDay(searchParams.get("to")) ?? today, 1);
+  const from = parseDay(searchParams.get("from")) ?? addDays(to, -DEFAULT_RANGE_DAYS);
+
+  if (from >= to) {
+    throw new AnalyticsError("A data inicial deve ser anterior à final");
+  }
+  if (differenceInCalendarDays(to, from) > MAX_RANGE_DAYS) {
+    throw new AnalyticsError(`O período pode ter no máximo ${MAX_RANGE_DAYS} dias`);
+  }
+
+  return { from, to, courseId: searchParams.get("courseId") || undefined };
+}
+
+function rate(part: number, total: number) {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+//
+// --------------------- VENDAS ---------------------
+//
+
+type ProductTotals = {
+  product: string;
+  type: string;
+  sales: number;
+  refundedSales: number;
+  gross: number;
+  refunded: number;
+  net: number;
+};
+
+// Cada relatório é montado com as chaves da própria linha; a lista final
+// guarda as colunas só com a chave em texto
+function toReportTable<Row extends Record<string, string | number>>(table: AnalyticsTable<Row>): AnalyticsTable {
+  return {
+    name: table.name,
+    title: table.title,
+    description: table.description,
+    columns: table.columns.map(({ key, label, format }) => ({ key, label, format })),
+    rows: table.rows,
+  };
+}
+
+/**
+ * Receita por dia e por produto, a partir dos itens vendidos no período.
+ * O valor pago (com acréscimo do parcelamento) é dividido entre os itens na
+ * proporção do preço, como nos reembolsos; o reembolso conta no dia da venda.
+ */
+async function getSalesTables({ from, to, courseId }: AnalyticsFilters) {
+  const payments = await prisma.payment.findMany({
+    where: {
+      status: { in: SALE_PAYMENT_STATUSES },
+      createdAt: { gte: from, lt: to },
+      ...(courseId ? { items: { some: { courseId } } } : {}),
+    },
+    select: {
+      amount: true,
+      status: true,
+      createdAt: true,
+      items: {
+        select: {
+          id: true,
+          itemType: true,
+          courseId: true,
+          journeyId: true,
+          title: true,
+          price: true,
+          quantity: true,
+          refundItem: { select: { amount: true } },
+        },
+      },
+    },
+  });
+
+  const days = new Map<string, { date: string; sales: number; gross: number; refunded: number; net: number }>();
+  for (let day = from; day < to; day = addDays(day, 1)) {
+    const date = format(day, "yyyy-MM-dd");
+    days.set(date, { date, sales: 0, gross: 0, refunded: 0, net: 0 });
+  }
+  const products = new Map<string, ProductTotals>();
+
+  for (const payment of payments) {
+    const shares = allocateRefundAmounts(payment.amount, payment.items, payment.items, 0, true);
+    const reversed = FULLY_REVERSED_PAYMENT_STATUSES.includes(payment.status);
+    const day = days.get(format(payment.createdAt, "yyyy-MM-dd"))!;
+
+    for (const item of payment.items) {
+      if (courseId && item.courseId !== courseId) continue;
+
+      const gross = shares.get(item.id) ?? 0;
+      const refunded = reversed ? gross : Math.min(item.refundItem?.amount ?? 0, gross);
+
+      day.sales += 1;
+      day.gross += gross;
+      day.refunded += refunded;
+      day.net += gross - refunded;
+
+      const key = item.courseId ?? item.journeyId ?? item.title;
+      const product = products.get(key) ?? {
+        product: item.title,
+        type: item.itemType === "JOURNEY" ? "Jornada" : "Curso",
+        sales: 0,
+        refundedSales: 0,
+        gross: 0,
+        refunded: 0,
+        net: 0,
+      };
+      product.sales += 1;
+      product.refundedSales += refunded > 0 ? 1 : 0;
+      product.gross += gross;
+      product.refunded += refunded;
+      product.net += gross - refunded;
+      products.set(key, product);
+    }
+  }
+
+  const byProduct = [...products.values()].sort((a, b) => b.net - a.net);
+
+  const revenueByDay: AnalyticsTable<{ date: string; sales: number; gross: number; refunded: number; net: number }> = {
+    name: "revenue-by-day",
+    title: "Receita por dia",
+    columns: [
+      { key: "date", label: "Dia", format: "date" },
+      { key: "sales", label: "Itens vendidos", format: "number" },
+      { key: "gross", label: "Receita bruta", format: "money" },
+      { key: "refunded", label: "Reembolsado", format: "money" },
+      { key: "net", label: "Receita líquida", format: "money" },
+    ],
+    rows: [...days.values()],
+  };
+
+  const revenueByCourse: AnalyticsTable<ProductTotals> = {
+    name: "revenue-by-course",
+    title: "Receita por curso",
+    columns: [
+      { key: "product", label: "Produto", format: "text" },
+      { key: "type", label: "Tipo", format: "text" },
+      { key: "sales", label: "Vendas", format: "number" },
+      { key: "gross", label: "Receita bruta", format: "money" },
+      { key: "refunded", label: "Reembolsado", format: "money" },
+      { key: "net", label: "Receita líquida", format: "money" },
+    ],
+    rows: byProduct,
+  };
+
+  const refundRates: AnalyticsTable<{ product: string; type: string; sales: number; refundedSales: number; rate: number }> = {
+    name: "refund-rate",
+    title: "Taxa de reembolso por curso",
+    description: "Vendas do período com reembolso total ou parcial (inclui chargebacks).",
+    columns: [
+      { key: "product", label: "Produto", format: "text" },
+      { key: "type", label: "Tipo", format: "text" },
+      { key: "sales", label: "Vendas", format: "number" },
+      { key: "refundedSales", label: "Reembolsadas", format: "number" },
+      { key: "rate", label: "Taxa de reembolso", format: "percent" },
+    ],
+    rows: byProduct
+      .map((product) => ({
+        product: product.product,
+        type: product.type,
+        sales: product.sales,
+        refundedSales: product.refundedSales,
+        rate: rate(product.refundedSales, product.sales),
+      }))
+      .sort((a, b) => b.rate - a.rate),
+  };
+
+  return [toReportTable(revenueByDay), toReportTable(revenueByCourse), toReportTable(refundRates)];
+}
+
+//
+// --------------------- CHECKOUT ---------------------
+//
+
+function orderFilter({ from, to, courseId }: AnalyticsFilters): Prisma.OrderWhereInput {
+  return {
+    createdAt: { gte: from, lt: to },
+    ...(courseId ? { items: { some: { courseId } } } : {}),
+  };
+}
+
+/**
+ * Pedidos aprovados sobre pedidos criados, por forma de pagamento. O pedido
+ * de cartão guarda a bandeira em method; tudo que não é PIX conta como cartão.
+ */
+async function getPaymentMethodTable(filters: AnalyticsFilters) {
+  const orders = await prisma.order.groupBy({
+    by: ["method", "status"],
+    where: orderFilter(filters),
+    _count: { _all: true },
+    _sum: { total: true },
+  });
+
+  const methods = new Map([
+    ["pix", { method: "PIX", orders: 0, approved: 0, conversion: 0, approvedTotal: 0 }],
+    ["card", { method: "Cartão", orders: 0, approved: 0, conversion: 0, approvedTotal: 0 }],
+  ]);
+
+  for (const group of orders) {
+    const row = methods.get(group.method === "pix" ? "pix" : "card")!;
+    row.orders += group._count._all;
+    if ((APPROVED_ORDER_STATUSES as readonly string[]).includes(group.status)) {
+      row.approved += group._count._all;
+      row.approvedTotal += group._sum.total ?? 0;
+    }
+  }
+
+  const rows = [...methods.values()].map((row) => ({ ...row, conversion: rate(row.approved, row.orders) }));
+
+  const table: AnalyticsTable<(typeof rows)[number]> = {
+    name: "payment-methods",
+    title: "Conversão PIX x cartão",
+    description: "Pedidos criados no checkout e quantos foram aprovados.",
+    columns: [
+      { key: "method", label: "Forma de pagamento", format: "text" },
+      { key: "orders", label: "Pedidos", format: "number" },
+      { key: "approved", label: "Aprovados", format: "number" },
+      { key: "conversion", label: "Conversão", format: "percent" },
+      { key: "approvedTotal", label: "Valor aprovado", format: "money" },
+    ],
+    rows,
+  };
+  return table;
+}
+
+/**
+ * Funil de compra em alunos distintos: carrinho → checkout → aprovado. O
+ * carrinho é esvaziado na compra, então quem chegou ao checkout também conta
+ * como tendo passado pelo carrinho.
+ */
+async function getFunnelTable(filters: AnalyticsFilters) {
+  const { from, to, courseId } = filters;
+
+  const [cartItems, orders] = await Promise.all([
+    prisma.cartItem.findMany({
+      where: { createdAt: { gte: from, lt: to }, ...(courseId ? { courseId } : {}) },
+      select: { cart: { select: { userId: true } } },
+    }),
+    prisma.order.findMany({
+      where: orderFilter(filters),
+      select: { userId: true, status: true },
+    }),
+  ]);
+
+  const checkout = new Set(orders.map((order) => order.userId));
+  const approved = new Set(
+    orders
+      .filter((order) => (APPROVED_ORDER_STATUSES as readonly string[]).includes(order.status))
+      .map((order) => order.userId)
+  );
+  const cart = new Set([...cartItems.map((item) => item.cart.userId), ...checkout]);
+
+  const stages = [
+    { stage: "Carrinho", users: cart.size },
+    { stage: "Checkout", users: checkout.size },
+    { stage: "Aprovado", users: approved.size },
+  ];
+
+  const table: AnalyticsTable<{ stage: string; users: number; fromPrevious: number; fromCart: number }> = {
+    name: "funnel",
+    title: "Funil de compra",
+    description: "Alunos distintos em cada etapa.",
+    columns: [
+      { key: "stage", label: "Etapa", format: "text" },
+      { key: "users", label: "Alunos", format: "number" },
+      { key: "fromPrevious", label: "Da etapa anterior", format: "percent" },
+      { key: "fromCart", label: "Do carrinho", format: "percent" },
+    ],
+    rows: stages.map((stage, index) => ({
+      ...stage,
+      fromPrevious: index === 0 ? 100 : rate(stage.users, stages[index - 1].users),
+      fromCart: rate(stage.users, stages[0].users),
+    })),
+  };
+  return table;
+}
+
+//
+// --------------------- AULAS ---------------------
+//
+
+/**
+ * Conclusão e abandono por módulo, entre os alunos que estudaram o curso no
+ * período. Abandono: o módulo mais avançado que o aluno começou, sem ter
+ * concluído o curso.
+ */
+async function getModuleTable({ from, to, courseId }: AnalyticsFilters) {
+  const table: AnalyticsTable<{
+    module: string;
+    lessons: number;
+    started: number;
+    completed: number;
+    completionRate: number;
+    dropOff: number;
+    dropOffRate: number;
+  }> = {
+    name: "modules",
+    title: "Conclusão e abandono por módulo",
+    description: courseId
+      ? "Alunos que estudaram o curso no período, considerando todo o progresso deles."
+      : "Selecione um curso para ver os módulos.",
+    columns: [
+      { key: "module", label: "Módulo", format: "text" },
+      { key: "lessons", label: "Aulas", format: "number" },
+      { key: "started", label: "Começaram", format: "number" },
+      { key: "completed", label: "Concluíram", format: "number" },
+      { key: "completionRate", label: "Conclusão", format: "percent" },
+      { key: "dropOff", label: "Pararam aqui", format: "number" },
+      { key: "dropOffRate", label: "Abandono", format: "percent" },
+    ],
+    rows: [],
+  };
+  if (!courseId) return table;
+
+  const modules = await prisma.module.findMany({
+    where: { courseId },
+    orderBy: { order: "asc" },
+    select: { id: true, title: true, lessons: { select: { id: true } } },
+  });
+  const lessonModule = new Map(
+    modules.flatMap((module, index) => module.lessons.map((lesson) => [lesson.id, index] as const))
+  );
+
+  const progress = await prisma.lessonProgress.findMany({
+    where: {
+      lessonId: { in: [...lessonModule.keys()] },
+      user: {
+        lessonProgresses: {
+          some: { lastAccessedAt: { gte: from, lt: to }, lesson: { module: { courseId } } },
+        },
+      },
+    },
+    select: { userId: true, lessonId: true, completed: true },
+  });
+
+  // Por aluno: aulas concluídas por módulo e o módulo mais avançado que começou
+  const students = new Map<string, { completedByModule: number[]; furthest: number; started: Set<number> }>();
+  for (const record of progress) {
+    const moduleIndex = lessonModule.get(record.lessonId)!;
+    const student = students.get(record.userId) ?? {
+      completedByModule: modules.map(() => 0),
+      furthest: -1,
+      started: new Set<number>(),
+    };
+    student.started.add(moduleIndex);
+    student.furthest = Math.max(student.furthest, moduleIndex);
+    if (record.completed) student.completedByModule[moduleIndex] += 1;
+    students.set(record.userId, student);
+  }
+
+  const totalLessons = lessonModule.size;
+  table.rows = modules.map((module, index) => {
+    let started = 0;
+    let completed = 0;
+    let dropOff = 0;
+
+    for (const student of students.values()) {
+      if (!student.started.has(index)) continue;
+      started += 1;
+      if (module.lessons.length > 0 && student.completedByModule[index] >= module.lessons.length) completed += 1;
+
+      const finishedCourse = student.completedByModule.reduce((sum, count) => sum + count, 0) >= totalLessons;
+      if (student.furthest === index && !finishedCourse) dropOff += 1;
+    }
+
+    return {
+      module: module.title,
+      lessons: module.lessons.length,
+      started,
+      completed,
+      completionRate: rate(completed, started),
+      dropOff,
+      dropOffRate: rate(dropOff, started),
+    };
+  });
+
+  return table;
+}
+
+/**
+ * Todos os relatórios de /admin/analytics para o período e o curso.
+ */
+export async function getAnalyticsReport(filters: AnalyticsFilters): Promise<AnalyticsTable[]> {
+  const [sales, paymentMethods, funnel, modules] = await Promise.all([
+    getSalesTables(filters),
+    getPaymentMethodTable(filters),
+    getFunnelTable(filters),
+    getModuleTable(filters),
+  ]);
+
+  return [...sales, toReportTable(paymentMethods), toReportTable(funnel), toReportTable(modules)];
+}
+
+function formatCsvValue(value: string | number, columnFormat: ColumnFormat) {
+  if (columnFormat === "money") return (Number(value) / 100).toFixed(2).replace(".", ",");
+  if (columnFormat === "percent") return String(value).replace(".", ",");
+  // Texto começando com =, +, -, @, tab ou CR viraria fórmula na planilha
+  const text = columnFormat === "text" && /^[=+\-@\t\r]/.test(String(value)) ? `'${value}` : String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV separado por ponto e vírgula, com vírgula decimal, como o Excel em
+ * português espera. Valores em reais; textos que seriam lidos como fórmula
+ * ganham um apóstrofo na frente.
+ */
+export function toCsv(table: AnalyticsTable) {
+  const lines = [
+    table.columns.map((column) => formatCsvValue(column.label, "text")).join(";"),
+    ...table.rows.map((row) =>
+      table.columns.map((column) => formatCsvValue(row[column.key], column.format)).join(";")
+    ),
+  ];
+  // BOM para o Excel reconhecer o UTF-8
+  return `\uFEFF${lines.join("\n")}\n`;
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+
+export const ANNOUNCEMENTS_PAGE_SIZE = 20;
+
+export const announcementSchema = z.object({
+  title: z.string().trim().min(3, "O título precisa ter ao menos 3 caracteres").max(200, "Título muito longo"),
+  text: z.string().trim().min(1, "Escreva o aviso").max(20000, "Aviso muito longo"),
+  isPinned: z.boolean().optional(),
+});
+
+export const announcementUpdateSchema = announcementSchema.partial();
+
+/**
+ * Avisos do curso: fixados no topo, depois os mais recentes.
+ */
+export async function listAnnouncements(courseId: string, page: number) {
+  const [announcements, total] = await Promise.all([
+    prisma.coursePost.findMany({
+      where: { courseId },
+      include: { author: { select: { id: true, name: true, image: true } } },
+      orderBy: [{ isPinned: "desc" }, { createdAt: "desc" }],
+      skip: (page - 1) * ANNOUNCEMENTS_PAGE_SIZE,
+      take: ANNOUNCEMENTS_PAGE_SIZE,
+    }),
+    prisma.coursePost.count({ where: { courseId } }),
+  ]);
+
+  return {
+    announcements,
+    page,
+    pageSize: ANNOUNCEMENTS_PAGE_SIZE,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / ANNOUNCEMENTS_PAGE_SIZE)),
+  };
+}
+
+/**
+ * Marca todos os avisos do curso como lidos e devolve a leitura anterior,
+ * para a tela destacar o que era novo.
+ */
+export async function markAnnouncementsRead(userId: string, courseId: string) {
+  const previous = await prisma.coursePostRead.findUnique({
+    where: { userId_courseId: { userId, courseId } },
+    select: { lastReadAt: true },
+  });
+
+  const now = new Date();
+  await prisma.coursePostRead.upsert({
+    where: { userId_courseId: { userId, courseId } },
+    create: { userId, courseId, lastReadAt: now },
+    update: { lastReadAt: now },
+  });
+
+  return previous?.lastReadAt ?? null;
+}
+
+/**
+ * Avisos não lidos por curso. Os avisos publicados pelo próprio usuário não contam.
+ */
+export async function getUnreadAnnouncementCounts(userId: string, courseIds: string[]) {
+  const uniqueIds = [...new Set(courseIds)];
+  if (uniqueIds.length === 0) return new Map<string, number>();
+
+  const reads = await prisma.coursePostRead.findMany({
+    where: { userId, courseId: { in: uniqueIds } },
+    select: { courseId: true, lastReadAt: true },
+  });
+  const lastReadByCourse = new Map(reads.map((read) => [read.courseId, read.lastReadAt]));
+
+  const counts = await Promise.all(
+    uniqueIds.map(async (courseId) => {
+      const lastReadAt = lastReadByCourse.get(courseId);
+      const count = await prisma.coursePost.count({
+        where: {
+          courseId,
+          authorId: { not: userId },
+          ...(lastReadAt ? { createdAt: { gt: lastReadAt } } : {}),
+        },
+      });
+      return [courseId, count] as const;
+    })
+  );
+
+  return new Map(counts);
+}
@@ -1,13 +1,26 @@
 import { PrismaAdapter } from "@next-auth/prisma-adapter";
-import { compare, hash } from "bcryptjs";
+import { compare } from "bcryptjs";
+import { cookies } from "next/headers";
 import prisma from "./prisma";
 import type { NextAuthOptions } from "next-auth";
+import type { Adapter, AdapterUser } from "next-auth/adapters";
+import { decode } from "next-auth/jwt";
 import CredentialsProvider from "next-auth/providers/credentials";
 import GoogleProvider from "next-auth/providers/google";
 import GitHubProvider from "next-auth/providers/github";
 import { UserRole } from "@/generated/prisma/enums";
-
-async function resolveUserRole(email: string): Promise<"USER" | "ADMIN" | "MODERATOR"> {
+import { EMAIL_NOT_VERIFIED, PROVIDER_LABELS, isSocialProvider } from "@/lib/credentials";
+import {
+  LINK_INTENT_COOKIE,
+  SESSION_MAX_AGE,
+  getSessionCookieName,
+  isSessionTokenCurrent,
+  verifyLinkIntent,
+} from "@/lib/account-security";
+import { getSetting } from "@/lib/settings";
+import { getTwoFactorStep } from "@/lib/two-factor";
+
+async function resolveUserRole(email: string): Promise<UserRole> {
   const roleEntry = await prisma.roleEmail.findUnique({
     where: { email },
   });
@@ -15,40 +28,52 @@ async function resolveUserRole(email: string): Promise<"USER" | "ADMIN" | "MODER
   return roleEntry?.role ?? "USER";
 }
 
-// Cria usuário social (Google) sem senha
-async function findOrCreateSocialUser(email: string, name: string, image?: string) {
-  let user = await prisma.user.findUnique({ where: { email } });
+/**
+ * Usuário da sessão aberta neste navegador, se houver. Um login social com
+ * sessão aberta vincula o provedor a essa conta (comportamento do NextAuth).
+ */
+async function getSignedInUserId() {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(getSessionCookieName())?.value;
+  if (!sessionToken) return null;
+
+  try {
+    const token = await decode({ token: sessionToken, secret: process.env.NEXTAUTH_SECRET! });
+    return token?.sub ?? null;
+  } catch {
+    return null;
+  }
+}
 
-  if (!user) {
-    user = await prisma.user.create({
+const adapter: Adapter = {
+  ...PrismaAdapter(prisma),
+  // Usuário social sem senha. O provedor já confirmou o e-mail.
+  createUser: async (data: Omit<AdapterUser, "id">) =>
+    (await prisma.user.create({
       data: {
-        email,
-        name,
-        image,
-        role: await resolveUserRole(email) as UserRole,
+        ...data,
+        emailVerified: new Date(),
+        role: await resolveUserRole(data.email),
       },
-    });
-  }
-
-  return user;
-}
+    })) as AdapterUser,
+};
 
 // ---------------------------
 // AUTH OPTIONS
 // ---------------------------
 
 export const authOptions: NextAuthOptions = {
-  adapter: PrismaAdapter(prisma),
+  adapter,
 
   session: {
     strategy: "jwt",
-    maxAge: 30 * 24 * 60 * 60, // 30 dias
+    maxAge: SESSION_MAX_AGE,
   },
 
   secret: process.env.NEXTAUTH_SECRET,
 
   pages: {
-    signIn: "/auth/signin",
+    signIn: "/signin",
   },
 
   providers: [
@@ -56,14 +81,12 @@ export const authOptions: NextAuthOptions = {
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID!,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-      allowDangerousEmailAccountLinking: true,
     }),
 
     // --- GitHub OAuth ---
     GitHubProvider({
       clientId: process.env.GITHUB_CLIENT_ID!,
       clientSecret: process.env.GITHUB_CLIENT_SECRET!,
-      allowDangerousEmailAccountLinking: true,
     }),
 
     // --- Credentials login (email/senha) ---
@@ -84,46 +107,41 @@ export const authOptions: NextAuthOptions = {
         }
 
         const user = await prisma.user.findUnique({
-          where: { email },
-          include: { passwords: true },
+          where: { email: email.trim().toLowerCase() },
+          include: { passwords: true, accounts: { select: { provider: true } } },
         });
 
-        // -------------------------------------
-        // 1) Usuário existe → validar senha
-        // -------------------------------------
-        if (user) {
-          if (!user.passwords) {
-            throw new Error("Conta registrada via login social. Use Google.");
-          }
+        // Contas só são criadas pelo cadastro (/register)
+        if (!user) {
+          throw new Error("E-mail ou senha incorretos.");
+        }
 
-          const ok = await compare(password, user.passwords.hash);
-          if (!ok) {
-            throw new Error("Senha incorreta.");
-          }
+        if (!user.passwords) {
+          const providers = user.accounts
+            .map((account) => account.provider)
+            .filter(isSocialProvider)
+            .map((provider) => PROVIDER_LABELS[provider]);
+          throw new Error(
+            providers.length > 0
+              ? `Esta conta não tem senha. Entre com ${[...new Set(providers)].join(" ou ")}.`
+              : "Esta conta não tem senha. Use \"Esqueci minha senha\" para criar uma."
+          );
+        }
 
-          return user;
+        const ok = await compare(password, user.passwords.hash);
+        if (!ok) {
+          throw new Error("E-mail ou senha incorretos.");
         }
 
-        // -------------------------------------
-        // 2) Usuário não existe → criar conta
-        // -------------------------------------
-        const hashed = await hash(password, 10);
-
-        const created = await prisma.user.create({
-          data: {
-            email,
-            name: email.split("@")[0],
-            role: await resolveUserRole(email) as UserRole,
-            passwords: {
-              create: {
-                hash: hashed,
-              },
-            },
-          },
-          include: { passwords: true },
-        });
+        if (!user.emailVerified) {
+          throw new Error(EMAIL_NOT_VERIFIED);
+        }
 
-        return created;
+        if (user.disabledAt) {
+          throw new Error("Esta conta foi desativada. Fale com o suporte.");
+        }
+
+        return user;
       },
     }),
   ],
@@ -131,19 +149,15 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     // Antes de criar sessão, trata login social (Google / GitHub)
     async signIn({ user, account, profile }) {
+      // Conta desativada pela equipe (/admin/users); o login social cai em ?error=AccessDenied
+      if ((user as any).disabledAt) return false;
+
       if (account?.provider === "google" || account?.provider === "github") {
         const email = user.email ?? profile?.email;
-        const name = user.name ?? profile?.name;
-        const image =
-          (profile as any)?.picture ??
-          (profile as any)?.image ??
-          user.image ??
-          undefined;
-
         if (!email) throw new Error("Login social não retornou e-mail.");
 
-        // Se login via GitHub e for o ADMIN_EMAIL, registra/atualiza role ADMIN
-        if (email === process.env.ADMIN_EMAIL) {
+        // E-mail listado em /admin/settings (padrão: ADMIN_EMAIL) registra/atualiza role ADMIN
+        if ((await getSetting("adminEmails")).includes(email.trim().toLowerCase())) {
           await prisma.roleEmail.upsert({
             where: { email },
             update: { role: "ADMIN" },
@@ -151,26 +165,62 @@ export const authOptions: NextAuthOptions = {
           });
         }
 
-        const dbUser = await findOrCreateSocialUser(
-          email,
-          name ?? "Usuário",
-          image
-        );
+        const linked = await prisma.account.findUnique({
+          where: {
+            provider_providerAccountId: {
+              provider: account.provider,
+              providerAccountId: account.providerAccountId,
+            },
+          },
+          select: { id: true },
+        });
+
+        // Provedor novo com sessão aberta: só vincula se o usuário pediu pela
+        // página /conta, depois de confirmar a identidade
+        const sessionUserId = linked ? null : await getSignedInUserId();
+        if (sessionUserId) {
+          const cookieStore = await cookies();
+          const intent = cookieStore.get(LINK_INTENT_COOKIE)?.value;
+          cookieStore.delete(LINK_INTENT_COOKIE);
 
-        // Sincroniza ID/role com NextAuth
-        user.id = dbUser.id;
-        (user as any).role = dbUser.role;
+          if (!verifyLinkIntent(intent, sessionUserId, account.provider)) {
+            return "/conta?erro=vinculo";
+          }
+        }
       }
 
       return true;
     },
 
     // JWT → carrega ID e role do usuário para o token
-    async jwt({ token, user }) {
+    async jwt({ token, user, account }) {
       if (user) {
         (token as any).id = (user as any).id;
         (token as any).role = (user as any).role;
       }
+
+      // Login (ou reautenticação) → registra o momento
+      if (account) {
+        token.authTime = Date.now();
+        token.tokenVersion = (user as any)?.tokenVersion ?? 0;
+
+        // Com 2FA, o token só recebe a role depois do segundo fator (/2fa)
+        const twoFactorStep = await getTwoFactorStep(token.sub!, (user as any)?.role);
+        if (twoFactorStep) {
+          token.twoFactorPending = twoFactorStep;
+          delete token.role;
+        } else {
+          delete token.twoFactorPending;
+        }
+        return token;
+      }
+
+      // Conta desativada, papel alterado ou "sair das outras sessões": o
+      // token é de uma versão antiga e a sessão é encerrada
+      if (!(await isSessionTokenCurrent(token))) {
+        throw new Error("Sessão encerrada.");
+      }
+
       return token;
     },
 
@@ -179,6 +229,8 @@ export const authOptions: NextAuthOptions = {
       if (session.user) {
         (session.user as any).id = (token as any).id;
         (session.user as any).role = (token as any).role;
+        session.user.authTime = token.authTime;
+        session.user.twoFactorPending = token.twoFactorPending;
       }
       return session;
     },
@@ -0,0 +1,185 @@
+import { randomBytes } from "crypto";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import prisma from "@/lib/prisma";
+import { hasCourseAccess } from "@/lib/permissions";
+
+// Sem caracteres ambíguos (0/O, 1/I/L) para facilitar a digitação do código
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+/**
+ * Código de verificação no formato XXXX-XXXX-XXXX.
+ */
+export function generateCertificateCode() {
+  const bytes = randomBytes(12);
+  const chars = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return [0, 4, 8].map((start) => chars.slice(start, start + 4).join("")).join("-");
+}
+
+export function normalizeCertificateCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Emite o certificado do curso quando o aluno tem acesso ativo e concluiu
+ * todas as aulas. Chamadas repetidas devolvem o certificado já emitido; um
+ * certificado revogado é reemitido com um novo código.
+ */
+export async function issueCertificateIfComplete(userId: string, courseId: string) {
+  const existing = await prisma.certificate.findUnique({
+    where: { userId_courseId: { userId, courseId } },
+  });
+  if (existing && !existing.revokedAt) return existing;
+
+  if (!(await hasCourseAccess(userId, courseId))) return null;
+
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    select: {
+      title: true,
+      modules: { select: { lessons: { select: { id: true, duration: true } } } },
+    },
+  });
+  if (!course) return null;
+
+  const lessons = course.modules.flatMap((courseModule) => courseModule.lessons);
+  if (lessons.length === 0) return null;
+
+  const completed = await prisma.lessonProgress.count({
+    where: { userId, completed: true, lessonId: { in: lessons.map((lesson) => lesson.id) } },
+  });
+  if (completed < lessons.length) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true },
+  });
+  if (!user) return null;
+
+  const data = {
+    code: generateCertificateCode(),
+    studentName: user.name || user.email || "Aluno",
+    courseTitle: course.title,
+    workloadMinutes: Math.ceil(lessons.reduce((sum, lesson) => sum + lesson.duration, 0) / 60),
+    issuedAt: new Date(),
+    revokedAt: null,
+    revokedReason: null,
+  };
+
+  const certificate = await prisma.certificate.upsert({
+    where: { userId_courseId: { userId, courseId } },
+    create: { userId, courseId, ...data },
+    update: data,
+  });
+
+  console.log(`Certificado ${certificate.code} emitido para o usuário ${userId} no curso ${courseId}`);
+  return certificate;
+}
+
+/**
+ * Verifica a emissão do certificado do curso ao qual a aula pertence.
+ */
+export async function issueCertificateForLesson(userId: string, lessonId: string) {
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: lessonId },
+    select: { module: { select: { courseId: true } } },
+  });
+  if (!lesson) return null;
+
+  return issueCertificateIfComplete(userId, lesson.module.courseId);
+}
+
+/**
+ * Revoga os certificados dos cursos aos quais o usuário perdeu o acesso.
+ * Cursos ainda liberados por outra matrícula (por exemplo, uma jornada)
+ * mantêm o certificado.
+ */
+export async function revokeCertificatesWithoutAccess(userId: string, courseIds: string[], reason: string) {
+  for (const courseId of new Set(courseIds)) {
+    if (await hasCourseAccess(userId, courseId)) continue;
+
+    const { count } = await prisma.certificate.updateMany({
+      where: { userId, courseId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (count > 0) {
+      console.log(`Certificado do curso ${courseId} revogado para o usuário ${userId}: ${reason}`);
+    }
+  }
+}
+
+/**
+ * Cursos liberados pelos itens de uma compra (o próprio curso ou os cursos da jornada).
+ */
+export async function getCourseIdsForItems(items: { courseId?: string | null; journeyId?: string | null }[]) {
+  const courseIds = items.flatMap((item) => (item.courseId ? [item.courseId] : []));
+  const journeyIds = items.flatMap((item) => (item.journeyId ? [item.journeyId] : []));
+
+  if (journeyIds.length > 0) {
+    const journeyCourses = await prisma.journeyCourse.findMany({
+      where: { journeyId: { in: journeyIds } },
+      select: { courseId: true },
+    });
+    courseIds.push(...journeyCourses.map((journeyCourse) => journeyCourse.courseId));
+  }
+
+  return courseIds;
+}
+
+export function formatWorkload(minutes: number) {
+  if (minutes < 60) return `${minutes} minuto${minutes !== 1 ? "s" : ""}`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hora${hours !== 1 ? "s" : ""}`;
+}
+
+export function getCertificateUrl(code: string) {
+  return `${process.env.NEXT_PUBLIC_URL ?? ""}/certificados/${code}`;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+type CertificateContent = {
+  code: string;
+  studentName: string;
+  courseTitle: string;
+  workloadMinutes: number;
+  issuedAt: Date;
+  revokedAt: Date | null;
+};
+
+/**
+ * Certificado em SVG (A4 paisagem), pronto para impressão ou "salvar como PDF".
+ */
+export function renderCertificateSvg(certificate: CertificateContent) {
+  const issuedAt = format(certificate.issuedAt, "d 'de' MMMM 'de' yyyy", { locale: ptBR });
+  const text = (value: string) => escapeXml(value);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="1123" height="794" viewBox="0 0 1123 794" font-family="Helvetica, Arial, sans-serif">
+  <rect width="1123" height="794" fill="#ffffff"/>
+  <rect x="30" y="30" width="1063" height="734" fill="none" stroke="#1d4ed8" stroke-width="6"/>
+  <rect x="46" y="46" width="1031" height="702" fill="none" stroke="#93c5fd" stroke-width="2"/>
+  <text x="561.5" y="170" text-anchor="middle" font-size="52" font-weight="bold" fill="#1e3a8a">CERTIFICADO</text>
+  <text x="561.5" y="215" text-anchor="middle" font-size="20" fill="#4b5563">DE CONCLUSÃO</text>
+  <text x="561.5" y="300" text-anchor="middle" font-size="22" fill="#374151">Certificamos que</text>
+  <text x="561.5" y="360" text-anchor="middle" font-size="40" font-weight="bold" fill="#111827">${text(certificate.studentName)}</text>
+  <text x="561.5" y="420" text-anchor="middle" font-size="22" fill="#374151">concluiu o curso</text>
+  <text x="561.5" y="472" text-anchor="middle" font-size="32" font-weight="bold" fill="#1d4ed8">${text(certificate.courseTitle)}</text>
+  <text x="561.5" y="525" text-anchor="middle" font-size="20" fill="#374151">com carga horária de ${text(formatWorkload(certificate.workloadMinutes))}, em ${text(issuedAt)}.</text>
+  <text x="561.5" y="660" text-anchor="middle" font-size="16" fill="#6b7280">Código de verificação: ${text(certificate.code)}</text>
+  <text x="561.5" y="688" text-anchor="middle" font-size="14" fill="#6b7280">${text(getCertificateUrl(certificate.code))}</text>${
+    certificate.revokedAt
+      ? `
+  <text x="561.5" y="420" text-anchor="middle" font-size="120" font-weight="bold" fill="#dc2626" fill-opacity="0.25" transform="rotate(-20 561.5 420)">REVOGADO</text>`
+      : ""
+  }
+</svg>`;
+}
@@ -0,0 +1,166 @@
+import prisma from "@/lib/prisma";
+import { getEffectiveCoursePrice, getInstallmentTotal } from "@/lib/price";
+import { getSetting } from "@/lib/settings";
+
+export type CheckoutItemType = "curso" | "jornada";
+
+/**
+ * Códigos de erro devolvidos ao cliente quando o pedido não pode ser montado.
+ */
+export type CheckoutErrorCode =
+  | "EMPTY_CART"
+  | "ITEM_NOT_FOUND"
+  | "ITEM_NOT_PURCHASABLE"
+  | "DUPLICATE_ITEM"
+  | "PRICE_MISMATCH";
+
+export class CheckoutError extends Error {
+  constructor(
+    public code: CheckoutErrorCode,
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = "CheckoutError";
+  }
+}
+
+export interface CheckoutRequestItem {
+  id: string;
+  type?: string;
+}
+
+// type (e não interface) para poder ser gravado direto em colunas Json
+export type OrderLine = {
+  id: string;
+  type: CheckoutItemType;
+  title: string;
+  price: number;
+  quantity: number;
+  imageUrl: string;
+};
+
+export interface ServerOrder {
+  items: OrderLine[];
+  /** Soma dos itens em centavos, antes de parcelamento */
+  subtotal: number;
+  /** Valor efetivamente cobrado em centavos */
+  total: number;
+}
+
+function normalizeType(type?: string): CheckoutItemType | undefined {
+  if (type === "curso" || type === "course") return "curso";
+  if (type === "jornada" || type === "journey") return "jornada";
+  return undefined;
+}
+
+/**
+ * Monta o pedido a partir do banco de dados. Título e preço enviados pelo
+ * navegador são ignorados; apenas o id (e o tipo, quando informado) são usados.
+ */
+export async function buildServerOrder(
+  requestItems: CheckoutRequestItem[],
+  installments = 1
+): Promise<ServerOrder> {
+  if (requestItems.length === 0) {
+    throw new CheckoutError("EMPTY_CART", "Nenhum item no carrinho");
+  }
+
+  const seen = new Set<string>();
+  const items: OrderLine[] = [];
+
+  for (const requestItem of requestItems) {
+    const type = normalizeType(requestItem.type);
+
+    const [course, journey] = await Promise.all([
+      type !== "jornada"
+        ? prisma.course.findUnique({
+            where: { id: requestItem.id },
+            select: {
+              id: true,
+              title: true,
+              imageUrl: true,
+              price: true,
+              discountPrice: true,
+              discountEnabled: true,
+            },
+          })
+        : null,
+      type !== "curso"
+        ? prisma.journey.findUnique({
+            where: { id: requestItem.id },
+            select: { id: true, title: true, imageUrl: true, price: true },
+          })
+        : null,
+    ]);
+
+    let line: OrderLine;
+
+    if (course) {
+      const price = getEffectiveCoursePrice(course);
+      if (!price || price <= 0) {
+        throw new CheckoutError(
+          "ITEM_NOT_PURCHASABLE",
+          `Curso ${course.title} não está disponível para compra`
+        );
+      }
+      line = {
+        id: course.id,
+        type: "curso",
+        title: course.title,
+        price,
+        quantity: 1,
+        imageUrl: course.imageUrl || "",
+      };
+    } else if (journey) {
+      if (!journey.price || journey.price <= 0) {
+        throw new CheckoutError(
+          "ITEM_NOT_PURCHASABLE",
+          `Jornada ${journey.title} não está disponível para compra`
+        );
+      }
+      line = {
+        id: journey.id,
+        type: "jornada",
+        title: journey.title,
+        price: journey.price,
+        quantity: 1,
+        imageUrl: journey.imageUrl || "",
+      };
+    } else {
+      throw new CheckoutError(
+        "ITEM_NOT_FOUND",
+        `Item ${requestItem.id} não encontrado nem como curso nem como jornada`,
+        404
+      );
+    }
+
+    const key = `${line.type}:${line.id}`;
+    if (seen.has(key)) {
+      throw new CheckoutError("DUPLICATE_ITEM", `Item duplicado no carrinho: ${line.title}`);
+    }
+    seen.add(key);
+    items.push(line);
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  return {
+    items,
+    subtotal,
+    total: getInstallmentTotal(subtotal, installments, await getSetting("installmentRatePercent")),
+  };
+}
+
+/**
+ * Rejeita o pedido quando o total exibido ao cliente difere do calculado no servidor.
+ */
+export function assertClientTotal(order: ServerOrder, clientTotal: unknown) {
+  if (Number(clientTotal) !== order.subtotal) {
+    throw new CheckoutError(
+      "PRICE_MISMATCH",
+      "O valor do carrinho mudou. Atualize a página e revise seu pedido.",
+      409
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Erro devolvido pelo authorize quando a conta ainda não confirmou o e-mail
+export const EMAIL_NOT_VERIFIED = "EMAIL_NOT_VERIFIED";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const passwordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`)
+  .max(200, "Senha muito longa");
+
+export const registerSchema = z.object({
+  name: z.string().trim().min(2, "Informe seu nome").max(100, "Nome muito longo"),
+  email: z.string().trim().toLowerCase().email("Informe um e-mail válido"),
+  password: passwordSchema,
+});
+
+export const emailSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Informe um e-mail válido"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Link inválido"),
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  password: passwordSchema,
+});
+
+// Erro das ações da página /conta que exigem login recente
+export const REAUTH_REQUIRED = "REAUTH_REQUIRED";
+
+// Erro das APIs quando a sessão ainda aguarda o código de verificação em duas etapas
+export const TWO_FACTOR_REQUIRED = "TWO_FACTOR_REQUIRED";
+
+export const SOCIAL_PROVIDERS = ["google", "github"] as const;
+export type SocialProvider = (typeof SOCIAL_PROVIDERS)[number];
+
+export const PROVIDER_LABELS: Record<SocialProvider, string> = {
+  google: "Google",
+  github: "GitHub",
+};
+
+export function isSocialProvider(value: unknown): value is SocialProvider {
+  return SOCIAL_PROVIDERS.includes(value as SocialProvider);
+}
@@ -0,0 +1,76 @@
+import prisma from "@/lib/prisma";
+
+/**
+ * Módulos do curso com as aulas, ambos na ordem de exibição.
+ */
+export async function getCourseCurriculum(courseId: string) {
+  return prisma.module.findMany({
+    where: { courseId },
+    orderBy: { order: "asc" },
+    select: {
+      id: true,
+      title: true,
+      order: true,
+      lessons: {
+        orderBy: { order: "asc" },
+        select: { id: true, title: true, order: true, duration: true, content: true },
+      },
+    },
+  });
+}
+
+export interface CurriculumLayout {
+  id: string;
+  lessonIds: string[];
+}
+
+/**
+ * Reescreve `order` de módulos e aulas (e o módulo de cada aula, quando ela
+ * muda de lugar) numa única transação. O layout precisa listar exatamente os
+ * módulos e aulas atuais do curso; retorna uma mensagem de erro caso contrário.
+ */
+export async function reorderCurriculum(courseId: string, layout: CurriculumLayout[]) {
+  const current = await prisma.module.findMany({
+    where: { courseId },
+    select: { id: true, lessons: { select: { id: true } } },
+  });
+
+  const currentModuleIds = new Set(current.map((module) => module.id));
+  const currentLessonIds = new Set(current.flatMap((module) => module.lessons.map((lesson) => lesson.id)));
+  const layoutLessonIds = layout.flatMap((module) => module.lessonIds);
+
+  if (
+    layout.length !== currentModuleIds.size ||
+    new Set(layout.map((module) => module.id)).size !== layout.length ||
+    layout.some((module) => !currentModuleIds.has(module.id))
+  ) {
+    return { error: "A lista de módulos não corresponde ao curso" };
+  }
+
+  if (
+    layoutLessonIds.length !== currentLessonIds.size ||
+    new Set(layoutLessonIds).size !== layoutLessonIds.length ||
+    layoutLessonIds.some((id) => !currentLessonIds.has(id))
+  ) {
+    return { error: "A lista de aulas não corresponde ao curso" };
+  }
+
+  await prisma.$transaction([
+    ...layout.map((module, index) =>
+      prisma.module.update({
+        where: { id: module.id },
+        data: { order: index + 1 },
+      })
+    ),
+    ...layout.flatMap((module) =>
+      module.lessonIds.map((lessonId, index) =>
+        prisma.lesson.update({
+          where: { id: lessonId },
+          data: { order: index + 1, moduleId: module.id },
+        })
+      )
+    ),
+  ]);
+
+  return { error: null };
+}
@@ -0,0 +1,152 @@
+import prisma from "@/lib/prisma";
+import { EmailStatus } from "@/generated/prisma/enums";
+import { getEmailFrom, getEmailTransport } from "@/lib/email";
+import { renderEmail, type EmailTemplateName, type EmailTemplates } from "@/lib/email-templates";
+
+// Depois disso o e-mail vai para DEAD e só volta com reenvio manual
+export const MAX_EMAIL_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// E-mails presos em SENDING por mais que isso voltam para a fila
+const SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Atraso antes da próxima tentativa: 1min, 2min, 4min... limitado a 6h.
+ */
+function getEmailRetryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Renderiza o template e grava o e-mail na fila. Com dedupeKey, a mesma
+ * notificação (ex.: reprocessamento do webhook) não é enfileirada duas vezes.
+ */
+export async function enqueueEmail<K extends EmailTemplateName>(
+  template: K,
+  data: EmailTemplates[K],
+  options: { to: string; userId?: string | null; dedupeKey?: string }
+) {
+  if (options.dedupeKey) {
+    const existing = await prisma.emailOutbox.findUnique({ where: { dedupeKey: options.dedupeKey } });
+    if (existing) return null;
+  }
+
+  const { subject, text, html } = renderEmail(template, data);
+
+  try {
+    return await prisma.emailOutbox.create({
+      data: {
+        to: options.to,
+        userId: options.userId ?? null,
+        template,
+        data: data as object,
+        subject,
+        text,
+        html,
+        dedupeKey: options.dedupeKey ?? null,
+      },
+    });
+  } catch (error: any) {
+    // Enfileirado em paralelo por outro processo
+    if (error?.code === "P2002") return null;
+    throw error;
+  }
+}
+
+/**
+ * Tenta entregar um e-mail da fila, registrando o envio ou agendando nova
+ * tentativa com backoff exponencial.
+ */
+export async function deliverEmail(id: string) {
+  const staleBefore = new Date(Date.now() - SENDING_TIMEOUT_MS);
+
+  // Reserva o e-mail; se outro worker pegou antes, count será 0
+  const { count } = await prisma.emailOutbox.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: { in: ["PENDING", "FAILED"] } },
+        { status: "SENDING", updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: "SENDING", attempts: { increment: 1 } },
+  });
+
+  if (count === 0) return null;
+
+  const email = await prisma.emailOutbox.findUniqueOrThrow({ where: { id } });
+  try {
+    await getEmailTransport().send({
+      from: getEmailFrom(),
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html ?? undefined,
+    });
+
+    return await prisma.emailOutbox.update({
+      where: { id },
+      data: { status: "SENT", sentAt: new Date(), lastError: null },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status: EmailStatus = email.attempts >= MAX_EMAIL_ATTEMPTS ? "DEAD" : "FAILED";
+
+    console.error(`Falha ao enviar e-mail ${email.id} (tentativa ${email.attempts}):`, message);
+
+    return prisma.emailOutbox.update({
+      where: { id },
+      data: {
+        status,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + getEmailRetryDelay(email.attempts)),
+      },
+    });
+  }
+}
+
+/**
+ * Enfileira e já tenta a primeira entrega. Nunca lança: uma falha de e-mail
+ * não pode derrubar o fluxo que gerou a notificação; o worker tenta de novo.
+ */
+export async function sendTransactionalEmail<K extends EmailTemplateName>(
+  template: K,
+  data: EmailTemplates[K],
+  options: { to: string; userId?: string | null; dedupeKey?: string }
+) {
+  try {
+    const email = await enqueueEmail(template, data, options);
+    if (email) {
+      await deliverEmail(email.id);
+    }
+  } catch (error) {
+    console.error(`Erro ao enfileirar e-mail ${template} para ${options.to}:`, error);
+  }
+}
+
+/**
+ * Entrega os e-mails cuja próxima tentativa já venceu. Chamado pelo worker agendado.
+ */
+export async function deliverDueEmails(limit = 50) {
+  const now = new Date();
+  const due = await prisma.emailOutbox.findMany({
+    where: {
+      OR: [
+        { status: { in: ["PENDING", "FAILED"] }, nextAttemptAt: { lte: now } },
+        { status: "SENDING", updatedAt: { lt: new Date(now.getTime() - SENDING_TIMEOUT_MS) } },
+      ],
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const results = [];
+  for (const { id } of due) {
+    results.push(await deliverEmail(id));
+  }
+
+  return results.filter(Boolean);
+}
@@ -0,0 +1,145 @@
+import { formatPrice } from "@/lib/price";
+
+/**
+ * Dados de cada template de e-mail. Valores em centavos, links absolutos.
+ */
+export type EmailTemplates = {
+  "email-verification": { name: string | null; link: string };
+  "password-reset": { name: string | null; link: string };
+  "purchase-approved": {
+    name: string | null;
+    items: { title: string }[];
+    total: number;
+    dashboardUrl: string;
+  };
+  "pix-pending": {
+    name: string | null;
+    items: { title: string }[];
+    total: number;
+    ticketUrl: string | null;
+  };
+  "refund-completed": {
+    name: string | null;
+    items: { title: string }[];
+    amount: number;
+  };
+  "forum-reply": {
+    name: string | null;
+    replierName: string;
+    postTitle: string;
+    excerpt: string;
+    url: string;
+  };
+};
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type Block = string | { link: string; label: string };
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Monta as versões texto e HTML a partir dos mesmos blocos: parágrafos de
+ * texto ou links, que no HTML viram botões.
+ */
+function layout(subject: string, blocks: Block[]): RenderedEmail {
+  const text = blocks
+    .map((block) => (typeof block === "string" ? block : `${block.label}: ${block.link}`))
+    .join("\n\n");
+
+  const body = blocks
+    .map((block) =>
+      typeof block === "string"
+        ? `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(block).replace(/\n/g, "<br>")}</p>`
+        : `<p style="margin:0 0 16px"><a href="${escapeHtml(block.link)}" style="display:inline-block;padding:10px 18px;background:#1d4ed8;color:#ffffff;border-radius:6px;text-decoration:none">${escapeHtml(block.label)}</a></p>`
+    )
+    .join("\n");
+
+  const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;color:#111827">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+    <h1 style="margin:0 0 24px;font-size:20px">${escapeHtml(subject)}</h1>
+${body}
+    <p style="margin:32px 0 0;font-size:12px;color:#6b7280">programacao.dev</p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+function greeting(name: string | null) {
+  return `Olá, ${name || "aluno"}!`;
+}
+
+function itemList(items: { title: string }[]) {
+  return items.map((item) => `• ${item.title}`).join("\n");
+}
+
+const templates: { [K in EmailTemplateName]: (data: EmailTemplates[K]) => RenderedEmail } = {
+  "email-verification": (data) =>
+    layout("Confirme seu e-mail", [
+      greeting(data.name),
+      "Confirme seu e-mail para entrar na plataforma.",
+      { link: data.link, label: "Confirmar e-mail" },
+      "O link vale por 24 horas. Se você não criou esta conta, ignore esta mensagem.",
+    ]),
+
+  "password-reset": (data) =>
+    layout("Redefinição de senha", [
+      greeting(data.name),
+      "Recebemos um pedido para redefinir sua senha.",
+      { link: data.link, label: "Criar nova senha" },
+      "O link vale por 1 hora. Se você não fez o pedido, ignore esta mensagem.",
+    ]),
+
+  "purchase-approved": (data) =>
+    layout("Pagamento aprovado", [
+      greeting(data.name),
+      `Seu pagamento de ${formatPrice(data.total)} foi aprovado e o acesso já está liberado:`,
+      itemList(data.items),
+      { link: data.dashboardUrl, label: "Começar a estudar" },
+    ]),
+
+  "pix-pending": (data) =>
+    layout("Seu PIX está aguardando pagamento", [
+      greeting(data.name),
+      `Recebemos seu pedido de ${formatPrice(data.total)}. O acesso é liberado assim que o PIX for pago:`,
+      itemList(data.items),
+      ...(data.ticketUrl ? [{ link: data.ticketUrl, label: "Ver QR Code do PIX" }] : []),
+      "Se você já pagou, pode ignorar esta mensagem.",
+    ]),
+
+  "refund-completed": (data) =>
+    layout("Reembolso concluído", [
+      greeting(data.name),
+      `O reembolso de ${formatPrice(data.amount)} foi concluído. O acesso aos itens abaixo foi encerrado:`,
+      itemList(data.items),
+      "O estorno aparece na fatura ou conta conforme o prazo do seu banco ou operadora.",
+    ]),
+
+  "forum-reply": (data) =>
+    layout(`Nova resposta em "${data.postTitle}"`, [
+      greeting(data.name),
+      `${data.replierName} respondeu no fórum:`,
+      data.excerpt,
+      { link: data.url, label: "Ver resposta" },
+    ]),
+};
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplates[K]): RenderedEmail {
+  return templates[template](data);
+}
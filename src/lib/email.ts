@@ -0,0 +1,136 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * Link absoluto para a aplicação, para usar no corpo dos e-mails.
+ */
+export function appUrl(pathname: string) {
+  return `${process.env.NEXT_PUBLIC_URL ?? ""}${pathname}`;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Imprime o e-mail no console do servidor (padrão em desenvolvimento).
+ */
+export const consoleTransport: EmailTransport = {
+  async send(message) {
+    console.log(
+      [
+        "----- E-mail -----",
+        `De: ${message.from}`,
+        `Para: ${message.to}`,
+        `Assunto: ${message.subject}`,
+        "",
+        message.text,
+        "------------------",
+      ].join("\n")
+    );
+  },
+};
+
+/**
+ * Grava cada e-mail como um arquivo .eml em EMAIL_FILE_DIR (padrão: .emails/).
+ */
+export const fileTransport: EmailTransport = {
+  async send(message) {
+    const dir = process.env.EMAIL_FILE_DIR || path.join(process.cwd(), ".emails");
+    await mkdir(dir, { recursive: true });
+
+    const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const file = path.join(dir, `${Date.now()}-${safeTo}.eml`);
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "MIME-Version: 1.0",
+    ];
+    const boundary = `----=_${Date.now()}`;
+    const content = message.html
+      ? [
+          ...headers,
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          "",
+          `--${boundary}`,
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          message.text,
+          `--${boundary}`,
+          "Content-Type: text/html; charset=utf-8",
+          "",
+          message.html,
+          `--${boundary}--`,
+        ].join("\r\n")
+      : [...headers, "Content-Type: text/plain; charset=utf-8", "", message.text].join("\r\n");
+
+    await writeFile(file, content, "utf8");
+    console.log(`E-mail para ${message.to} gravado em ${file}`);
+  },
+};
+
+let smtpClient: nodemailer.Transporter | null = null;
+
+/**
+ * Envio real por SMTP, configurado por SMTP_HOST, SMTP_PORT, SMTP_USER,
+ * SMTP_PASSWORD e SMTP_SECURE ("true" para TLS direto, normalmente na porta 465).
+ */
+export const smtpTransport: EmailTransport = {
+  async send(message) {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST não configurado");
+    }
+
+    smtpClient ??= nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+
+    await smtpClient.sendMail(message);
+  },
+};
+
+const transports: Record<string, EmailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+  smtp: smtpTransport,
+};
+
+/**
+ * Transporte escolhido por EMAIL_TRANSPORT ("console", "file" ou "smtp").
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT || "console";
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Transporte de e-mail desconhecido: ${name}`);
+  }
+  return transport;
+}
+
+export function getEmailFrom() {
+  return process.env.EMAIL_FROM || "Programação.dev <nao-responda@programacao.dev>";
+}
+
+/**
+ * Envio imediato, sem fila. Usado pelos e-mails de conta, cujos links levam
+ * tokens que não devem ficar gravados no banco; o resto passa pela fila
+ * (src/lib/email-outbox.ts).
+ */
+export async function sendEmail(message: EmailMessage) {
+  await getEmailTransport().send({ ...message, from: getEmailFrom() });
+}
@@ -0,0 +1,147 @@
+import prisma from "@/lib/prisma";
+import { ForumModerationAction } from "@/generated/prisma/enums";
+
+export const POST_MODERATION_ACTIONS = {
+  hide: { data: { isHidden: true }, log: "HIDE_POST" },
+  unhide: { data: { isHidden: false }, log: "UNHIDE_POST" },
+  lock: { data: { isLocked: true }, log: "LOCK_POST" },
+  unlock: { data: { isLocked: false }, log: "UNLOCK_POST" },
+  pin: { data: { isPinned: true }, log: "PIN_POST" },
+  unpin: { data: { isPinned: false }, log: "UNPIN_POST" },
+} as const;
+
+export type PostModerationAction = keyof typeof POST_MODERATION_ACTIONS;
+
+export function isPostModerationAction(value: unknown): value is PostModerationAction {
+  return typeof value === "string" && value in POST_MODERATION_ACTIONS;
+}
+
+// Suspensões de 1 dia a 1 ano
+export const MAX_BAN_DAYS = 365;
+
+export async function logModeration(
+  moderatorId: string,
+  action: ForumModerationAction,
+  target: { type: "post" | "comment" | "report" | "user" | "ban"; id: string },
+  reason?: string | null
+) {
+  return prisma.forumModerationLog.create({
+    data: {
+      moderatorId,
+      action,
+      targetType: target.type,
+      targetId: target.id,
+      reason: reason || null,
+    },
+  });
+}
+
+/**
+ * Oculta, tranca ou fixa um post (ou desfaz) e registra no log.
+ */
+export async function moderatePost(postId: string, action: PostModerationAction, moderatorId: string, reason?: string | null) {
+  const { data, log } = POST_MODERATION_ACTIONS[action];
+
+  const post = await prisma.forumPost.update({
+    where: { id: postId },
+    data,
+    select: { id: true, isHidden: true, isLocked: true, isPinned: true },
+  });
+
+  await logModeration(moderatorId, log, { type: "post", id: postId }, reason);
+  return post;
+}
+
+/**
+ * Apaga o post com as respostas (votos saem em cascata). Pela moderação exige
+ * motivo e vai para o log; pelo autor, fica sem registro.
+ */
+export async function deletePost(postId: string, deletedById: string, moderation?: { reason: string }) {
+  await prisma.$transaction([
+    prisma.forumComment.deleteMany({ where: { postId } }),
+    prisma.forumPost.delete({ where: { id: postId } }),
+  ]);
+
+  if (moderation) {
+    await logModeration(deletedById, "DELETE_POST", { type: "post", id: postId }, moderation.reason);
+  }
+}
+
+/**
+ * Exclusão lógica de uma resposta. Pela moderação exige motivo e vai para o
+ * log; pelo autor, fica sem motivo.
+ */
+export async function softDeleteComment(commentId: string, deletedById: string, moderation?: { reason: string }) {
+  const comment = await prisma.forumComment.update({
+    where: { id: commentId },
+    data: {
+      deletedAt: new Date(),
+      deletedById,
+      deletedReason: moderation?.reason ?? null,
+    },
+    select: { id: true, postId: true },
+  });
+
+  // Uma resposta removida deixa de ser a solução do post
+  await prisma.forumPost.updateMany({
+    where: { id: comment.postId, acceptedCommentId: commentId },
+    data: { acceptedCommentId: null },
+  });
+
+  if (moderation) {
+    await logModeration(deletedById, "DELETE_COMMENT", { type: "comment", id: commentId }, moderation.reason);
+  }
+
+  return comment;
+}
+
+/**
+ * Fecha uma denúncia da fila como resolvida ou descartada.
+ */
+export async function closeReport(
+  reportId: string,
+  status: "RESOLVED" | "DISMISSED",
+  moderatorId: string,
+  resolution?: string | null
+) {
+  const report = await prisma.forumReport.update({
+    where: { id: reportId },
+    data: {
+      status,
+      resolution: resolution || null,
+      resolvedById: moderatorId,
+      resolvedAt: new Date(),
+    },
+  });
+
+  await logModeration(
+    moderatorId,
+    status === "RESOLVED" ? "RESOLVE_REPORT" : "DISMISS_REPORT",
+    { type: "report", id: reportId },
+    resolution
+  );
+
+  return report;
+}
+
+export async function banUser(userId: string, days: number, reason: string, moderatorId: string) {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + days);
+
+  const ban = await prisma.forumBan.create({
+    data: { userId, reason, expiresAt, createdById: moderatorId },
+  });
+
+  await logModeration(moderatorId, "BAN_USER", { type: "user", id: userId }, `${reason} (${days} dias)`);
+  return ban;
+}
+
+export async function revokeBan(banId: string, moderatorId: string) {
+  const ban = await prisma.forumBan.update({
+    where: { id: banId },
+    data: { revokedAt: new Date() },
+  });
+
+  await logModeration(moderatorId, "REVOKE_BAN", { type: "ban", id: banId });
+  return ban;
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+
+export const FORUM_PAGE_SIZE = 20;
+
+/**
+ * Contextos do fórum, na URL /forum/[context_type]/[context_id]:
+ * - publico/geral: fórum aberto, posts sem curso
+ * - curso/<id do curso>: fórum restrito aos alunos do curso
+ */
+export type ForumContextType = "publico" | "curso";
+
+export const PUBLIC_FORUM_CONTEXT_ID = "geral";
+
+export type ForumContext = {
+  type: ForumContextType;
+  id: string;
+  cursoId: string | null;
+};
+
+export function parseForumContext(type: string | null, id: string | null): ForumContext | null {
+  if (type === "publico" && id === PUBLIC_FORUM_CONTEXT_ID) {
+    return { type, id, cursoId: null };
+  }
+  if (type === "curso" && id) {
+    return { type, id, cursoId: id };
+  }
+  return null;
+}
+
+export function getForumContextPath(cursoId: string | null) {
+  return cursoId ? `/forum/curso/${cursoId}` : `/forum/publico/${PUBLIC_FORUM_CONTEXT_ID}`;
+}
+
+export const forumPostSchema = z.object({
+  title: z.string().trim().min(3, "O título precisa ter ao menos 3 caracteres").max(200, "Título muito longo"),
+  text: z.string().trim().min(1, "Escreva o conteúdo do post").max(20000, "Conteúdo muito longo"),
+});
+
+export const forumCommentSchema = z.object({
+  text: z.string().trim().min(1, "Escreva a resposta").max(10000, "Resposta muito longa"),
+  parentId: z.string().min(1).nullish(),
+});
+
+/**
+ * Ordenações da lista de posts:
+ * - newest: mais recentes primeiro
+ * - unanswered: só posts sem nenhuma resposta, mais recentes primeiro
+ * - votes: mais votados primeiro
+ */
+export const FORUM_SORTS = ["newest", "unanswered", "votes"] as const;
+export type ForumSort = (typeof FORUM_SORTS)[number];
+
+export function parseForumSort(value: string | null): ForumSort {
+  return FORUM_SORTS.includes(value as ForumSort) ? (value as ForumSort) : "newest";
+}
+
+// Respostas diretas ao post têm profundidade 0; abaixo do limite, a resposta vira irmã do comentário
+export const MAX_REPLY_DEPTH = 3;
+
+/**
+ * `content` de posts e comentários é gravado como { text }. Registros antigos
+ * podem ter o texto direto no JSON.
+ */
+export function getForumText(content: unknown) {
+  if (typeof content === "string") return content;
+  if (content && typeof content === "object" && "text" in content && typeof content.text === "string") {
+    return content.text;
+  }
+  return "";
+}
+
+export function getPageParam(value: string | null) {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+export const forumAuthorSelect = {
+  select: { id: true, name: true, image: true },
+} as const;
+
+export function forumAccessError(access: { userId: string | null }) {
+  return access.userId
+    ? { error: "Você não tem acesso a este post", status: 403 }
+    : { error: "Faça login para continuar", status: 401 };
+}
+
+type CommentNode = { id: string; parentId: string | null };
+
+/**
+ * Monta a árvore de respostas a partir da lista plana, preservando a ordem recebida.
+ */
+export function buildCommentTree<T extends CommentNode>(roots: T[], descendants: T[]) {
+  type Node = T & { replies: Node[] };
+  const byParent = new Map<string, T[]>();
+  for (const comment of descendants) {
+    if (!comment.parentId) continue;
+    byParent.set(comment.parentId, [...(byParent.get(comment.parentId) ?? []), comment]);
+  }
+
+  const attach = (comment: T): Node => ({
+    ...comment,
+    replies: (byParent.get(comment.id) ?? []).map(attach),
+  });
+
+  return roots.map(attach);
+}
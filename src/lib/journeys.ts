@@ -0,0 +1,36 @@
+import { isValidPrice } from "@/lib/price";
+
+type JourneyFieldsInput = {
+  price?: unknown;
+  durationMonths?: unknown;
+  courseIds?: unknown;
+};
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Valida e normaliza preço (centavos), duração (meses) e cursos enviados pelo
+ * painel de jornadas. courseIds undefined significa "não alterar a lista".
+ */
+export function parseJourneyFields(data: JourneyFieldsInput) {
+  const price = isBlank(data.price) ? null : Math.round(Number(data.price));
+  if (price !== null && !isValidPrice(price)) {
+    return { error: "Price must be a non-negative amount in cents" } as const;
+  }
+
+  const durationMonths = isBlank(data.durationMonths) ? null : Number(data.durationMonths);
+  if (durationMonths !== null && (!Number.isInteger(durationMonths) || durationMonths <= 0)) {
+    return { error: "Duration must be a positive whole number of months" } as const;
+  }
+
+  if (data.courseIds !== undefined && !Array.isArray(data.courseIds)) {
+    return { error: "courseIds must be a list" } as const;
+  }
+
+  // Um curso repetido quebraria a chave composta de JourneyCourse
+  const courseIds = Array.isArray(data.courseIds) ? [...new Set(data.courseIds.map(String))] : undefined;
+
+  return { price, durationMonths, courseIds };
+}
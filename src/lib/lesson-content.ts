@@ -0,0 +1,198 @@
+import { z } from "zod";
+
+/**
+ * Formato do campo `Lesson.content`.
+ *
+ * Uma aula é uma lista ordenada de blocos, envelopada com a versão do formato:
+ *
+ *   { "version": 1, "blocks": [{ "id": "b1", "type": "rich_text", "markdown": "..." }] }
+ *
+ * Tipos de bloco:
+ * - rich_text: texto em markdown
+ * - video: vídeo incorporado (YouTube, Vimeo ou URL de player); durationSeconds é opcional
+ * - code: exemplo de código com linguagem e nome de arquivo opcional
+ * - callout: destaque do tipo info, tip, warning ou danger
+ * - attachment: arquivo para download
+ * - quiz: referência a um questionário pelo id
+ *
+ * Toda mudança incompatível no formato incrementa LESSON_CONTENT_VERSION e
+ * ganha uma entrada em `migrations`, que converte a versão anterior na seguinte.
+ * Conteúdo antigo sem versão (texto puro ou { text, videoUrl }) é tratado como versão 0.
+ */
+export const LESSON_CONTENT_VERSION = 1;
+
+const blockId = z.string().min(1, "Bloco sem id");
+
+// Só http(s): javascript: e data: virariam links executáveis no player e no download
+const httpUrl = (error: string) => z.url({ protocol: /^https?$/, error });
+
+const richTextBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("rich_text"),
+  markdown: z.string(),
+});
+
+const videoBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("video"),
+  url: httpUrl("URL de vídeo inválida"),
+  title: z.string().optional(),
+  durationSeconds: z.number().int().nonnegative().optional(),
+});
+
+const codeBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("code"),
+  language: z.string().min(1, "Informe a linguagem do código"),
+  code: z.string(),
+  filename: z.string().optional(),
+});
+
+const calloutBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("callout"),
+  variant: z.enum(["info", "tip", "warning", "danger"]),
+  title: z.string().optional(),
+  markdown: z.string(),
+});
+
+const attachmentBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("attachment"),
+  url: httpUrl("URL do anexo inválida"),
+  fileName: z.string().min(1, "Informe o nome do arquivo"),
+  mimeType: z.string().optional(),
+  sizeBytes: z.number().int().nonnegative().optional(),
+});
+
+const quizBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("quiz"),
+  quizId: z.string().min(1, "Informe o questionário"),
+  title: z.string().optional(),
+});
+
+export const lessonBlockSchema = z.discriminatedUnion("type", [
+  richTextBlockSchema,
+  videoBlockSchema,
+  codeBlockSchema,
+  calloutBlockSchema,
+  attachmentBlockSchema,
+  quizBlockSchema,
+]);
+
+export const lessonContentSchema = z
+  .object({
+    version: z.literal(LESSON_CONTENT_VERSION),
+    blocks: z.array(lessonBlockSchema),
+  })
+  .refine(
+    (content) => new Set(content.blocks.map((block) => block.id)).size === content.blocks.length,
+    { message: "Ids de bloco repetidos", path: ["blocks"] }
+  );
+
+export type LessonBlock = z.infer<typeof lessonBlockSchema>;
+export type LessonBlockType = LessonBlock["type"];
+export type LessonContent = z.infer<typeof lessonContentSchema>;
+
+export function emptyLessonContent(): LessonContent {
+  return { version: LESSON_CONTENT_VERSION, blocks: [] };
+}
+
+export function getLessonContentVersion(raw: unknown) {
+  if (raw && typeof raw === "object" && "version" in raw && typeof raw.version === "number") {
+    return raw.version;
+  }
+  return 0;
+}
+
+/**
+ * Cada entrada converte o conteúdo da versão `n` para `n + 1`.
+ */
+const migrations: Record<number, (raw: unknown) => unknown> = {
+  // Versão 0: texto puro ou { text, videoUrl }
+  0: (raw) => {
+    const blocks: LessonBlock[] = [];
+
+    if (typeof raw === "string") {
+      if (raw.trim()) blocks.push({ id: "legacy-text", type: "rich_text", markdown: raw });
+    } else if (raw && typeof raw === "object") {
+      const { text, videoUrl } = raw as { text?: unknown; videoUrl?: unknown };
+      if (typeof videoUrl === "string") {
+        blocks.push({ id: "legacy-video", type: "video", url: videoUrl });
+      }
+      if (typeof text === "string" && text.trim()) {
+        blocks.push({ id: "legacy-text", type: "rich_text", markdown: text });
+      }
+    }
+
+    return { version: 1, blocks };
+  },
+};
+
+/**
+ * Aplica as migrações necessárias para trazer o conteúdo à versão atual.
+ * Não valida o resultado; use parseLessonContent para isso.
+ */
+export function migrateLessonContent(raw: unknown): unknown {
+  let content: unknown = raw ?? "";
+  let version = getLessonContentVersion(content);
+
+  while (version < LESSON_CONTENT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) break;
+    content = migrate(content);
+    version = getLessonContentVersion(content);
+  }
+
+  return content;
+}
+
+/**
+ * Migra e valida o conteúdo lido do banco, que pode ter sido gravado numa versão anterior.
+ */
+export function parseLessonContent(raw: unknown) {
+  return lessonContentSchema.safeParse(migrateLessonContent(raw));
+}
+
+/**
+ * Valida o conteúdo recebido na escrita. Aqui não há migração: a API só
+ * aceita o formato da versão atual, para que nada malformado seja gravado.
+ */
+export function validateLessonContent(raw: unknown) {
+  return lessonContentSchema.safeParse(raw);
+}
+
+/**
+ * Lista os problemas de validação num formato simples para a resposta da API.
+ */
+export function formatLessonContentErrors(error: z.ZodError) {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Converte links comuns do YouTube e do Vimeo para a URL do player incorporável.
+ */
+export function getVideoEmbedUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, "");
+
+    if (host === "youtube.com" && parsed.searchParams.get("v")) {
+      return `https://www.youtube.com/embed/${parsed.searchParams.get("v")}`;
+    }
+    if (host === "youtu.be") {
+      return `https://www.youtube.com/embed${parsed.pathname}`;
+    }
+    if (host === "vimeo.com" && /^\/\d+/.test(parsed.pathname)) {
+      return `https://player.vimeo.com/video${parsed.pathname}`;
+    }
+  } catch {
+    // URL inválida: devolve como está
+  }
+
+  return url;
+}
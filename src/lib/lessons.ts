@@ -0,0 +1,44 @@
+import prisma from "@/lib/prisma";
+
+/**
+ * Aulas do curso na ordem em que o aluno deve assisti-las:
+ * módulos por `order` e, dentro de cada módulo, aulas por `order`.
+ */
+export async function getCourseLessonSequence(courseId: string) {
+  const modules = await prisma.module.findMany({
+    where: { courseId },
+    orderBy: { order: "asc" },
+    select: {
+      id: true,
+      title: true,
+      order: true,
+      lessons: {
+        orderBy: { order: "asc" },
+        select: { id: true, title: true, order: true },
+      },
+    },
+  });
+
+  return modules.flatMap((module) =>
+    module.lessons.map((lesson) => ({
+      ...lesson,
+      moduleId: module.id,
+      moduleTitle: module.title,
+    }))
+  );
+}
+
+/**
+ * Aula anterior e próxima, atravessando os limites entre módulos.
+ */
+export async function getLessonNavigation(courseId: string, lessonId: string) {
+  const sequence = await getCourseLessonSequence(courseId);
+  const index = sequence.findIndex((lesson) => lesson.id === lessonId);
+
+  return {
+    previous: index > 0 ? sequence[index - 1] : null,
+    next: index >= 0 && index < sequence.length - 1 ? sequence[index + 1] : null,
+    position: index + 1,
+    total: sequence.length,
+  };
+}
@@ -0,0 +1,353 @@
+import prisma from "@/lib/prisma";
+import { MercadoPagoConfig, Payment as MPPayment } from "mercadopago";
+import { orderStatusFromGateway, paymentItemsFromOrder, transitionOrder } from "@/lib/orders";
+import { getCourseIdsForItems, revokeCertificatesWithoutAccess } from "@/lib/certificates";
+import { notifyPixPending, notifyPurchaseApproved, notifyRefundsCompleted } from "@/lib/notifications";
+import { getSetting } from "@/lib/settings";
+
+/**
+ * Falha ao processar uma notificação. Falhas "retryable" voltam para a fila
+ * com backoff; as demais vão direto para a lista de eventos com falha no admin.
+ */
+export class WebhookProcessingError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean
+  ) {
+    super(message);
+    this.name = "WebhookProcessingError";
+  }
+}
+
+type PaymentStatus = 'PENDING' | 'APPROVED' | 'PARTIALLY_REFUNDED' | 'REFUNDED' | 'CANCELLED' | 'CHARGED_BACK' | 'FAILED';
+type ItemType = 'course' | 'journey';
+
+interface PaymentItem {
+  id: string;
+  type: ItemType;
+  quantity?: number;
+  price?: number;
+  title?: string;
+  description?: string;
+}
+
+const client = new MercadoPagoConfig({
+  accessToken: process.env.MP_ACCESS_TOKEN!,
+});
+
+const paymentStatusMap: Record<string, PaymentStatus> = {
+  'pending': 'PENDING',
+  'approved': 'APPROVED',
+  'refunded': 'REFUNDED',
+  'cancelled': 'CANCELLED',
+  'rejected': 'FAILED',
+  'in_process': 'PENDING',
+  'in_mediation': 'PENDING',
+  'charged_back': 'CHARGED_BACK'
+};
+
+async function fetchGatewayPayment(mpPaymentId: string) {
+  try {
+    return await new MPPayment(client).get({ id: mpPaymentId });
+  } catch (err) {
+    console.error("Erro ao buscar pagamento:", err);
+    throw new WebhookProcessingError("payment_fetch_failed", true);
+  }
+}
+
+/**
+ * Localiza o pedido que originou o pagamento. O pay route envia o id do pedido
+ * como external_reference; pagamentos antigos são encontrados pela tabela Payment.
+ */
+async function findOrderForPayment(mpPaymentId: string, externalReference?: string | null) {
+  if (externalReference) {
+    const order = await prisma.order.findUnique({
+      where: { id: externalReference },
+      include: { items: true },
+    });
+    if (order) return order;
+  }
+
+  const payment = await prisma.payment.findUnique({
+    where: { mpPaymentId },
+    select: { order: { include: { items: true } } },
+  });
+
+  return payment?.order ?? null;
+}
+
+type OrderWithItems = NonNullable<Awaited<ReturnType<typeof findOrderForPayment>>>;
+
+function orderItemsToPaymentItems(order: OrderWithItems): PaymentItem[] {
+  return order.items
+    .map(item => ({
+      id: (item.itemType === 'COURSE' ? item.courseId : item.journeyId) ?? '',
+      type: (item.itemType === 'COURSE' ? 'course' : 'journey') as ItemType,
+      quantity: item.quantity,
+      price: item.price,
+      title: item.title,
+    }))
+    .filter(item => item.id);
+}
+
+/**
+ * Garante que existe um Payment ligado ao pedido, mesmo que a resposta do pay route
+ * tenha se perdido. Os itens vêm sempre do pedido, nunca do metadata do gateway.
+ */
+async function syncPaymentRecord(
+  mpPaymentId: string,
+  order: OrderWithItems,
+  status: PaymentStatus,
+  updateStatus: boolean
+) {
+  return prisma.payment.upsert({
+    where: { mpPaymentId },
+    create: {
+      mpPaymentId,
+      userId: order.userId,
+      orderId: order.id,
+      status,
+      amount: order.total,
+      metadata: {
+        orderId: order.id,
+        method: order.method,
+        installments: order.installments,
+      },
+      items: {
+        create: paymentItemsFromOrder(order.items)
+      }
+    },
+    update: {
+      ...(updateStatus ? { status } : {}),
+      orderId: order.id,
+    },
+  });
+}
+
+async function revokeUserAccess(userId: string, items: PaymentItem[]) {
+  for (const item of items) {
+    try {
+      if (item.type === 'course') {
+        await prisma.enrollment.deleteMany({
+          where: { userId, courseId: item.id }
+        });
+        console.log(`Acesso removido do curso ${item.id} para o usuário ${userId}`);
+      } else if (item.type === 'journey') {
+        await prisma.enrollment.deleteMany({
+          where: { userId, journeyId: item.id }
+        });
+        console.log(`Acesso removido da jornada ${item.id} para o usuário ${userId}`);
+      }
+    } catch (error) {
+      console.error(`Erro ao remover acesso para ${item.type} ${item.id}:`, error);
+    }
+  }
+
+  try {
+    const courseIds = await getCourseIdsForItems(
+      items.map((item) => (item.type === 'course' ? { courseId: item.id } : { journeyId: item.id }))
+    );
+    await revokeCertificatesWithoutAccess(userId, courseIds, 'Pagamento reembolsado');
+  } catch (error) {
+    console.error('Erro ao revogar certificados:', error);
+  }
+}
+
+async function grantUserAccess(userId: string, items: PaymentItem[]) {
+  console.log('Criando enrollments para:', items.length, 'itens');
+  await Promise.all(
+    items.map(async (item) => {
+      if (item.type === 'course') {
+        console.log(`Criando enrollment para curso: ${item.id}`);
+        // A compra dá acesso vitalício; uma matrícula revogada ou expirada é reaberta a partir de agora
+        const existing = await prisma.enrollment.findUnique({
+          where: { userId_courseId: { userId, courseId: item.id } },
+          select: { endDate: true }
+        });
+        const now = new Date();
+        const expired = !!existing?.endDate && existing.endDate <= now;
+
+        await prisma.enrollment.upsert({
+          where: {
+            userId_courseId: {
+              userId,
+              courseId: item.id
+            }
+          },
+          create: {
+            userId,
+            courseId: item.id,
+            endDate: null
+          },
+          update: { endDate: null, ...(expired ? { startDate: now } : {}) }
+        });
+        console.log(`Enrollment criado para curso: ${item.id}`);
+      } else if (item.type === 'journey') {
+        // A duração configurada na jornada tem prioridade sobre o padrão da plataforma
+        const journey = await prisma.journey.findUnique({
+          where: { id: item.id },
+          select: { durationMonths: true }
+        });
+        const endDate = new Date();
+        endDate.setMonth(endDate.getMonth() + (journey?.durationMonths ?? (await getSetting('journeyDurationMonths'))));
+
+        // Nunca encurta um acesso vitalício ou que termina depois do novo prazo
+        const existing = await prisma.enrollment.findUnique({
+          where: { userId_journeyId: { userId, journeyId: item.id } },
+          select: { endDate: true }
+        });
+        if (existing && (existing.endDate === null || existing.endDate >= endDate)) {
+          console.log(`Enrollment da jornada ${item.id} já cobre o novo prazo`);
+          return;
+        }
+
+        console.log(`Criando enrollment para jornada: ${item.id}, endDate: ${endDate.toISOString()}`);
+        await prisma.enrollment.upsert({
+          where: {
+            userId_journeyId: {
+              userId,
+              journeyId: item.id
+            }
+          },
+          create: {
+            userId,
+            journeyId: item.id,
+            endDate
+          },
+          update: { endDate }
+        });
+        console.log(`Enrollment criado para jornada: ${item.id}`);
+      }
+    })
+  );
+  console.log('Todos os enrollments foram criados com sucesso');
+}
+
+async function clearUserCart(userId: string) {
+  try {
+    const cart = await prisma.cart.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (cart) {
+      await prisma.cartItem.deleteMany({
+        where: { cartId: cart.id }
+      });
+      console.log(`Carrinho limpo para usuário ${userId} após pagamento aprovado`);
+    }
+  } catch (error) {
+    console.error('Erro ao limpar carrinho após pagamento aprovado:', error);
+    // Não falhar o webhook se houver erro ao limpar o carrinho
+  }
+}
+
+/**
+ * Dispara um e-mail de notificação sem falhar o webhook: o acesso já foi
+ * alterado e um novo processamento não repetiria a transição.
+ */
+async function notifySafely(description: string, notify: () => Promise<void>) {
+  try {
+    await notify();
+  } catch (error) {
+    console.error(`Erro ao enviar notificação de ${description}:`, error);
+  }
+}
+
+/**
+ * Reconcilia o pedido e o pagamento a partir do status atual no Mercado Pago.
+ * Retorna uma descrição curta do resultado, gravada no evento do webhook.
+ */
+export async function processPaymentNotification(mpPaymentId: string): Promise<string> {
+  console.log('Processando webhook para pagamento ID:', mpPaymentId);
+
+  const payment = await fetchGatewayPayment(mpPaymentId);
+  const status = String(payment.status || "").toLowerCase();
+
+  const order = await findOrderForPayment(mpPaymentId, payment.external_reference);
+  if (!order) {
+    console.error('Pagamento sem pedido correspondente:', {
+      mpPaymentId,
+      external_reference: payment.external_reference,
+    });
+    throw new WebhookProcessingError("order_not_found", false);
+  }
+
+  console.log("Detalhes do pagamento:", {
+    paymentId: payment.id,
+    status: payment.status,
+    orderId: order.id,
+    orderStatus: order.status,
+  });
+
+  const userId = order.userId;
+  const items = orderItemsToPaymentItems(order);
+
+  // Reembolso parcial mantém o pagamento "approved" no gateway; não pode reativar os itens reembolsados
+  const isPartialRefund = status === "approved" && payment.status_detail === "partially_refunded";
+  const mappedStatus = isPartialRefund ? "PARTIALLY_REFUNDED" : paymentStatusMap[status] || "PENDING";
+  const nextOrderStatus = isPartialRefund ? "PARTIALLY_REFUNDED" : orderStatusFromGateway[status] ?? "PENDING";
+
+  // O status do Payment só acompanha o gateway quando o pedido aceita a transição
+  const transition = await transitionOrder(order.id, nextOrderStatus);
+  await syncPaymentRecord(mpPaymentId, order, mappedStatus, transition.allowed);
+
+  // Cada reembolso parcial é avisado uma vez, mesmo quando o pedido já estava PARTIALLY_REFUNDED
+  if (isPartialRefund) {
+    await notifySafely("reembolso", () => notifyRefundsCompleted(mpPaymentId));
+  }
+
+  if (!transition.allowed) {
+    return "ignored:invalid_transition";
+  }
+
+  if (isPartialRefund) {
+    return "partially_refunded";
+  }
+
+  // APPROVED
+  if (status === "approved") {
+    // Liberar o acesso é idempotente e roda também na repetição de um evento
+    // que falhou depois da transição; limpar o carrinho, só na aprovação em si
+    await grantUserAccess(userId, items);
+    if (transition.changed) {
+      await clearUserCart(userId);
+    }
+    await notifySafely("compra aprovada", () => notifyPurchaseApproved(order));
+
+    return "approved";
+  }
+
+  // REFUNDED / CANCELLED / REJECTED / CHARGED_BACK
+  if (["refunded", "cancelled", "rejected", "charged_back"].includes(status)) {
+    console.log(`Processando status negativo: ${status}`);
+
+    if (status === 'refunded') {
+      await revokeUserAccess(userId, items);
+
+      // Atualizar status dos reembolsos pendentes
+      await prisma.refund.updateMany({
+        where: {
+          payment: { mpPaymentId },
+          status: 'PENDING'
+        },
+        data: {
+          status: 'COMPLETED',
+        }
+      });
+      console.log(`Status do reembolso atualizado para COMPLETED para o pagamento ${mpPaymentId}`);
+
+      await notifySafely("reembolso", () => notifyRefundsCompleted(mpPaymentId));
+    }
+
+    return status;
+  }
+
+  // PENDING / IN_PROCESS / MEDIATION: pedido continua PENDING
+  if (status === "pending" && order.method === "pix") {
+    const ticketUrl = payment.point_of_interaction?.transaction_data?.ticket_url ?? null;
+    await notifySafely("PIX pendente", () => notifyPixPending(order, ticketUrl));
+  }
+
+  return status || "pending";
+}
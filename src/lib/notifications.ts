@@ -0,0 +1,128 @@
+import prisma from "@/lib/prisma";
+import { appUrl } from "@/lib/email";
+import { sendTransactionalEmail } from "@/lib/email-outbox";
+import { getForumContextPath, getForumText } from "@/lib/forum";
+
+type NotifiedOrder = {
+  id: string;
+  userId: string;
+  total: number;
+  items: { title: string }[];
+};
+
+async function getRecipient(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true },
+  });
+  return user?.email ? { ...user, email: user.email } : null;
+}
+
+export async function notifyPurchaseApproved(order: NotifiedOrder) {
+  const user = await getRecipient(order.userId);
+  if (!user) return;
+
+  await sendTransactionalEmail(
+    "purchase-approved",
+    {
+      name: user.name,
+      items: order.items.map((item) => ({ title: item.title })),
+      total: order.total,
+      dashboardUrl: appUrl("/dashboard"),
+    },
+    { to: user.email, userId: user.id, dedupeKey: `purchase-approved:${order.id}` }
+  );
+}
+
+export async function notifyPixPending(order: NotifiedOrder, ticketUrl: string | null) {
+  const user = await getRecipient(order.userId);
+  if (!user) return;
+
+  await sendTransactionalEmail(
+    "pix-pending",
+    {
+      name: user.name,
+      items: order.items.map((item) => ({ title: item.title })),
+      total: order.total,
+      ticketUrl,
+    },
+    { to: user.email, userId: user.id, dedupeKey: `pix-pending:${order.id}` }
+  );
+}
+
+/**
+ * Avisa cada reembolso concluído do pagamento uma única vez (parciais inclusive).
+ */
+export async function notifyRefundsCompleted(mpPaymentId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { mpPaymentId },
+    select: {
+      userId: true,
+      refunds: {
+        where: { status: { in: ["COMPLETED", "APPROVED"] } },
+        select: {
+          id: true,
+          amount: true,
+          items: { select: { paymentItem: { select: { title: true } } } },
+        },
+      },
+    },
+  });
+  if (!payment || payment.refunds.length === 0) return;
+
+  const user = await getRecipient(payment.userId);
+  if (!user) return;
+
+  for (const refund of payment.refunds) {
+    await sendTransactionalEmail(
+      "refund-completed",
+      {
+        name: user.name,
+        items: refund.items.map((item) => ({ title: item.paymentItem.title })),
+        amount: refund.amount,
+      },
+      { to: user.email, userId: user.id, dedupeKey: `refund-completed:${refund.id}` }
+    );
+  }
+}
+
+/**
+ * Avisa o autor do post e, numa resposta aninhada, o autor do comentário
+ * respondido. Quem respondeu não recebe aviso da própria resposta.
+ */
+export async function notifyForumReply(commentId: string) {
+  const comment = await prisma.forumComment.findUnique({
+    where: { id: commentId },
+    select: {
+      authorId: true,
+      content: true,
+      author: { select: { name: true } },
+      parent: { select: { authorId: true } },
+      post: { select: { id: true, title: true, cursoId: true, authorId: true } },
+    },
+  });
+  if (!comment) return;
+
+  const recipientIds = new Set([comment.post.authorId, comment.parent?.authorId].filter(Boolean) as string[]);
+  recipientIds.delete(comment.authorId);
+
+  const text = getForumText(comment.content);
+  const excerpt = text.length > 300 ? `${text.slice(0, 300)}…` : text;
+
+  for (const recipientId of recipientIds) {
+    const user = await getRecipient(recipientId);
+    if (!user) continue;
+
+    await sendTransactionalEmail(
+      "forum-reply",
+      {
+        name: user.name,
+        replierName: comment.author.name || "Alguém",
+        postTitle: comment.post.title,
+        excerpt,
+        url: appUrl(`${getForumContextPath(comment.post.cursoId)}/${comment.post.id}`),
+      },
+      { to: user.email, userId: user.id, dedupeKey: `forum-reply:${commentId}:${recipientId}` }
+    );
+  }
+}
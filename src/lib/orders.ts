@@ -0,0 +1,124 @@
+import prisma from "@/lib/prisma";
+import { OrderStatus } from "@/generated/prisma/enums";
+import type { ServerOrder } from "@/lib/checkout";
+
+/**
+ * Transições aceitas para um pedido. Notificações do gateway podem chegar
+ * fora de ordem ou repetidas; qualquer transição fora desta tabela é ignorada.
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ["APPROVED", "REJECTED", "CANCELLED", "FAILED"],
+  APPROVED: ["PARTIALLY_REFUNDED", "REFUNDED", "CHARGED_BACK"],
+  REJECTED: [],
+  CANCELLED: [],
+  PARTIALLY_REFUNDED: ["REFUNDED", "CHARGED_BACK"],
+  REFUNDED: [],
+  CHARGED_BACK: [],
+  FAILED: [],
+};
+
+/**
+ * Mapeia o status do pagamento no Mercado Pago para o status do pedido.
+ * Status intermediários (pending, in_process, in_mediation) mantêm o pedido PENDING.
+ */
+export const orderStatusFromGateway: Record<string, OrderStatus> = {
+  pending: "PENDING",
+  in_process: "PENDING",
+  in_mediation: "PENDING",
+  approved: "APPROVED",
+  rejected: "REJECTED",
+  cancelled: "CANCELLED",
+  refunded: "REFUNDED",
+  charged_back: "CHARGED_BACK",
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus) {
+  return from === to || ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Grava o pedido como PENDING antes de qualquer chamada ao gateway.
+ */
+export async function createPendingOrder(
+  userId: string,
+  order: ServerOrder,
+  method: string,
+  installments: number
+) {
+  return prisma.order.create({
+    data: {
+      userId,
+      method,
+      installments,
+      subtotal: order.subtotal,
+      total: order.total,
+      items: {
+        create: order.items.map((item) => {
+          const isCourse = item.type === "curso";
+          return {
+            itemType: isCourse ? "COURSE" : "JOURNEY",
+            ...(isCourse ? { courseId: item.id } : { journeyId: item.id }),
+            quantity: item.quantity,
+            price: item.price,
+            title: item.title,
+          };
+        }),
+      },
+    },
+    include: { items: true },
+  });
+}
+
+/**
+ * Move o pedido para o novo status se a transição for válida.
+ * `allowed` indica que o pedido aceita o status (inclusive quando já estava
+ * nele); `changed`, que esta chamada de fato mudou o status.
+ */
+export async function transitionOrder(orderId: string, to: OrderStatus) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true },
+  });
+
+  if (!order) return { allowed: false, changed: false };
+
+  if (!canTransitionOrder(order.status, to)) {
+    console.warn(`Transição de pedido ignorada: ${orderId} ${order.status} -> ${to}`);
+    return { allowed: false, changed: false };
+  }
+
+  if (order.status === to) {
+    return { allowed: true, changed: false };
+  }
+
+  // updateMany com o status atual no filtro evita sobrescrever uma transição concorrente
+  const { count } = await prisma.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data: { status: to },
+  });
+  return { allowed: count > 0, changed: count > 0 };
+}
+
+/**
+ * Converte os itens do pedido no formato de criação de PaymentItem.
+ */
+export function paymentItemsFromOrder(
+  items: Array<{
+    itemType: "COURSE" | "JOURNEY";
+    courseId: string | null;
+    journeyId: string | null;
+    quantity: number;
+    price: number;
+    title: string;
+  }>
+) {
+  return items.map((item) => ({
+    itemType: item.itemType,
+    courseId: item.courseId,
+    journeyId: item.journeyId,
+    quantity: item.quantity,
+    price: item.price,
+    title: item.title,
+    description: item.itemType === "COURSE" ? "Curso" : "Jornada",
+  }));
+}
@@ -1,16 +1,49 @@
 import prisma from "@/lib/prisma";
 import { UserRole } from "@/generated/prisma/enums";
+import { Permission, ROLE_PERMISSIONS } from "@/lib/roles";
 
-export function isAdmin(user: { role: UserRole } | undefined) {
-  return !!user && user.role === "ADMIN";
+// Recurso sobre o qual a permissão é pedida
+export type PermissionResource = { courseId?: string | null };
+
+// Recurso das rotas /api/courses/[courseId]/...
+export function courseResource({ courseId }: { courseId: string }): PermissionResource {
+  return { courseId };
 }
 
-export function isModerator(user: { role: UserRole } | undefined) {
-  return !!user && user.role === "MODERATOR";
+type PermissionUser = { id: string; role: UserRole } | undefined;
+
+/**
+ * O usuário tem a permissão sobre o recurso? Permissões que o papel só tem
+ * nos cursos atribuídos exigem o curso no recurso.
+ */
+export async function can(user: PermissionUser, permission: Permission, resource: PermissionResource = {}) {
+  if (!user) return false;
+
+  const scope = ROLE_PERMISSIONS[user.role]?.[permission];
+  if (scope === "all") return true;
+  if (scope !== "assigned" || !resource.courseId) return false;
+
+  return isAssignedInstructor(user.id, resource.courseId);
 }
 
-export function isStaff(user: { role: UserRole } | undefined) {
-  return !!user && (user.role === "ADMIN" || user.role === "MODERATOR");
+async function isAssignedInstructor(userId: string, courseId: string) {
+  const course = await prisma.course.findFirst({
+    where: { id: courseId, users: { some: { id: userId } } },
+    select: { id: true },
+  });
+
+  return !!course;
+}
+
+/**
+ * Filtro dos cursos em que o usuário tem a permissão: todos, os atribuídos
+ * a ele ou nenhum (null).
+ */
+export function getPermittedCoursesFilter(user: PermissionUser, permission: Permission) {
+  const scope = user ? ROLE_PERMISSIONS[user.role]?.[permission] : undefined;
+  if (scope === "all") return {};
+  if (scope === "assigned") return { users: { some: { id: user!.id } } };
+  return null;
 }
 
 //
@@ -19,7 +52,8 @@ export function isStaff(user: { role: UserRole } | undefined) {
 
 /**
  * Verifica se o usuário tem acesso válido (não-expirado) a um course.
- * Usa a tabela Enrollment (que contém startDate e endDate).
+ * Usa a tabela Enrollment (que contém startDate e endDate); uma matrícula
+ * em jornada que inclui o curso também concede acesso.
  */
 export async function hasCourseAccess(userId: string, courseId: string) {
   const now = new Date();
@@ -27,10 +61,19 @@ export async function hasCourseAccess(userId: string, courseId: string) {
   const enrollment = await prisma.enrollment.findFirst({
     where: {
       userId,
-      courseId,
-      OR: [
-        { endDate: null }, // Acesso vitalício
-        { endDate: { gte: now } } // Acesso ativo (não expirado)
+      AND: [
+        {
+          OR: [
+            { courseId },
+            { journey: { courses: { some: { courseId } } } }
+          ]
+        },
+        {
+          OR: [
+            { endDate: null }, // Acesso vitalício
+            { endDate: { gte: now } } // Acesso ativo (não expirado)
+          ]
+        }
       ]
     },
   });
@@ -67,16 +110,19 @@ export async function hasLessonAccess(userId: string, lessonId: string) {
 
 /**
  * Verifica se um post do fórum (ForumPost) é público ou vinculado a um curso/jornada
- * e se o usuário tem acesso a esse contexto.
+ * e se o usuário tem acesso a esse contexto. Posts ocultos pela moderação só
+ * continuam visíveis para o autor (a equipe passa por canModeratePost).
  */
 export async function canViewPost(userId: string | null, postId: string) {
   const post = await prisma.forumPost.findUnique({
     where: { id: postId },
-    select: { cursoId: true},
+    select: { cursoId: true, authorId: true, isHidden: true },
   });
 
   if (!post) return false;
 
+  if (post.isHidden && post.authorId !== userId) return false;
+
   // público (nenhum contexto)
   if (!post.cursoId) return true;
 
@@ -91,23 +137,42 @@ export async function canViewPost(userId: string | null, postId: string) {
 }
 
 /**
- * Mesma regra para responder: precisa conseguir ver o post primeiro.
+ * Suspensão de fórum em vigor para o usuário, se houver.
+ */
+export async function getActiveForumBan(userId: string) {
+  return prisma.forumBan.findFirst({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { expiresAt: "desc" },
+  });
+}
+
+/**
+ * Para responder é preciso ver o post, ele não pode estar trancado e o
+ * usuário não pode estar suspenso.
  */
 export async function canReplyPost(userId: string | null, postId: string) {
   if (!userId) return false;
+
+  const post = await prisma.forumPost.findUnique({
+    where: { id: postId },
+    select: { isLocked: true },
+  });
+  if (!post || post.isLocked) return false;
+
+  if (await getActiveForumBan(userId)) return false;
+
   return canViewPost(userId, postId);
 }
 
-export async function canModeratePost(user: { id: string; role: UserRole } | undefined, postId: string) {
-  if (!user) return false;
-  if (isAdmin(user) || isModerator(user)) return true;
-
-  return false;
+export async function canModeratePost(user: { id: string; role: UserRole } | undefined) {
+  return can(user, "forum:moderate");
 }
 
 export async function canCreatePost(userId: string | null, cursoId?: string | null) {
   if (!userId) return false;
 
+  if (await getActiveForumBan(userId)) return false;
+
   if (!cursoId) return true; // criar post público
 
   if (cursoId) return hasCourseAccess(userId, cursoId);
@@ -115,3 +180,49 @@ export async function canCreatePost(userId: string | null, cursoId?: string | nu
   return false;
 }
 
+/**
+ * Listagem de um contexto do fórum: o público é aberto, o de curso exige acesso ao curso.
+ */
+export async function canViewForum(userId: string | null, cursoId: string | null) {
+  if (!cursoId) return true;
+  if (!userId) return false;
+  return hasCourseAccess(userId, cursoId);
+}
+
+/**
+ * O que o usuário pode fazer num post. Moderação implica leitura e resposta;
+ * o autor edita, apaga e escolhe a resposta aceita enquanto tiver acesso ao post,
+ * ele não estiver trancado e o autor não estiver suspenso.
+ */
+export async function getForumPostAccess(user: { id: string; role: UserRole } | undefined, postId: string) {
+  const post = await prisma.forumPost.findUnique({
+    where: { id: postId },
+    select: { id: true, authorId: true, cursoId: true, acceptedCommentId: true, isLocked: true },
+  });
+  if (!post) return null;
+
+  const userId = user?.id ?? null;
+  const canModerate = await canModeratePost(user);
+  const canView = canModerate || await canViewPost(userId, postId);
+  const canReply = canModerate || await canReplyPost(userId, postId);
+  const isEditableByAuthor = canView && !post.isLocked && !!userId && post.authorId === userId;
+  const canEdit = canModerate || (isEditableByAuthor && !(await getActiveForumBan(userId)));
+  // Marcar a resposta aceita segue a mesma regra: autor do post ou equipe
+  const canAccept = canEdit;
+
+  return { post, userId, canView, canReply, canModerate, canEdit, canAccept };
+}
+
+//
+// --------------------- COURSE ANNOUNCEMENTS ---------------------
+//
+
+/**
+ * Avisos só são lidos por quem tem matrícula ativa no curso (direta ou pela
+ * jornada) e pelos instrutores.
+ */
+export async function canReadAnnouncements(user: { id: string; role: UserRole } | undefined, courseId: string) {
+  if (!user) return false;
+  if (await can(user, "course:announce", { courseId })) return true;
+  return hasCourseAccess(user.id, courseId);
+}
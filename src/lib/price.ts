@@ -41,3 +41,41 @@ export function parsePriceToCents(reais: string): number {
 export function isValidPrice(cents: number | null): boolean {
   return cents !== null && !isNaN(cents) && cents >= 0;
 }
+
+/**
+ * Returns the price actually charged for a course, honoring the discount flag
+ * @param course - The course pricing fields as stored in the database
+ * @returns The effective price in cents, or null if the course has no price
+ */
+export function getEffectiveCoursePrice(course: {
+  price: number | null;
+  discountPrice: number;
+  discountEnabled: boolean;
+}): number | null {
+  if (course.discountEnabled && course.discountPrice > 0) {
+    return course.discountPrice;
+  }
+  return course.price;
+}
+
+/**
+ * Multiplier applied to the order total when paying in installments
+ * @param qty - Number of installments
+ * @param ratePercent - Surcharge per installment above 1x (setting installmentRatePercent)
+ * @returns The factor (e.g., 1.02 for 2x at 2%)
+ */
+export function getInstallmentFactor(qty: number, ratePercent: number): number {
+  if (qty <= 1) return 1;
+  return 1 + ((qty - 1) * ratePercent) / 100;
+}
+
+/**
+ * Total amount charged for a given number of installments
+ * @param cents - The order total in cents
+ * @param qty - Number of installments
+ * @param ratePercent - Surcharge per installment above 1x (setting installmentRatePercent)
+ * @returns The total in cents, rounded to the nearest cent
+ */
+export function getInstallmentTotal(cents: number, qty: number, ratePercent: number): number {
+  return Math.round(cents * getInstallmentFactor(qty, ratePercent));
+}
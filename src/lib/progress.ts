@@ -0,0 +1,172 @@
+import prisma from "@/lib/prisma";
+
+// A partir desta fração do vídeo assistida a aula conta como concluída
+export const AUTO_COMPLETE_RATIO = 0.9;
+
+/**
+ * Registra que o aluno abriu a aula. Não altera a conclusão nem a posição.
+ */
+export async function markLessonStarted(userId: string, lessonId: string) {
+  const now = new Date();
+
+  return prisma.lessonProgress.upsert({
+    where: { userId_lessonId: { userId, lessonId } },
+    create: { userId, lessonId, startedAt: now, lastAccessedAt: now },
+    update: { lastAccessedAt: now },
+  });
+}
+
+/**
+ * Conclui a aula sem mexer na data de uma conclusão anterior.
+ */
+async function completeOnce<T extends { id: string; completed: boolean; completedAt: Date | null }>(
+  progress: T,
+  now: Date
+): Promise<T> {
+  if (progress.completed) {
+    return progress;
+  }
+
+  // O filtro por completed mantém a data da primeira conclusão
+  await prisma.lessonProgress.updateMany({
+    where: { id: progress.id, completed: false },
+    data: { completed: true, completedAt: now },
+  });
+
+  return { ...progress, completed: true, completedAt: now };
+}
+
+/**
+ * Marca (ou desmarca) a aula como concluída. Marcar de novo uma aula já
+ * concluída mantém a data original.
+ */
+export async function setLessonCompleted(userId: string, lessonId: string, completed: boolean) {
+  const now = new Date();
+
+  if (!completed) {
+    return prisma.lessonProgress.upsert({
+      where: { userId_lessonId: { userId, lessonId } },
+      create: { userId, lessonId, lastAccessedAt: now },
+      update: { completed: false, completedAt: null, lastAccessedAt: now },
+    });
+  }
+
+  const progress = await prisma.lessonProgress.upsert({
+    where: { userId_lessonId: { userId, lessonId } },
+    create: { userId, lessonId, completed: true, completedAt: now, lastAccessedAt: now },
+    update: { lastAccessedAt: now },
+  });
+
+  return completeOnce(progress, now);
+}
+
+/**
+ * Grava a posição do vídeo. Quando a aula tem duração cadastrada e o aluno
+ * passou de AUTO_COMPLETE_RATIO dela, a aula é concluída automaticamente.
+ */
+export async function recordWatchPosition(userId: string, lessonId: string, seconds: number) {
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: lessonId },
+    select: { duration: true },
+  });
+
+  const duration = lesson?.duration ?? 0;
+  const position = Math.max(0, Math.floor(duration > 0 ? Math.min(seconds, duration) : seconds));
+  const reachedEnd = duration > 0 && position >= duration * AUTO_COMPLETE_RATIO;
+  const now = new Date();
+
+  const progress = await prisma.lessonProgress.upsert({
+    where: { userId_lessonId: { userId, lessonId } },
+    create: {
+      userId,
+      lessonId,
+      position,
+      lastAccessedAt: now,
+      ...(reachedEnd ? { completed: true, completedAt: now } : {}),
+    },
+    // Nunca desfaz uma conclusão ao voltar o vídeo
+    update: { position, lastAccessedAt: now },
+  });
+
+  return reachedEnd ? completeOnce(progress, now) : progress;
+}
+
+type ProgressRecord = {
+  lessonId: string;
+  completed: boolean;
+  position: number;
+  lastAccessedAt: Date;
+};
+
+type OutlineModule = {
+  lessons: { id: string; title: string }[];
+};
+
+/**
+ * Resumo do progresso num curso: aulas concluídas, última aula acessada e a
+ * aula para "continuar de onde parou" — a própria última aula, se não foi
+ * concluída, ou a próxima aula pendente depois dela.
+ */
+export function summarizeCourseProgress(modules: OutlineModule[], records: Map<string, ProgressRecord>) {
+  const lessons = modules.flatMap((module) => module.lessons);
+  const completedLessons = lessons.filter((lesson) => records.get(lesson.id)?.completed).length;
+
+  let lastIndex = -1;
+  let lastAccessed: Date | null = null;
+  lessons.forEach((lesson, index) => {
+    const record = records.get(lesson.id);
+    if (record && (!lastAccessed || record.lastAccessedAt > lastAccessed)) {
+      lastAccessed = record.lastAccessedAt;
+      lastIndex = index;
+    }
+  });
+
+  const isPending = (index: number) => !records.get(lessons[index].id)?.completed;
+  let continueIndex = lastIndex >= 0 && isPending(lastIndex) ? lastIndex : -1;
+  if (continueIndex < 0) {
+    continueIndex = lessons.findIndex((_, index) => index > lastIndex && isPending(index));
+  }
+  if (continueIndex < 0) {
+    // Pendências anteriores à última aula acessada
+    continueIndex = lessons.findIndex((_, index) => isPending(index));
+  }
+
+  const pick = (index: number) =>
+    index >= 0
+      ? {
+          id: lessons[index].id,
+          title: lessons[index].title,
+          position: records.get(lessons[index].id)?.position ?? 0,
+        }
+      : null;
+
+  return {
+    completedLessons,
+    totalLessons: lessons.length,
+    percentage: lessons.length > 0 ? Math.round((completedLessons / lessons.length) * 100) : 0,
+    lastAccessed: lastAccessed as Date | null,
+    lastAccessedLesson: pick(lastIndex),
+    continueLesson: pick(continueIndex),
+  };
+}
+
+/**
+ * Progresso do usuário nas aulas informadas, indexado pelo id da aula.
+ */
+export async function getProgressByLesson(userId: string, lessonIds: string[]) {
+  if (lessonIds.length === 0) return new Map<string, ProgressRecord>();
+
+  const records = await prisma.lessonProgress.findMany({
+    where: { userId, lessonId: { in: lessonIds } },
+    select: { lessonId: true, completed: true, position: true, lastAccessedAt: true },
+  });
+
+  return new Map(records.map((record) => [record.lessonId, record]));
+}
+
+/**
+ * Duração de aula aceita na escrita: segundos inteiros, sem negativos.
+ */
+export function isValidDuration(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
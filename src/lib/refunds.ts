@@ -0,0 +1,275 @@
+import prisma from "@/lib/prisma";
+import { MercadoPagoConfig, PaymentRefund } from "mercadopago";
+import { transitionOrder } from "@/lib/orders";
+import { getCourseIdsForItems, revokeCertificatesWithoutAccess } from "@/lib/certificates";
+import { getSetting } from "@/lib/settings";
+
+/**
+ * Códigos de erro devolvidos ao cliente quando o reembolso não pode ser feito.
+ */
+export type RefundErrorCode =
+  | "PAYMENT_NOT_FOUND"
+  | "FORBIDDEN"
+  | "NOT_REFUNDABLE"
+  | "DEADLINE_EXPIRED"
+  | "ITEM_NOT_FOUND"
+  | "ALREADY_REFUNDED"
+  | "GATEWAY_ERROR";
+
+export class RefundError extends Error {
+  constructor(
+    public code: RefundErrorCode,
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+const client = new MercadoPagoConfig({ accessToken: process.env.MP_ACCESS_TOKEN! });
+
+// Só pagamentos aprovados (ou já reembolsados em parte) podem receber novos reembolsos
+const REFUNDABLE_PAYMENT_STATUSES = ["APPROVED", "PARTIALLY_REFUNDED"];
+
+interface RefundableItem {
+  id: string;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Divide o valor efetivamente pago entre os itens selecionados, na proporção
+ * do preço de cada um (o total pago inclui o acréscimo do parcelamento).
+ * Quando a seleção esgota os itens restantes, o último leva a sobra do
+ * arredondamento para que a soma dos reembolsos feche com o valor pago.
+ */
+export function allocateRefundAmounts(
+  paymentAmount: number,
+  allItems: RefundableItem[],
+  selected: RefundableItem[],
+  alreadyRefunded: number,
+  closesPayment: boolean
+) {
+  const subtotal = allItems.reduce((sum, item) => sum + item.price * (item.quantity || 1), 0);
+  const amounts = new Map<string, number>();
+
+  let allocated = 0;
+  selected.forEach((item, index) => {
+    const isLast = index === selected.length - 1;
+    const amount = closesPayment && isLast
+      ? paymentAmount - alreadyRefunded - allocated
+      : Math.round((paymentAmount * item.price * (item.quantity || 1)) / (subtotal || 1));
+
+    amounts.set(item.id, amount);
+    allocated += amount;
+  });
+
+  return amounts;
+}
+
+/**
+ * Data limite para o comprador pedir reembolso de um item.
+ */
+export function getRefundDeadline(purchasedAt: Date, windowDays: number) {
+  const limitDate = new Date(purchasedAt);
+  limitDate.setDate(limitDate.getDate() + windowDays);
+  return limitDate;
+}
+
+/**
+ * Reembolsa os itens selecionados de um pagamento (todos os restantes se
+ * nenhum for informado): reserva o reembolso por item como PENDING, envia o
+ * valor proporcional ao Mercado Pago e revoga somente as matrículas
+ * correspondentes. Se o gateway recusar, o reembolso fica FAILED.
+ *
+ * Pedidos do comprador (userId) respeitam o prazo de cada curso; reembolsos
+ * emitidos pela equipe (issuedBy) ignoram o prazo e exigem um motivo.
+ */
+export async function refundPaymentItems({
+  paymentId,
+  userId,
+  issuedBy,
+  itemIds,
+}: {
+  paymentId: string;
+  userId?: string;
+  issuedBy?: { id: string; reason: string };
+  itemIds?: string[];
+}) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      items: {
+        include: {
+          refundItem: true,
+          course: { select: { refundWindowDays: true } },
+        },
+      },
+      refunds: true,
+    },
+  });
+
+  if (!payment) {
+    throw new RefundError("PAYMENT_NOT_FOUND", "Pagamento não encontrado", 404);
+  }
+
+  if (!issuedBy && payment.userId !== userId) {
+    console.error(`Acesso não autorizado: usuário ${userId} tentou reembolsar pagamento de outro usuário`);
+    throw new RefundError("FORBIDDEN", "Não autorizado", 403);
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+    throw new RefundError("NOT_REFUNDABLE", "Este pagamento não pode ser reembolsado");
+  }
+
+  const remaining = payment.items.filter((item) => !item.refundItem);
+
+  let selected = remaining;
+  if (itemIds?.length) {
+    const unknown = itemIds.filter((id) => !payment.items.some((item) => item.id === id));
+    if (unknown.length) {
+      throw new RefundError("ITEM_NOT_FOUND", "Item não encontrado neste pagamento", 404);
+    }
+
+    if (itemIds.some((id) => !remaining.some((item) => item.id === id))) {
+      throw new RefundError("ALREADY_REFUNDED", "Um dos itens já foi reembolsado");
+    }
+
+    selected = remaining.filter((item) => itemIds.includes(item.id));
+  }
+
+  if (selected.length === 0) {
+    throw new RefundError("ALREADY_REFUNDED", "Este pagamento já foi reembolsado");
+  }
+
+  if (!issuedBy) {
+    const now = new Date();
+    const defaultWindowDays = await getSetting("refundWindowDays");
+    const windowDays = (item: (typeof selected)[number]) => item.course?.refundWindowDays ?? defaultWindowDays;
+    const expired = selected.find((item) => now > getRefundDeadline(payment.createdAt, windowDays(item)));
+
+    if (expired) {
+      console.error(`Tentativa de reembolso após o prazo para o pagamento ${paymentId}`);
+      const days = windowDays(expired);
+      throw new RefundError(
+        "DEADLINE_EXPIRED",
+        `Reembolso permitido somente até ${days} dias após a compra`
+      );
+    }
+  } else {
+    console.log(`Reembolso do pagamento ${paymentId} emitido por ${issuedBy.id}: ${issuedBy.reason}`);
+  }
+
+  const alreadyRefunded = payment.items.reduce((sum, item) => sum + (item.refundItem?.amount ?? 0), 0);
+  const closesPayment = selected.length === remaining.length;
+  const amounts = allocateRefundAmounts(payment.amount, payment.items, selected, alreadyRefunded, closesPayment);
+  const refundAmount = selected.reduce((sum, item) => sum + amounts.get(item.id)!, 0);
+
+  // Reserva os itens antes de chamar o gateway: um pedido simultâneo para os
+  // mesmos itens bate no unique de RefundItem e não chega ao Mercado Pago
+  let reserved;
+  try {
+    reserved = await prisma.refund.create({
+      data: {
+        paymentId,
+        status: "PENDING",
+        amount: refundAmount,
+        reason: issuedBy?.reason ?? null,
+        issuedById: issuedBy?.id ?? null,
+        items: {
+          create: selected.map((item) => ({
+            paymentItemId: item.id,
+            amount: amounts.get(item.id)!,
+          })),
+        },
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      throw new RefundError("ALREADY_REFUNDED", "Já existe um reembolso em andamento para este pagamento");
+    }
+    throw error;
+  }
+
+  console.log(`Criando reembolso de ${refundAmount} centavos no Mercado Pago para o pagamento ${payment.mpPaymentId}`);
+
+  let mpRefund;
+  try {
+    // Sem valor o Mercado Pago estorna o pagamento inteiro
+    const isFullRefund = closesPayment && alreadyRefunded === 0;
+    mpRefund = await new PaymentRefund(client).create({
+      payment_id: payment.mpPaymentId,
+      ...(isFullRefund ? {} : { body: { amount: refundAmount / 100 } }),
+    });
+    console.log(`Reembolso criado no Mercado Pago: ${mpRefund.id}`);
+  } catch (mpError: any) {
+    console.error("Erro ao criar reembolso no Mercado Pago:", mpError);
+
+    // Mantém o registro da tentativa e libera os itens para um novo pedido
+    await prisma.$transaction([
+      prisma.refundItem.deleteMany({ where: { refundId: reserved.id } }),
+      prisma.refund.update({ where: { id: reserved.id }, data: { status: "FAILED" } }),
+    ]);
+
+    throw new RefundError(
+      "GATEWAY_ERROR",
+      `Falha ao processar reembolso: ${mpError.message || "Erro desconhecido"}`,
+      500
+    );
+  }
+
+  const nextStatus = closesPayment ? "REFUNDED" : "PARTIALLY_REFUNDED";
+
+  const [refund] = await prisma.$transaction([
+    prisma.refund.update({
+      where: { id: reserved.id },
+      data: {
+        mpRefundId: mpRefund.id?.toString() ?? null,
+        status: mpRefund.status?.toUpperCase() ?? "PENDING",
+      },
+      include: { items: true },
+    }),
+    prisma.payment.update({
+      where: { id: paymentId },
+      data: { status: nextStatus },
+    }),
+  ]);
+
+  console.log(`Reembolso registrado com sucesso: ${refund.id} (${nextStatus})`);
+
+  if (payment.orderId) {
+    await transitionOrder(payment.orderId, nextStatus);
+  }
+
+  // Revogar acesso somente aos itens reembolsados
+  try {
+    await Promise.all(
+      selected.map(async (item) => {
+        if (item.itemType === "COURSE" && item.courseId) {
+          await prisma.enrollment.deleteMany({
+            where: { userId: payment.userId, courseId: item.courseId },
+          });
+          console.log(`Acesso ao curso ${item.courseId} removido para o usuário ${payment.userId}`);
+        } else if (item.itemType === "JOURNEY" && item.journeyId) {
+          await prisma.enrollment.deleteMany({
+            where: { userId: payment.userId, journeyId: item.journeyId },
+          });
+          console.log(`Acesso à jornada ${item.journeyId} removido para o usuário ${payment.userId}`);
+        }
+      })
+    );
+  } catch (accessError) {
+    // O webhook revoga de novo quando o pagamento for marcado como reembolsado
+    console.error("Erro ao remover acesso após reembolso:", accessError);
+  }
+
+  try {
+    const courseIds = await getCourseIdsForItems(selected);
+    await revokeCertificatesWithoutAccess(payment.userId, courseIds, `Reembolso ${refund.id}`);
+  } catch (certificateError) {
+    console.error("Erro ao revogar certificados após reembolso:", certificateError);
+  }
+
+  return { refund, payment: { ...payment, status: nextStatus }, items: selected };
+}
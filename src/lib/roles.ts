@@ -0,0 +1,91 @@
+import type { UserRole } from "@/generated/prisma/enums";
+
+/**
+ * Permissões nomeadas. As rotas e páginas perguntam `can(user, permissão, recurso)`
+ * em vez de comparar o papel do usuário.
+ */
+export const PERMISSIONS = [
+  "admin:access", // entrar no painel /admin
+  "report:view",
+  "settings:manage",
+  "course:create",
+  "course:edit", // dados do curso, módulos e aulas
+  "course:delete",
+  "course:announce",
+  "course:assign", // atribuir instrutores aos cursos
+  "journey:manage",
+  "payment:view",
+  "payment:refund",
+  "webhook:manage",
+  "forum:moderate",
+  "role:manage",
+  "user:manage", // buscar usuários, liberar acesso e desativar contas
+  "user:impersonate", // só ADMIN; ainda sem rota que a use
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Alcance da permissão no papel:
+ * - all: qualquer recurso
+ * - assigned: só nos cursos atribuídos ao usuário (Course.users)
+ */
+export type PermissionScope = "all" | "assigned";
+
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+  USER: {},
+  INSTRUCTOR: {
+    "admin:access": "all",
+    "course:edit": "assigned",
+    "course:announce": "assigned",
+  },
+  MODERATOR: {
+    "admin:access": "all",
+    "forum:moderate": "all",
+  },
+  ADMIN: Object.fromEntries(PERMISSIONS.map((permission) => [permission, "all"])) as Record<Permission, PermissionScope>,
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  USER: "Aluno",
+  INSTRUCTOR: "Instrutor",
+  MODERATOR: "Moderador",
+  ADMIN: "Administrador",
+};
+
+/**
+ * Valor enviado pelo cliente é um papel existente. Object.hasOwn evita aceitar
+ * chaves herdadas como "toString".
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && Object.hasOwn(ROLE_PERMISSIONS, value);
+}
+
+/**
+ * O papel tem a permissão em algum recurso. Serve para decidir o que mostrar
+ * (menus, botões); a autorização de fato é feita por `can`.
+ */
+export function hasPermission(role: UserRole | undefined, permission: Permission) {
+  return !!role && !!ROLE_PERMISSIONS[role]?.[permission];
+}
+
+/**
+ * Permissão exigida por cada seção do painel /admin; a mais específica vence.
+ */
+export const ADMIN_ROUTE_PERMISSIONS: [string, Permission][] = [
+  ["/admin/courses/new", "course:create"],
+  ["/admin/courses", "course:edit"],
+  ["/admin/journeys", "journey:manage"],
+  ["/admin/payments", "payment:view"],
+  ["/admin/users", "user:manage"],
+  ["/admin/webhooks", "webhook:manage"],
+  ["/admin/moderation", "forum:moderate"],
+  ["/admin/analytics", "report:view"],
+  ["/admin/settings", "settings:manage"],
+  ["/admin", "admin:access"],
+];
+
+export function getAdminRoutePermission(pathname: string): Permission {
+  const match = ADMIN_ROUTE_PERMISSIONS.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  return match?.[1] ?? "admin:access";
+}
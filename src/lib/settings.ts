@@ -0,0 +1,276 @@
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+
+export class SettingsError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = "SettingsError";
+  }
+}
+
+type SettingInput = "integer" | "decimal" | "text" | "emails";
+
+interface SettingDefinition<T> {
+  label: string;
+  description: string;
+  input: SettingInput;
+  unit?: string;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  defaultValue: T;
+  // Valida e normaliza o valor enviado pelo painel; lança SettingsError
+  parse: (value: unknown) => T;
+}
+
+type NumberOptions = Pick<SettingDefinition<number>, "label" | "description" | "unit" | "defaultValue"> & {
+  min: number;
+  max: number;
+};
+
+function numberSetting(input: "integer" | "decimal", options: NumberOptions): SettingDefinition<number> & NumberOptions {
+  return {
+    ...options,
+    input,
+    parse: (value) => {
+      const number = typeof value === "string" ? Number(value.replace(",", ".")) : value;
+      if (
+        typeof number !== "number" ||
+        !Number.isFinite(number) ||
+        (input === "integer" && !Number.isInteger(number)) ||
+        number < options.min ||
+        number > options.max
+      ) {
+        throw new SettingsError(
+          `${options.label}: informe um número${input === "integer" ? " inteiro" : ""} entre ${options.min} e ${options.max}`
+        );
+      }
+      return number;
+    },
+  };
+}
+
+function textSetting(
+  options: Pick<SettingDefinition<string>, "label" | "description" | "defaultValue"> & {
+    maxLength: number;
+    pattern: RegExp;
+    patternMessage: string;
+  }
+): SettingDefinition<string> {
+  const { pattern, patternMessage, ...definition } = options;
+  return {
+    ...definition,
+    input: "text",
+    parse: (value) => {
+      const text = typeof value === "string" ? value.trim() : "";
+      if (!text || text.length > options.maxLength) {
+        throw new SettingsError(`${options.label}: informe de 1 a ${options.maxLength} caracteres`);
+      }
+      if (!pattern.test(text)) {
+        throw new SettingsError(`${options.label}: ${patternMessage}`);
+      }
+      return text;
+    },
+  };
+}
+
+function emailListSetting(
+  options: Pick<SettingDefinition<string[]>, "label" | "description" | "defaultValue">
+): SettingDefinition<string[]> {
+  return {
+    ...options,
+    input: "emails",
+    parse: (value) => {
+      const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,;]+/) : null;
+      if (!items) {
+        throw new SettingsError(`${options.label}: informe uma lista de e-mails`);
+      }
+
+      const emails = items.map((item) => String(item).trim().toLowerCase()).filter(Boolean);
+      const invalid = emails.find((email) => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
+      if (invalid) {
+        throw new SettingsError(`${options.label}: "${invalid}" não é um e-mail válido`);
+      }
+      return [...new Set(emails)];
+    },
+  };
+}
+
+/**
+ * Configurações da plataforma. Sem valor gravado, vale o padrão definido aqui.
+ */
+export const SETTING_DEFINITIONS = {
+  refundWindowDays: numberSetting("integer", {
+    label: "Prazo de reembolso",
+    description: "Dias após a compra em que o aluno pode pedir reembolso. Cada curso pode definir o próprio prazo.",
+    unit: "dias",
+    min: 7, // prazo de arrependimento do CDC
+    max: 365,
+    defaultValue: 7,
+  }),
+  installmentRatePercent: numberSetting("decimal", {
+    label: "Acréscimo do parcelamento",
+    description: "Percentual somado ao total do pedido por parcela acima de 1x.",
+    unit: "% por parcela",
+    min: 0,
+    max: 10,
+    defaultValue: 2,
+  }),
+  journeyDurationMonths: numberSetting("integer", {
+    label: "Duração padrão das jornadas",
+    description: "Meses de acesso após a compra de uma jornada que não define a própria duração.",
+    unit: "meses",
+    min: 1,
+    max: 120,
+    defaultValue: 12,
+  }),
+  statementDescriptor: textSetting({
+    label: "Nome na fatura do cartão",
+    description: "Como a compra aparece na fatura do comprador (statement_descriptor do Mercado Pago).",
+    maxLength: 22,
+    pattern: /^[A-Z0-9 .*-]+$/,
+    patternMessage: "use apenas letras maiúsculas sem acento, números, espaço, ponto, hífen ou asterisco",
+    defaultValue: "PROGRAMACAO.DEV",
+  }),
+  adminEmails: emailListSetting({
+    label: "E-mails de administradores",
+    description: "Contas com estes e-mails passam a ser ADMIN ao entrar com Google ou GitHub.",
+    // ADMIN_EMAIL cria o primeiro administrador antes de existir alguém para configurar o painel
+    defaultValue: process.env.ADMIN_EMAIL ? [process.env.ADMIN_EMAIL.trim().toLowerCase()] : [],
+  }),
+};
+
+export type SettingKey = keyof typeof SETTING_DEFINITIONS;
+
+export type Settings = {
+  [K in SettingKey]: (typeof SETTING_DEFINITIONS)[K]["defaultValue"];
+};
+
+// Configurações que o navegador precisa conhecer (ex.: simulação do parcelamento)
+const PUBLIC_SETTING_KEYS = ["installmentRatePercent"] as const satisfies readonly SettingKey[];
+
+const SETTING_KEYS = Object.keys(SETTING_DEFINITIONS) as SettingKey[];
+
+function isSettingKey(key: string): key is SettingKey {
+  return key in SETTING_DEFINITIONS;
+}
+
+// Cada instância guarda as configurações por um minuto; alterações feitas
+// em outra instância aparecem depois desse prazo
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: { settings: Settings; expiresAt: number } | null = null;
+
+function readStoredValue(key: SettingKey, stored: Prisma.JsonValue | undefined) {
+  const definition: SettingDefinition<unknown> = SETTING_DEFINITIONS[key];
+  if (stored === undefined) return definition.defaultValue;
+
+  try {
+    return definition.parse(stored);
+  } catch (error) {
+    console.error(`Configuração ${key} inválida no banco, usando o padrão:`, error);
+    return definition.defaultValue;
+  }
+}
+
+/**
+ * Todas as configurações, já com os padrões aplicados.
+ */
+export async function getSettings(): Promise<Settings> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.settings;
+  }
+
+  const rows = await prisma.setting.findMany();
+  const stored = new Map(rows.map((row) => [row.key, row.value]));
+  const settings = Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, readStoredValue(key, stored.get(key))])
+  ) as Settings;
+
+  cache = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+export async function getSetting<K extends SettingKey>(key: K): Promise<Settings[K]> {
+  return (await getSettings())[key];
+}
+
+export async function getPublicSettings() {
+  const settings = await getSettings();
+  return Object.fromEntries(PUBLIC_SETTING_KEYS.map((key) => [key, settings[key]])) as Pick<
+    Settings,
+    (typeof PUBLIC_SETTING_KEYS)[number]
+  >;
+}
+
+/**
+ * Definições para o painel, sem as funções de validação.
+ */
+export function getSettingDefinitions() {
+  return SETTING_KEYS.map((key) => {
+    const { parse, ...definition } = SETTING_DEFINITIONS[key] as SettingDefinition<unknown>;
+    return { key, ...definition };
+  });
+}
+
+/**
+ * Grava as configurações alteradas e registra cada mudança no histórico.
+ * Valores iguais aos atuais são ignorados.
+ */
+export async function updateSettings(changes: Record<string, unknown>, changedById: string) {
+  const unknownKey = Object.keys(changes).find((key) => !isSettingKey(key));
+  if (unknownKey) {
+    throw new SettingsError(`Configuração desconhecida: ${unknownKey}`);
+  }
+
+  const parsed = Object.entries(changes).map(([key, value]) => ({
+    key: key as SettingKey,
+    value: (SETTING_DEFINITIONS[key as SettingKey] as SettingDefinition<unknown>).parse(value),
+  }));
+
+  const rows = await prisma.setting.findMany({ where: { key: { in: parsed.map((change) => change.key) } } });
+  const stored = new Map(rows.map((row) => [row.key, row.value]));
+
+  const changed = parsed.filter(
+    ({ key, value }) => JSON.stringify(readStoredValue(key, stored.get(key))) !== JSON.stringify(value)
+  );
+
+  if (changed.length > 0) {
+    await prisma.$transaction(
+      changed.flatMap(({ key, value }) => [
+        prisma.setting.upsert({
+          where: { key },
+          create: { key, value: value as Prisma.InputJsonValue },
+          update: { value: value as Prisma.InputJsonValue },
+        }),
+        prisma.settingChange.create({
+          data: {
+            key,
+            previousValue: (stored.get(key) ?? undefined) as Prisma.InputJsonValue | undefined,
+            value: value as Prisma.InputJsonValue,
+            changedById,
+          },
+        }),
+      ])
+    );
+
+    console.log(`Configurações ${changed.map((change) => change.key).join(", ")} alteradas por ${changedById}`);
+  }
+
+  cache = null;
+  return getSettings();
+}
+
+/**
+ * Últimas alterações das configurações, da mais recente para a mais antiga.
+ */
+export function getSettingChanges(take = 50) {
+  return prisma.settingChange.findMany({
+    orderBy: { createdAt: "desc" },
+    take,
+    include: { changedBy: { select: { id: true, name: true, email: true } } },
+  });
+}
@@ -0,0 +1,325 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { NextResponse } from "next/server";
+import type { JWT } from "next-auth/jwt";
+import QRCode from "qrcode";
+import prisma from "@/lib/prisma";
+import { setSessionToken } from "@/lib/account-security";
+import { hasPermission } from "@/lib/roles";
+import { hashToken } from "@/lib/user-tokens";
+import type { UserRole } from "@/generated/prisma/enums";
+
+/**
+ * Verificação em duas etapas por TOTP (RFC 6238): códigos de 6 dígitos que
+ * mudam a cada 30 segundos, gerados por apps como Google Authenticator.
+ *
+ * No login o JWT nasce com `twoFactorPending` e sem `role`; só depois do
+ * código (ou da configuração, para a equipe) a sessão passa a valer.
+ */
+
+const ISSUER = "programacao.dev";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Aceita o passo anterior e o seguinte para tolerar relógios dessincronizados
+const WINDOW = 1;
+
+// Depois de MAX_FAILED_ATTEMPTS códigos errados, bloqueia por LOCK_MINUTES
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_MINUTES = 15;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// verify: informar o código; setup: equipe sem 2FA precisa configurar antes de entrar
+export type TwoFactorStep = "verify" | "setup";
+
+//
+// --------------------- TOTP ---------------------
+//
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+function base32Decode(input: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function currentStep() {
+  return Math.floor(Date.now() / 1000 / STEP_SECONDS);
+}
+
+function generateTotp(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return code.toString().padStart(DIGITS, "0");
+}
+
+/**
+ * Passo em que o código é válido, ou null. Passos até `lastUsedStep` são
+ * recusados para que um código não seja usado duas vezes.
+ */
+function matchTotp(secret: string, code: string, lastUsedStep: number | null) {
+  const now = currentStep();
+
+  for (let step = now - WINDOW; step <= now + WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+    const expected = generateTotp(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+  }
+
+  return null;
+}
+
+//
+// --------------------- SEGREDO ---------------------
+//
+
+// O segredo é cifrado com AES-256-GCM; a chave deriva de NEXTAUTH_SECRET
+function encryptionKey() {
+  return createHash("sha256").update(`two-factor:${process.env.NEXTAUTH_SECRET ?? ""}`).digest();
+}
+
+function encryptSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+function decryptSecret(value: string) {
+  const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+//
+// --------------------- CÓDIGOS DE RECUPERAÇÃO ---------------------
+//
+
+function normalizeRecoveryCode(code: string) {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+/**
+ * Gera um novo conjunto de códigos de recuperação, invalidando os anteriores.
+ * Os códigos em texto só existem nesta resposta; o banco guarda o hash.
+ */
+export async function generateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+async function useRecoveryCode(userId: string, code: string) {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count === 1;
+}
+
+//
+// --------------------- CONFIGURAÇÃO E VERIFICAÇÃO ---------------------
+//
+
+/**
+ * Quem entra no painel /admin é obrigado a usar 2FA; para os demais é opcional.
+ */
+export function isTwoFactorRequired(role: UserRole | undefined) {
+  return hasPermission(role, "admin:access");
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const [twoFactor, recoveryCodesRemaining] = await Promise.all([
+    prisma.userTwoFactor.findUnique({ where: { userId }, select: { enabledAt: true } }),
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+
+  return {
+    enabled: !!twoFactor?.enabledAt,
+    enabledAt: twoFactor?.enabledAt ?? null,
+    recoveryCodesRemaining: twoFactor?.enabledAt ? recoveryCodesRemaining : 0,
+  };
+}
+
+/**
+ * Segunda etapa exigida no login: o código, se o 2FA está ativo, ou a
+ * configuração, se o papel exige 2FA e ele ainda não foi ativado.
+ */
+export async function getTwoFactorStep(userId: string, role: UserRole | undefined): Promise<TwoFactorStep | null> {
+  const { enabled } = await getTwoFactorStatus(userId);
+  if (enabled) return "verify";
+  return isTwoFactorRequired(role) ? "setup" : null;
+}
+
+/**
+ * Inicia (ou reinicia) a configuração com um novo segredo. O 2FA só é ativado
+ * em confirmTwoFactorSetup, depois que o usuário informa um código válido.
+ */
+export async function startTwoFactorSetup(userId: string, email: string) {
+  const secret = base32Encode(randomBytes(20));
+
+  await prisma.userTwoFactor.upsert({
+    where: { userId },
+    create: { userId, secret: encryptSecret(secret) },
+    update: { secret: encryptSecret(secret), enabledAt: null, lastUsedStep: null, failedAttempts: 0, lockedUntil: null },
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const otpauthUri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUri,
+    qrCode: await QRCode.toDataURL(otpauthUri),
+  };
+}
+
+export type TwoFactorCheck = { ok: true } | { ok: false; error: string; status: number };
+
+async function registerFailure(userId: string, failedAttempts: number): Promise<TwoFactorCheck> {
+  const locked = failedAttempts + 1 >= MAX_FAILED_ATTEMPTS;
+
+  await prisma.userTwoFactor.update({
+    where: { userId },
+    data: locked
+      ? { failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCK_MINUTES * 60 * 1000) }
+      : { failedAttempts: failedAttempts + 1 },
+  });
+
+  return locked
+    ? { ok: false, error: `Muitas tentativas. Tente novamente em ${LOCK_MINUTES} minutos.`, status: 429 }
+    : { ok: false, error: "Código inválido", status: 400 };
+}
+
+/**
+ * Confere um código TOTP ou, com 2FA ativo, um código de recuperação.
+ * `pending` permite conferir o segredo de uma configuração ainda não confirmada.
+ */
+async function checkCode(userId: string, code: string, options: { pending?: boolean } = {}): Promise<TwoFactorCheck> {
+  const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+  if (!twoFactor || (!options.pending && !twoFactor.enabledAt)) {
+    return { ok: false, error: "Verificação em duas etapas não configurada", status: 400 };
+  }
+
+  if (twoFactor.lockedUntil && twoFactor.lockedUntil > new Date()) {
+    return { ok: false, error: "Muitas tentativas. Tente novamente mais tarde.", status: 429 };
+  }
+
+  const digits = code.replace(/\s/g, "");
+  if (new RegExp(`^\\d{${DIGITS}}$`).test(digits)) {
+    const step = matchTotp(decryptSecret(twoFactor.secret), digits, twoFactor.lastUsedStep);
+    if (step === null) return registerFailure(userId, twoFactor.failedAttempts);
+
+    // Condicional para não aceitar o mesmo código em requisições concorrentes
+    const { count } = await prisma.userTwoFactor.updateMany({
+      where: { userId, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+      data: { lastUsedStep: step, failedAttempts: 0, lockedUntil: null },
+    });
+    return count === 1 ? { ok: true } : registerFailure(userId, twoFactor.failedAttempts);
+  }
+
+  if (twoFactor.enabledAt && (await useRecoveryCode(userId, code))) {
+    await prisma.userTwoFactor.update({
+      where: { userId },
+      data: { failedAttempts: 0, lockedUntil: null },
+    });
+    return { ok: true };
+  }
+
+  return registerFailure(userId, twoFactor.failedAttempts);
+}
+
+export function verifyTwoFactorCode(userId: string, code: string) {
+  return checkCode(userId, code);
+}
+
+/**
+ * Ativa o 2FA com o primeiro código do app e devolve os códigos de recuperação.
+ */
+export async function confirmTwoFactorSetup(userId: string, code: string) {
+  const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId }, select: { enabledAt: true } });
+  if (twoFactor?.enabledAt) {
+    return { ok: false as const, error: "A verificação em duas etapas já está ativa", status: 409 };
+  }
+
+  const check = await checkCode(userId, code, { pending: true });
+  if (!check.ok) return check;
+
+  await prisma.userTwoFactor.update({ where: { userId }, data: { enabledAt: new Date() } });
+  const recoveryCodes = await generateRecoveryCodes(userId);
+
+  console.log(`Verificação em duas etapas ativada para o usuário ${userId}`);
+  return { ok: true as const, recoveryCodes };
+}
+
+export async function disableTwoFactor(userId: string) {
+  await prisma.$transaction([
+    prisma.userTwoFactor.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+
+  console.log(`Verificação em duas etapas desativada para o usuário ${userId}`);
+}
+
+/**
+ * Conclui o login depois do segundo fator: o token recebe a role atual do
+ * usuário e conta como login recente.
+ */
+export async function completeTwoFactorSignIn(response: NextResponse, token: JWT) {
+  const user = await prisma.user.findUnique({ where: { id: token.sub }, select: { role: true } });
+  if (!user) throw new Error("Usuário não encontrado");
+
+  const signedIn: JWT = { ...token, role: user.role, authTime: Date.now() };
+  delete signedIn.twoFactorPending;
+  return setSessionToken(response, signedIn);
+}
@@ -0,0 +1,72 @@
+import { createHash, randomBytes } from "crypto";
+import { hash } from "bcryptjs";
+import prisma from "@/lib/prisma";
+import { appUrl, sendEmail } from "@/lib/email";
+import { renderEmail } from "@/lib/email-templates";
+import { UserTokenType } from "@/generated/prisma/enums";
+
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  EMAIL_VERIFICATION: 24 * 60,
+  PASSWORD_RESET: 60,
+};
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function hashPassword(password: string) {
+  return hash(password, 10);
+}
+
+/**
+ * Gera um token de uso único e devolve o valor em claro, que só existe no
+ * link enviado por e-mail. Tokens anteriores do mesmo tipo são descartados.
+ */
+export async function createUserToken(userId: string, type: UserTokenType) {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES[type] * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.userToken.deleteMany({ where: { userId, type, usedAt: null } }),
+    prisma.userToken.create({
+      data: { userId, type, tokenHash: hashToken(token), expiresAt },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Consome o token: devolve o id do usuário se ele existe, não expirou e não
+ * foi usado. A marcação de uso é condicional para não aceitar o mesmo token
+ * duas vezes em requisições concorrentes.
+ */
+export async function consumeUserToken(token: string, type: UserTokenType) {
+  const record = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+  if (!record || record.type !== type || record.usedAt || record.expiresAt < new Date()) {
+    return null;
+  }
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return count === 1 ? record.userId : null;
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string; name: string | null }) {
+  const token = await createUserToken(user.id, "EMAIL_VERIFICATION");
+  const link = appUrl(`/verify-email?token=${token}`);
+
+  await sendEmail({ to: user.email, ...renderEmail("email-verification", { name: user.name, link }) });
+}
+
+export async function sendPasswordResetEmail(user: { id: string; email: string; name: string | null }) {
+  const token = await createUserToken(user.id, "PASSWORD_RESET");
+  const link = appUrl(`/reset-password?token=${token}`);
+
+  await sendEmail({ to: user.email, ...renderEmail("password-reset", { name: user.name, link }) });
+}
@@ -0,0 +1,170 @@
+import prisma from "@/lib/prisma";
+import { WebhookEventStatus } from "@/generated/prisma/enums";
+import { processPaymentNotification, WebhookProcessingError } from "@/lib/mercado-pago-webhook";
+
+// Depois disso o evento vai para DEAD e só volta com replay manual
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Eventos presos em PROCESSING por mais que isso (ex.: função encerrada no meio) voltam para a fila
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Só "payment" traz o id do pagamento em data.id. Reembolsos e chargebacks também
+// mudam o status do pagamento e chegam por esse tópico; os demais são ignorados
+const SUPPORTED_TYPES = ["payment"];
+
+/**
+ * Atraso antes da próxima tentativa: 30s, 1min, 2min, 4min... limitado a 6h.
+ */
+export function getRetryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+interface IncomingNotification {
+  id?: string | number;
+  type?: string;
+  topic?: string;
+  action?: string;
+  data?: { id?: string | number };
+}
+
+/**
+ * Grava a notificação na caixa de entrada. Retorna o evento e se ele já existia;
+ * reenvios do gateway com o mesmo id não criam um segundo registro.
+ */
+export async function recordWebhookEvent(body: IncomingNotification, requestId: string | null) {
+  const type = body.type ?? body.topic ?? "unknown";
+  const dataId = body.data?.id?.toString() ?? "";
+  // Notificações sem id próprio caem no x-request-id, que é único por envio
+  const eventId = body.id?.toString() ?? requestId ?? `${type}:${dataId}:${body.action ?? ""}`;
+
+  const existing = await prisma.webhookEvent.findUnique({ where: { eventId } });
+  if (existing) {
+    return { event: existing, duplicate: true };
+  }
+
+  try {
+    const event = await prisma.webhookEvent.create({
+      data: {
+        eventId,
+        type,
+        action: body.action ?? null,
+        dataId,
+        payload: body as object,
+      },
+    });
+    return { event, duplicate: false };
+  } catch (error: any) {
+    // Dois envios simultâneos do mesmo evento: o outro já gravou
+    if (error?.code === "P2002") {
+      const event = await prisma.webhookEvent.findUniqueOrThrow({ where: { eventId } });
+      return { event, duplicate: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Processa um evento da caixa de entrada, registrando o resultado ou
+ * agendando nova tentativa com backoff exponencial.
+ */
+export async function processWebhookEvent(id: string) {
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+
+  // Reserva o evento; se outro worker pegou antes, count será 0
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: { in: ["PENDING", "FAILED"] } },
+        { status: "PROCESSING", updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: "PROCESSING", attempts: { increment: 1 } },
+  });
+
+  if (count === 0) return null;
+
+  const event = await prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+
+  try {
+    let result: string;
+
+    if (!SUPPORTED_TYPES.includes(event.type)) {
+      result = `ignored:${event.type}`;
+    } else if (!event.dataId) {
+      throw new WebhookProcessingError("missing_payment_id", false);
+    } else {
+      result = await processPaymentNotification(event.dataId);
+    }
+
+    return await prisma.webhookEvent.update({
+      where: { id },
+      data: {
+        status: "PROCESSED",
+        result,
+        lastError: null,
+        processedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable = error instanceof WebhookProcessingError ? error.retryable : true;
+    const exhausted = event.attempts >= MAX_WEBHOOK_ATTEMPTS;
+    const status: WebhookEventStatus = retryable && !exhausted ? "FAILED" : "DEAD";
+
+    console.error(`Falha ao processar evento ${event.eventId} (tentativa ${event.attempts}):`, message);
+
+    return prisma.webhookEvent.update({
+      where: { id },
+      data: {
+        status,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(event.attempts)),
+      },
+    });
+  }
+}
+
+/**
+ * Processa os eventos cuja próxima tentativa já venceu. Chamado pelo worker agendado.
+ */
+export async function processDueWebhookEvents(limit = 20) {
+  const now = new Date();
+  const due = await prisma.webhookEvent.findMany({
+    where: {
+      OR: [
+        { status: { in: ["PENDING", "FAILED"] }, nextAttemptAt: { lte: now } },
+        { status: "PROCESSING", updatedAt: { lt: new Date(now.getTime() - PROCESSING_TIMEOUT_MS) } },
+      ],
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const results = [];
+  for (const { id } of due) {
+    results.push(await processWebhookEvent(id));
+  }
+
+  return results.filter(Boolean);
+}
+
+/**
+ * Devolve um evento para a fila e processa imediatamente (replay manual do admin).
+ */
+export async function replayWebhookEvent(id: string) {
+  await prisma.webhookEvent.update({
+    where: { id },
+    data: {
+      status: "PENDING",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    },
+  });
+
+  return processWebhookEvent(id);
+}
@@ -0,0 +1,128 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Validação das notificações do Mercado Pago (cabeçalhos x-signature / x-request-id).
+ *
+ * O cabeçalho x-signature tem o formato "ts=<timestamp>,v1=<hmac>", onde o hmac é
+ * um HMAC-SHA256 (hex) do manifesto "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+ * assinado com a chave secreta configurada no painel do Mercado Pago.
+ */
+
+// Notificações mais antigas que isso são tratadas como replay
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export type SignatureFailureReason =
+  | "missing_secret"
+  | "missing_signature"
+  | "malformed_signature"
+  | "expired_signature"
+  | "invalid_signature";
+
+export type SignatureVerification =
+  | { valid: true; ts: number }
+  | { valid: false; reason: SignatureFailureReason };
+
+interface SignatureInput {
+  signature: string | null;
+  requestId: string | null;
+  dataId: string | null;
+  secret: string | undefined;
+  now?: number;
+}
+
+function parseSignatureHeader(header: string) {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")];
+    })
+  );
+
+  return { ts: parts.ts as string | undefined, v1: parts.v1 as string | undefined };
+}
+
+// O Mercado Pago pede o id em minúsculas quando ele é alfanumérico
+function normalizeDataId(dataId: string) {
+  return /^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId;
+}
+
+function buildManifest(dataId: string | null, requestId: string | null, ts: string) {
+  let manifest = "";
+  if (dataId) manifest += `id:${normalizeDataId(dataId)};`;
+  if (requestId) manifest += `request-id:${requestId};`;
+  manifest += `ts:${ts};`;
+  return manifest;
+}
+
+function computeSignature(manifest: string, secret: string) {
+  return createHmac("sha256", secret).update(manifest).digest("hex");
+}
+
+// ts pode vir em segundos ou milissegundos dependendo da integração
+function tsToMillis(ts: number) {
+  return ts < 1e12 ? ts * 1000 : ts;
+}
+
+export function verifyWebhookSignature({
+  signature,
+  requestId,
+  dataId,
+  secret,
+  now = Date.now(),
+}: SignatureInput): SignatureVerification {
+  if (!secret) return { valid: false, reason: "missing_secret" };
+  if (!signature) return { valid: false, reason: "missing_signature" };
+
+  const { ts, v1 } = parseSignatureHeader(signature);
+  if (!ts || !v1 || !/^\d+$/.test(ts) || !/^[0-9a-f]+$/i.test(v1)) {
+    return { valid: false, reason: "malformed_signature" };
+  }
+
+  const expected = Buffer.from(computeSignature(buildManifest(dataId, requestId, ts), secret), "hex");
+  const received = Buffer.from(v1, "hex");
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  const tsMillis = tsToMillis(Number(ts));
+  if (Math.abs(now - tsMillis) > SIGNATURE_TOLERANCE_MS) {
+    return { valid: false, reason: "expired_signature" };
+  }
+
+  return { valid: true, ts: tsMillis };
+}
+
+/**
+ * Gera uma notificação assinada como o Mercado Pago faria, para exercitar o
+ * webhook localmente. scripts/send-mp-webhook.mjs faz o mesmo pela linha de comando.
+ */
+export function signWebhookNotification({
+  dataId,
+  type = "payment",
+  secret,
+  requestId = crypto.randomUUID(),
+  ts = Date.now(),
+}: {
+  dataId: string;
+  type?: string;
+  secret: string;
+  requestId?: string;
+  ts?: number;
+}) {
+  const v1 = computeSignature(buildManifest(dataId, requestId, String(ts)), secret);
+
+  return {
+    query: `data.id=${encodeURIComponent(dataId)}&type=${encodeURIComponent(type)}`,
+    headers: {
+      "Content-Type": "application/json",
+      "x-signature": `ts=${ts},v1=${v1}`,
+      "x-request-id": requestId,
+    },
+    body: {
+      action: `${type}.updated`,
+      type,
+      data: { id: dataId },
+    },
+  };
+}
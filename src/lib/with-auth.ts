@@ -0,0 +1,85 @@
+import { getServerSession, type Session } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { TWO_FACTOR_REQUIRED } from "@/lib/credentials";
+import { PermissionResource, can } from "@/lib/permissions";
+import type { Permission } from "@/lib/roles";
+
+export type SessionUser = Session["user"];
+
+type RouteContext<P> = { params: Promise<P> };
+
+type Ownership<P> = (user: SessionUser, params: P, request: NextRequest) => boolean | Promise<boolean>;
+
+type AuthOptions<P> = {
+  // Permissão exigida; sem ela, basta estar logado
+  permission?: Permission;
+  // Recurso da permissão a partir dos parâmetros da rota (ex.: o curso)
+  resource?: (params: P) => PermissionResource;
+  // Dono do recurso (ou quem tem acesso a ele). Para ler o corpo aqui, use
+  // request.clone() para o handler ainda conseguir lê-lo
+  ownership?: Ownership<P>;
+};
+
+type Handler<P, U> = (request: NextRequest, context: { user: U; params: P }) => Promise<Response>;
+
+/**
+ * Usuário da sessão, ou undefined se não houver login completo. Uma sessão que
+ * ainda aguarda o segundo fator não conta como login.
+ */
+async function getSessionUser() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) return { user: undefined, pendingTwoFactor: false };
+  if (session.user.twoFactorPending) return { user: undefined, pendingTwoFactor: true };
+  return { user: session.user, pendingTwoFactor: false };
+}
+
+/**
+ * Protege um handler de rota. A identidade vem sempre da sessão; ids de
+ * usuário enviados pelo cliente não devem ser usados para autorizar nada.
+ *
+ *   export const PATCH = withAuth<{ courseId: string }>({ permission: "course:edit", resource: courseResource }, async (request, { user, params }) => ...)
+ *
+ * Com `optional: true` o handler também roda sem login, recebendo user undefined.
+ */
+export function withAuth<P = Record<string, never>>(
+  options: AuthOptions<P> & { optional: true },
+  handler: Handler<P, SessionUser | undefined>
+): (request: NextRequest, context: RouteContext<P>) => Promise<Response>;
+export function withAuth<P = Record<string, never>>(
+  options: AuthOptions<P>,
+  handler: Handler<P, SessionUser>
+): (request: NextRequest, context: RouteContext<P>) => Promise<Response>;
+export function withAuth<P>(
+  options: AuthOptions<P> & { optional?: boolean },
+  routeHandler: Handler<P, SessionUser> | Handler<P, SessionUser | undefined>
+) {
+  // Com `optional` o handler aceita undefined; sem ele, só chega aqui com usuário
+  const handler = routeHandler as Handler<P, SessionUser | undefined>;
+
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    const params = await context.params;
+    const { user, pendingTwoFactor } = await getSessionUser();
+
+    if (!user) {
+      if (options.optional) return handler(request, { user: undefined, params });
+
+      return pendingTwoFactor
+        ? NextResponse.json(
+            { error: "Confirme o código de verificação em duas etapas", code: TWO_FACTOR_REQUIRED },
+            { status: 401 }
+          )
+        : NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (options.permission && !(await can(user, options.permission, options.resource?.(params)))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (options.ownership && !(await options.ownership(user, params, request))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return handler(request, { user, params });
+  };
+}
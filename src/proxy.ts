@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
 import prisma from "@/lib/prisma";
+import { getSessionCookieName, isSessionTokenCurrent } from "@/lib/account-security";
+import { can } from "@/lib/permissions";
+import { getAdminRoutePermission, hasPermission } from "@/lib/roles";
 
 // Rotas que devem ser ignoradas completamente pelo middleware
 const IGNORED_ROUTES = [
@@ -41,22 +44,46 @@ export async function proxy(req: NextRequest) {
     pathname.startsWith("/register") ||
     pathname.startsWith("/forgot-password") ||
     pathname.startsWith("/reset-password") ||
+    pathname.startsWith("/verify-email") ||
     pathname.startsWith("/curso/") ||
     pathname.startsWith("/cursos/") ||
     pathname.startsWith("/jornada/") ||
     pathname.startsWith("/jornadas/") ||
+    pathname.startsWith("/certificados/") ||
+    pathname.startsWith("/forum/") ||
     pathname.startsWith("/api/public") ||
     pathname === "/" ||
     isPublicApiRoute;
 
-  // 5. Proteger rotas autenticadas
+  // 5. Token de versão antiga (papel alterado, conta desativada, "sair das
+  // outras sessões"): apaga o cookie e exige um novo login
+  if (token && !(await isSessionTokenCurrent(token))) {
+    const url = new URL("/signin", req.url);
+    url.searchParams.set("callbackUrl", pathname + req.nextUrl.search);
+    const response = isPublicRoute ? NextResponse.next() : NextResponse.redirect(url);
+    response.cookies.delete(getSessionCookieName());
+    return response;
+  }
+
+  // 6. Login aguardando o segundo fator (2FA): o token ainda não tem role
+  const isTwoFactorRoute = pathname.startsWith("/2fa");
+  if (token?.twoFactorPending && !isTwoFactorRoute && !isPublicRoute) {
+    const url = new URL("/2fa", req.url);
+    url.searchParams.set("callbackUrl", pathname + req.nextUrl.search);
+    return NextResponse.redirect(url);
+  }
+  if (isTwoFactorRoute && !token?.twoFactorPending) {
+    return NextResponse.redirect(new URL(token ? "/dashboard" : "/signin", req.url));
+  }
+
+  // 7. Proteger rotas autenticadas
   if (!isPublicRoute && !token) {
     const url = new URL("/signin", req.url);
     url.searchParams.set("callbackUrl", pathname + req.nextUrl.search);
     return NextResponse.redirect(url);
   }
 
-  // 6. Verificar acesso a cursos/jornadas
+  // 8. Verificar acesso a cursos/jornadas
   if (token) {
     // Verificar acesso a cursos
     if (pathname.startsWith('/dashboard/cursos/')) {
@@ -77,30 +104,46 @@ export async function proxy(req: NextRequest) {
     }
   }
 
-  // 7. Permissões para /admin
+  // 9. Permissões para /admin: cada seção exige a sua (ver ADMIN_ROUTE_PERMISSIONS).
+  // Na página de um curso, instrutores só entram nos cursos atribuídos a eles.
   if (pathname.startsWith("/admin")) {
-    if (!token || token.role != "ADMIN" ) {
+    const permission = getAdminRoutePermission(pathname);
+    const courseId = pathname.match(/^\/admin\/courses\/([^/]+)/)?.[1];
+    const user = token?.sub && token.role ? { id: token.sub, role: token.role } : undefined;
+    const allowed = courseId && courseId !== "new"
+      ? await can(user, permission, { courseId })
+      : hasPermission(token?.role, permission);
+    if (!allowed) {
       return NextResponse.redirect(new URL("/dashboard", req.url));
     }
   }
 
-  // 8. Redirecionar usuário logado que tenta ir para signin/register
-  if (token && (pathname === "/signin" || pathname === "/register")) {
+  // 10. Redirecionar usuário logado que tenta ir para signin/register
+  if (token && !token.twoFactorPending && (pathname === "/signin" || pathname === "/register")) {
     return NextResponse.redirect(new URL("/dashboard", req.url));
   }
 
   return NextResponse.next();
 }
 
-// Função auxiliar para verificar acesso a curso
+// Função auxiliar para verificar acesso a curso (direto ou via jornada)
 async function hasCourseAccess(userId: string, courseId: string): Promise<boolean> {
   const enrollment = await prisma.enrollment.findFirst({
     where: {
       userId,
-      courseId,
-      OR: [
-        { endDate: null }, // Acesso vitalício
-        { endDate: { gte: new Date() } } // Acesso ativo
+      AND: [
+        {
+          OR: [
+            { courseId },
+            { journey: { courses: { some: { courseId } } } }
+          ]
+        },
+        {
+          OR: [
+            { endDate: null }, // Acesso vitalício
+            { endDate: { gte: new Date() } } // Acesso ativo
+          ]
+        }
       ]
     }
   });
@@ -1,5 +1,6 @@
 import NextAuth from 'next-auth';
-import { UserRole } from '@prisma/client';
+import type { UserRole } from '@/generated/prisma/enums';
+import type { TwoFactorStep } from '@/lib/two-factor';
 
 declare module 'next-auth' {
   interface Session {
@@ -9,6 +10,10 @@ declare module 'next-auth' {
       email?: string | null;
       image?: string | null;
       role: UserRole;
+      // Momento do último login (ms), usado para exigir reautenticação
+      authTime?: number;
+      // Login feito só com o primeiro fator; ver src/lib/two-factor.ts
+      twoFactorPending?: TwoFactorStep;
     };
   }
 
@@ -20,5 +25,9 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT {
     role?: UserRole;
+    authTime?: number;
+    // User.tokenVersion no momento do login
+    tokenVersion?: number;
+    twoFactorPending?: TwoFactorStep;
   }
 }